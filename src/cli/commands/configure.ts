@@ -18,7 +18,7 @@ export async function configureCommand(): Promise<void> {
       type: 'list',
       name: 'provider',
       message: 'Select LLM Provider:',
-      choices: ['ollama', 'openai', 'anthropic'],
+      choices: ['ollama', 'openai', 'anthropic', 'gemini', 'openai-compatible'],
       default: currentConfig.llm.provider
     },
     {
@@ -29,6 +29,8 @@ export async function configureCommand(): Promise<void> {
         if (answers.provider === 'ollama') return 'llama3.2';
         if (answers.provider === 'openai') return 'gpt-4o';
         if (answers.provider === 'anthropic') return 'claude-3-5-sonnet-20241022';
+        if (answers.provider === 'gemini') return 'gemini-2.0-flash';
+        if (answers.provider === 'openai-compatible') return 'local-model';
         return 'gpt-4o';
       }
     },
@@ -39,11 +41,25 @@ export async function configureCommand(): Promise<void> {
       default: 'http://localhost:11434',
       when: (answers: any) => answers.provider === 'ollama'
     },
+    {
+      type: 'input',
+      name: 'baseUrl',
+      message: 'Enter Base URL of the OpenAI-compatible server:',
+      default: 'http://localhost:8080/v1',
+      when: (answers: { provider: string }): boolean => answers.provider === 'openai-compatible'
+    },
     {
       type: 'password',
       name: 'apiKey',
       message: 'Enter API Key:',
-      when: (answers: any) => answers.provider !== 'ollama',
+      when: (answers: { provider: string }): boolean => answers.provider !== 'ollama' && answers.provider !== 'openai-compatible',
+      mask: '*'
+    },
+    {
+      type: 'password',
+      name: 'apiKey',
+      message: 'Enter API Key (optional):',
+      when: (answers: { provider: string }): boolean => answers.provider === 'openai-compatible',
       mask: '*'
     }
   ] as any);
@@ -1,5 +1,5 @@
 import { type LLMProvider, type LLMConfig } from '../../core/index.js';
-import { OllamaProvider, OpenAIProvider, AnthropicProvider } from '../../llm/index.js';
+import { OllamaProvider, OpenAIProvider, AnthropicProvider, OpenAICompatibleProvider, GeminiProvider } from '../../llm/index.js';
 import { NostrClient } from '../../channels/nostr/index.js';
 import { loadConfig, loadOrGenerateKeys, type CLIConfig } from '../config.js';
 import { FileStore } from '../../memory/index.js';
@@ -29,12 +29,24 @@ function createLLMProvider(config: CLIConfig['llm']): LLMProvider {
         model: config.model,
         apiKey: config.apiKey ?? process.env.ANTHROPIC_API_KEY ?? ''
       });
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({
+        model: config.model,
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        headers: config.headers
+      });
+    case 'gemini':
+      return new GeminiProvider({
+        model: config.model,
+        apiKey: config.apiKey ?? process.env.GEMINI_API_KEY ?? ''
+      });
     default:
       throw new Error(`Unknown LLM provider: ${config.provider}`);
   }
 }
 
-async function checkLLM(config: CLIConfig['llm']): Promise<HealthCheck> {
+async function checkLLM(config: CLIConfig['llm'], name = 'LLM'): Promise<HealthCheck> {
   try {
     const llm = createLLMProvider(config);
     const start = Date.now();
@@ -47,13 +59,35 @@ async function checkLLM(config: CLIConfig['llm']): Promise<HealthCheck> {
     const latency = Date.now() - start;
 
     return {
-      name: 'LLM',
+      name,
       healthy: true,
       message: `${config.provider}/${config.model} (connected, ${latency}ms latency)`
     };
   } catch (error) {
     return {
-      name: 'LLM',
+      name,
+      healthy: false,
+      message: `${config.provider}/${config.model} - ${error instanceof Error ? error.message : 'unreachable'}`
+    };
+  }
+}
+
+async function checkEmbeddings(config: CLIConfig['llm']): Promise<HealthCheck> {
+  try {
+    const llm = createLLMProvider(config);
+    if (!llm.embed) throw new Error('provider cannot produce embeddings');
+    const start = Date.now();
+    const vector = await llm.embed('ping');
+    const latency = Date.now() - start;
+
+    return {
+      name: 'Embeddings',
+      healthy: true,
+      message: `${config.provider}/${config.model} (${vector.length} dimensions, ${latency}ms latency)`
+    };
+  } catch (error) {
+    return {
+      name: 'Embeddings',
       healthy: false,
       message: `${config.provider}/${config.model} - ${error instanceof Error ? error.message : 'unreachable'}`
     };
@@ -126,6 +160,12 @@ export async function healthCommand(json: boolean): Promise<void> {
   // LLM check
   const llmCheck = await checkLLM(config.llm);
   checks.push(llmCheck);
+  for (const [i, fallback] of (config.failover ?? []).entries()) {
+    checks.push(await checkLLM(fallback, `LLM failover ${i + 1}`));
+  }
+  if (config.embeddings) {
+    checks.push(await checkEmbeddings(config.embeddings));
+  }
 
   // Channel check
   const channelCheck = await checkChannel(config);
@@ -0,0 +1,36 @@
+import { FileStore } from '../../memory/file-store.js';
+import { SQLiteStore } from '../../memory/sqlite.js';
+import { loadConfig, VOLTCLAW_DIR } from '../config.js';
+import type { Store } from '../../core/types.js';
+import path from 'path';
+
+async function getStore(): Promise<Store> {
+  const config = await loadConfig();
+  if (config.persistence?.type === 'file') {
+    const store = new FileStore({ path: config.persistence.path ?? path.join(VOLTCLAW_DIR, 'data.json') });
+    await store.load();
+    return store;
+  }
+  const store = new SQLiteStore({
+    path: config.persistence?.path ?? path.join(VOLTCLAW_DIR, 'voltclaw.db'),
+    vectorIndex: config.persistence?.vectorIndex
+  });
+  await store.load();
+  return store;
+}
+
+export async function memoryCommand(subcommand: string): Promise<void> {
+  const store = await getStore();
+
+  if (subcommand === 'reindex') {
+    if (!store.rebuildVectorIndex) {
+      console.error('Persistence store does not keep a vector index.');
+      return;
+    }
+    const start = Date.now();
+    const count = await store.rebuildVectorIndex();
+    console.log(`Indexed ${count} memories in ${Date.now() - start}ms.`);
+  } else {
+    console.log('Usage: voltclaw memory reindex');
+  }
+}
@@ -1,4 +1,5 @@
 import { FileStore } from '../../memory/index.js';
+import { CallTree, formatCallTree } from '../../core/call-tree.js';
 import path from 'path';
 import { VOLTCLAW_DIR } from '../config.js';
 
@@ -23,7 +24,8 @@ export async function sessionCommand(subcommand: string, arg?: string): Promise<
         if (!session) continue;
         const msgCount = session.history.length;
         const subtaskCount = Object.keys(session.subTasks || {}).length;
-        console.log(`- ${key}: ${msgCount} messages, ${subtaskCount} subtasks, cost: $${session.estCostUSD.toFixed(4)}`);
+        const interrupted = session.checkpoint !== undefined ? ' [interrupted]' : '';
+        console.log(`- ${key}: ${msgCount} messages, ${subtaskCount} subtasks, cost: $${session.estCostUSD.toFixed(4)}${interrupted}`);
       }
       break;
     }
@@ -43,10 +45,17 @@ export async function sessionCommand(subcommand: string, arg?: string): Promise<
       console.log(`\nSession: ${arg}`);
       console.log('----------------');
 
+      let currentTurn: string | undefined;
       for (const msg of session.history) {
+        if (msg.turnId !== undefined && msg.turnId !== currentTurn) {
+          currentTurn = msg.turnId;
+          const startedAt = msg.timestamp !== undefined ? ` (${new Date(msg.timestamp).toISOString()})` : '';
+          console.log(`\n--- ${msg.turnId}${startedAt} ---`);
+        }
         const role = msg.role.toUpperCase();
         const content = msg.content ? msg.content.slice(0, 500) + (msg.content.length > 500 ? '...' : '') : '[no content]';
-        console.log(`[${role}] ${content}`);
+        const callRef = msg.toolCallId !== undefined ? ` (${msg.toolCallId})` : '';
+        console.log(`[${role}]${callRef} ${content}`);
         if (msg.toolCalls) {
             for (const tc of msg.toolCalls) {
                 console.log(`  [TOOL_CALL] ${tc.name}(${JSON.stringify(tc.arguments)})`);
@@ -56,6 +65,43 @@ export async function sessionCommand(subcommand: string, arg?: string): Promise<
       break;
     }
 
+    case 'tree': {
+      if (arg === undefined || arg === '') {
+        console.error('Usage: voltclaw session tree <session_id>');
+        return;
+      }
+
+      const nodes = new CallTree(store).nodes(arg);
+      if (nodes.length === 0) {
+        console.log(`Session '${arg}' has no sub-agent calls.`);
+        return;
+      }
+
+      console.log(`\nCall tree: ${arg}`);
+      console.log('----------------');
+      for (const line of formatCallTree(nodes, arg)) {
+        console.log(line);
+      }
+      break;
+    }
+
+    case 'delete': {
+      if (arg === undefined || arg === '') {
+        console.error('Usage: voltclaw session delete <session_id>');
+        return;
+      }
+
+      if (!(arg in store.getAll())) {
+        console.log(`Session '${arg}' does not exist.`);
+        return;
+      }
+
+      await store.deleteSession(arg);
+      await store.save();
+      console.log(`Session '${arg}' deleted.`);
+      break;
+    }
+
     case 'clear': {
       store.clear();
       await store.save();
@@ -72,7 +118,7 @@ export async function sessionCommand(subcommand: string, arg?: string): Promise<
 
     default:
       console.error(`Unknown subcommand: ${subcommand}`);
-      console.log('Available subcommands: list, show <id>, clear, prune');
+      console.log('Available subcommands: list, show <id>, tree <id>, resume <id>, delete <id>, clear, prune');
       break;
   }
 }
@@ -1,5 +1,5 @@
 import { VoltClawAgent, type LLMProvider, type MessageContext, type ReplyContext, type ErrorContext } from '../../core/index.js';
-import { OllamaProvider, OpenAIProvider, AnthropicProvider } from '../../llm/index.js';
+import { OllamaProvider, OpenAIProvider, AnthropicProvider, OpenAICompatibleProvider, GeminiProvider } from '../../llm/index.js';
 import { FileStore } from '../../memory/index.js';
 import { SQLiteStore } from '../../memory/sqlite.js';
 import { createAllTools } from '../../tools/index.js';
@@ -19,17 +19,36 @@ function createLLMProvider(config: any): LLMProvider {
     case 'ollama':
       return new OllamaProvider({
         model: config.model,
-        baseUrl: config.baseUrl
+        baseUrl: config.baseUrl,
+        rateLimit: config.rateLimit
       });
     case 'openai':
       return new OpenAIProvider({
         model: config.model,
-        apiKey: config.apiKey ?? process.env.OPENAI_API_KEY ?? ''
+        apiKey: config.apiKey ?? process.env.OPENAI_API_KEY ?? '',
+        rateLimit: config.rateLimit
       });
     case 'anthropic':
       return new AnthropicProvider({
         model: config.model,
-        apiKey: config.apiKey ?? process.env.ANTHROPIC_API_KEY ?? ''
+        apiKey: config.apiKey ?? process.env.ANTHROPIC_API_KEY ?? '',
+        rateLimit: config.rateLimit
+      });
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({
+        model: config.model,
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        headers: config.headers,
+        supportsTools: config.supportsTools,
+        supportsResponseFormat: config.supportsResponseFormat,
+        rateLimit: config.rateLimit
+      });
+    case 'gemini':
+      return new GeminiProvider({
+        model: config.model,
+        apiKey: config.apiKey ?? process.env.GEMINI_API_KEY ?? '',
+        rateLimit: config.rateLimit
       });
     default:
       throw new Error(`Unknown LLM provider: ${config.provider}`);
@@ -89,7 +108,7 @@ export async function startCommand(interactive: boolean = false): Promise<void>
   let store: import('../../core/types.js').Store;
 
   if (config.persistence?.type === 'sqlite') {
-    store = new SQLiteStore({ path: config.persistence.path });
+    store = new SQLiteStore({ path: config.persistence.path, vectorIndex: config.persistence.vectorIndex });
   } else {
     // Default or 'file'
     const storePath = config.persistence?.path ?? path.join(VOLTCLAW_DIR, 'data.json');
@@ -105,6 +124,9 @@ export async function startCommand(interactive: boolean = false): Promise<void>
     channel: channels,
     persistence: store,
     call: config.call,
+    router: config.router,
+    failover: config.failover?.map(createLLMProvider),
+    embeddings: config.embeddings ? createLLMProvider(config.embeddings) : undefined,
     plugins: config.plugins,
     tools,
     hooks: {
@@ -167,8 +189,12 @@ export async function startCommand(interactive: boolean = false): Promise<void>
       }
       if (query) {
         try {
-          for await (const chunk of agent.queryStream(query)) {
-            process.stdout.write(chunk);
+          for await (const event of agent.queryEvents(query)) {
+            if (event.type === 'token') {
+              process.stdout.write(event.content);
+            } else if (event.type === 'tool_call_start') {
+              process.stdout.write(`\n  ⚙ ${event.name}\n`);
+            }
           }
           process.stdout.write('\n');
         } catch (error) {
@@ -1,4 +1,5 @@
 import { resolveToHex, generateNewKeyPair } from '../channels/nostr/index.js';
+import type { ModelRouterConfig, RateLimitConfig, VectorIndexConfig } from '../core/types.js';
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
@@ -17,11 +18,19 @@ export interface ChannelConfig {
 export interface CLIConfig {
   channels: ChannelConfig[];
   llm: {
-    provider: 'ollama' | 'openai' | 'anthropic';
+    provider: 'ollama' | 'openai' | 'anthropic' | 'openai-compatible' | 'gemini';
     model: string;
     baseUrl?: string;
     apiKey?: string;
+    headers?: Record<string, string>;
+    supportsTools?: boolean;
+    supportsVision?: boolean;
+    supportsResponseFormat?: boolean;
+    rateLimit?: RateLimitConfig; // Shared by every request to this endpoint
   };
+  router?: ModelRouterConfig;
+  failover?: CLIConfig['llm'][];
+  embeddings?: CLIConfig['llm']; // Memory embeddings, e.g. ollama nomic-embed-text; defaults to llm
   call: {
     maxDepth: number;
     maxCalls: number;
@@ -39,6 +48,7 @@ export interface CLIConfig {
   persistence?: {
     type: 'sqlite' | 'file';
     path?: string;
+    vectorIndex?: VectorIndexConfig | false;
   };
   permissions?: {
     admins?: string[];
@@ -1,7 +1,7 @@
 #!/usr/bin/env node
 
 import { VoltClawAgent, type LLMProvider } from '../core/index.js';
-import { OllamaProvider, OpenAIProvider, AnthropicProvider } from '../llm/index.js';
+import { OllamaProvider, OpenAIProvider, AnthropicProvider, OpenAICompatibleProvider, GeminiProvider } from '../llm/index.js';
 import { FileStore } from '../memory/index.js';
 import { createAllTools } from '../tools/index.js';
 import { loadConfig, loadOrGenerateKeys, VOLTCLAW_DIR } from './config.js';
@@ -13,6 +13,7 @@ import { dlqCommand } from './commands/dlq.js';
 import { configureCommand } from './commands/configure.js';
 import { onboardCommand } from './commands/onboard.js';
 import { schedulerCommand } from './commands/scheduler.js';
+import { memoryCommand } from './commands/memory.js';
 import { askApproval } from './interactive.js';
 import path from 'path';
 
@@ -21,17 +22,48 @@ function createLLMProvider(config: any): LLMProvider {
     case 'ollama':
       return new OllamaProvider({
         model: config.model,
-        baseUrl: config.baseUrl
+        baseUrl: config.baseUrl,
+        supportsTools: config.supportsTools,
+        supportsVision: config.supportsVision,
+        rateLimit: config.rateLimit
       });
     case 'openai':
       return new OpenAIProvider({
         model: config.model,
-        apiKey: config.apiKey ?? process.env.OPENAI_API_KEY ?? ''
+        apiKey: config.apiKey ?? process.env.OPENAI_API_KEY ?? '',
+        supportsTools: config.supportsTools,
+        supportsVision: config.supportsVision,
+        rateLimit: config.rateLimit
       });
     case 'anthropic':
       return new AnthropicProvider({
         model: config.model,
-        apiKey: config.apiKey ?? process.env.ANTHROPIC_API_KEY ?? ''
+        apiKey: config.apiKey ?? process.env.ANTHROPIC_API_KEY ?? '',
+        supportsTools: config.supportsTools,
+        supportsVision: config.supportsVision,
+        rateLimit: config.rateLimit
+      });
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({
+        model: config.model,
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        headers: config.headers,
+        supportsTools: config.supportsTools,
+        supportsVision: config.supportsVision,
+        supportsResponseFormat: config.supportsResponseFormat,
+        rateLimit: config.rateLimit
+      });
+    case 'gemini':
+      return new GeminiProvider({
+        model: config.model,
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey ?? process.env.GEMINI_API_KEY ?? '',
+        headers: config.headers,
+        supportsTools: config.supportsTools,
+        supportsVision: config.supportsVision,
+        supportsResponseFormat: config.supportsResponseFormat,
+        rateLimit: config.rateLimit
       });
     default:
       throw new Error(`Unknown LLM provider: ${config.provider}`);
@@ -55,9 +87,10 @@ Commands:
   keys                Show current identity
   dm <npub> <msg>     Send a direct message
   health              Run system health checks
-  session [cmd]       Manage sessions (list, show, clear, prune)
+  session [cmd]       Manage sessions (list, show, tree, resume, delete, clear, prune)
   dlq [cmd]           Manage Dead Letter Queue (list, show, delete, clear)
   scheduler [cmd]     Manage Scheduled Tasks (list, cancel)
+  memory [cmd]        Manage long-term memory (reindex)
   version             Show version info
   help                Show this help message
 
@@ -69,10 +102,14 @@ Options:
 `);
 }
 
-async function oneShotQuery(
-  query: string,
-  options: { recursive: boolean; verbose: boolean; debug: boolean; interactive: boolean }
-): Promise<void> {
+interface RunOptions {
+  recursive: boolean;
+  verbose: boolean;
+  debug: boolean;
+  interactive: boolean;
+}
+
+async function createAgent(options: RunOptions): Promise<VoltClawAgent> {
   const config = await loadConfig();
   const keys = await loadOrGenerateKeys();
   const llm = createLLMProvider(config.llm);
@@ -89,11 +126,14 @@ async function oneShotQuery(
   const store = new FileStore({ path: path.join(VOLTCLAW_DIR, 'data.json') });
   const tools = await createAllTools();
 
-  const agent = new VoltClawAgent({
+  return new VoltClawAgent({
     llm,
     channel: channels,
     persistence: store,
     call: options.recursive ? config.call : { ...config.call, maxDepth: 1 },
+    router: config.router,
+    failover: config.failover?.map(createLLMProvider),
+    embeddings: config.embeddings ? createLLMProvider(config.embeddings) : undefined,
     plugins: config.plugins,
     tools,
     hooks: {
@@ -108,17 +148,22 @@ async function oneShotQuery(
        } : undefined
     }
   });
+}
 
-  if (options.verbose) {
-    // Tool call logging can be implemented here if the agent emits 'tool_call' events.
-  }
-
+async function oneShotQuery(query: string, options: RunOptions): Promise<void> {
+  const agent = await createAgent(options);
   await agent.start();
 
   try {
     console.log(`\n❯ ${query}\n`);
-    for await (const chunk of agent.queryStream(query)) {
-      process.stdout.write(chunk);
+    for await (const event of agent.queryEvents(query)) {
+      if (event.type === 'token') {
+        process.stdout.write(event.content);
+      } else if (options.verbose && event.type === 'tool_call_start') {
+        console.log(`  ⚙ [Depth ${event.depth}] ${event.name}`);
+      } else if (options.verbose && event.type === 'tool_call_result' && event.result.error !== undefined) {
+        console.log(`  ✗ ${event.name}: ${event.result.error}`);
+      }
     }
     process.stdout.write('\n');
   } catch (error) {
@@ -128,6 +173,25 @@ async function oneShotQuery(
   }
 }
 
+async function resumeCommand(sessionId: string, options: RunOptions): Promise<void> {
+  if (sessionId === '') {
+    console.error('Usage: voltclaw session resume <session_id>');
+    return;
+  }
+
+  const agent = await createAgent(options);
+  await agent.start();
+
+  try {
+    console.log(`\n↻ Resuming ${sessionId}\n`);
+    console.log(await agent.resumeSession(sessionId));
+  } catch (error) {
+    console.error('Error resuming session:', error instanceof Error ? error.message : error);
+  } finally {
+    await agent.stop();
+  }
+}
+
 // --- Main Runner ---
 
 async function run(args: string[]): Promise<void> {
@@ -189,6 +253,10 @@ async function run(args: string[]): Promise<void> {
       break;
     }
     case 'session': {
+      if (positional[1] === 'resume') {
+        await resumeCommand(positional[2] ?? '', { recursive, verbose, debug, interactive });
+        break;
+      }
       await sessionCommand(positional[1] || 'list', positional[2]);
       break;
     }
@@ -200,6 +268,10 @@ async function run(args: string[]): Promise<void> {
       await schedulerCommand(positional[1] || 'list', positional[2] || '');
       break;
     }
+    case 'memory': {
+      await memoryCommand(positional[1] ?? '');
+      break;
+    }
     case 'keys': {
       const keys = await loadOrGenerateKeys();
       console.log('Current identity:');
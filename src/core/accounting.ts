@@ -0,0 +1,154 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { getModelPricing, calculateCostUSD } from '../llm/pricing.js';
+import type {
+  LLMProvider,
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+  ChatChunk,
+  ModelPricing,
+  Session,
+  Store,
+  TokenUsage
+} from './types.js';
+
+export interface UsageRecord {
+  provider: string;
+  model: string;
+  usage: TokenUsage;
+  costUSD: number;
+  sessionId?: string;
+  estimated: boolean;
+}
+
+/**
+ * Attributes provider-reported token usage to the session whose work is
+ * currently running, and rolls it up through `parentId` to the root.
+ *
+ * Attribution is ambient: anything awaited inside `run(session, fn)` (context
+ * summarization, graph extraction, code_exec's `llm.chat`) is charged to that
+ * session without threading it through every call site.
+ */
+export class UsageTracker {
+  private readonly scope = new AsyncLocalStorage<Session>();
+  private readonly totals: TokenUsage & { costUSD: number } = { promptTokens: 0, completionTokens: 0, costUSD: 0 };
+
+  constructor(
+    private readonly store: Store,
+    private readonly pricing: Record<string, ModelPricing> = {},
+    private readonly onRecord?: (record: UsageRecord, session?: Session) => void
+  ) {}
+
+  run<T>(session: Session, fn: () => Promise<T>): Promise<T> {
+    return this.scope.run(session, fn);
+  }
+
+  currentSession(): Session | undefined {
+    return this.scope.getStore();
+  }
+
+  record(provider: string, model: string, usage: TokenUsage, estimated = false): UsageRecord {
+    const costUSD = calculateCostUSD(usage, getModelPricing(provider, model, this.pricing));
+    const tokens = usage.totalTokens ?? usage.promptTokens + usage.completionTokens;
+
+    this.totals.promptTokens += usage.promptTokens;
+    this.totals.completionTokens += usage.completionTokens;
+    this.totals.costUSD += costUSD;
+
+    const session = this.scope.getStore();
+    for (const current of session ? this.lineage(session) : []) {
+      current.actualTokensUsed += tokens;
+      current.estCostUSD += costUSD;
+      current.tokenUsage = {
+        promptTokens: (current.tokenUsage?.promptTokens ?? 0) + usage.promptTokens,
+        completionTokens: (current.tokenUsage?.completionTokens ?? 0) + usage.completionTokens
+      };
+    }
+
+    const entry: UsageRecord = { provider, model, usage, costUSD, sessionId: session?.id, estimated };
+    this.onRecord?.(entry, session);
+    return entry;
+  }
+
+  /** `session` followed by each of its callers up to the root. */
+  lineage(session: Session): Session[] {
+    const chain: Session[] = [];
+    const visited = new Set<string>();
+    let current: Session | undefined = session;
+    while (current) {
+      chain.push(current);
+      if (current.id !== undefined) visited.add(current.id);
+      const parentId: string | undefined = current.parentId;
+      current = parentId !== undefined && !visited.has(parentId) ? this.store.get(parentId) : undefined;
+    }
+    return chain;
+  }
+
+  /** The session whose spend the budget is enforced against. */
+  rootOf(session: Session): Session {
+    if (session.rootId === undefined || session.rootId === session.id) return session;
+    return this.store.get(session.rootId);
+  }
+
+  getTotals(): TokenUsage & { costUSD: number } {
+    return { ...this.totals };
+  }
+
+  /**
+   * Wraps a provider so every `chat`/`stream` call reports its usage. Streams
+   * that end without a usage chunk fall back to the provider's `countMessages`
+   * and `countTokens`.
+   */
+  meter(llm: LLMProvider): LLMProvider {
+    const record = (usage: TokenUsage, estimated = false): UsageRecord =>
+      this.record(llm.name, llm.model, usage, estimated);
+    const estimate = (messages: ChatMessage[], output: string, options?: ChatOptions): TokenUsage => {
+      const count = (text: string): number => llm.countTokens?.(text) ?? Math.ceil(text.length / 4);
+      return {
+        promptTokens: llm.countMessages?.(messages, options?.tools) ?? messages.reduce((sum, m) => sum + count(m.content ?? ''), 0),
+        completionTokens: count(output)
+      };
+    };
+
+    const metered: LLMProvider = {
+      get name(): string { return llm.name; },
+      get model(): string { return llm.model; },
+      get supportsTools(): boolean | undefined { return llm.supportsTools; },
+      get supportsVision(): boolean | undefined { return llm.supportsVision; },
+
+      async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+        const response = await llm.chat(messages, options);
+        if (response.usage) {
+          record(response.usage);
+        } else {
+          record(estimate(messages, response.content, options), true);
+        }
+        return response;
+      }
+    };
+
+    if (llm.stream) {
+      const stream = llm.stream.bind(llm);
+      metered.stream = async function* (messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk> {
+        let usage: TokenUsage | undefined;
+        let output = '';
+        for await (const chunk of stream(messages, options)) {
+          if (chunk.usage) usage = chunk.usage;
+          if (chunk.content !== undefined) output += chunk.content;
+          yield chunk;
+        }
+        if (usage) {
+          record(usage);
+        } else {
+          record(estimate(messages, output, options), true);
+        }
+      };
+    }
+    if (llm.embed) metered.embed = llm.embed.bind(llm);
+    if (llm.embedBatch) metered.embedBatch = llm.embedBatch.bind(llm);
+    if (llm.countTokens) metered.countTokens = llm.countTokens.bind(llm);
+    if (llm.countMessages) metered.countMessages = llm.countMessages.bind(llm);
+
+    return metered;
+  }
+}
@@ -1,7 +1,10 @@
 import { bootstrap, loadSystemPrompt, VOLTCLAW_DIR, TOOLS_DIR } from './bootstrap.js';
 export { bootstrap, loadSystemPrompt, VOLTCLAW_DIR, TOOLS_DIR };
 
-import { OllamaProvider, OpenAIProvider, AnthropicProvider } from '../llm/index.js';
+import { OllamaProvider, OpenAIProvider, AnthropicProvider, OpenAICompatibleProvider, GeminiProvider } from '../llm/index.js';
+import { TextToolProvider } from '../llm/text-tools.js';
+import { ToolCallAccumulator } from '../llm/stream.js';
+import { withAttachments } from '../llm/content.js';
 import { NostrClient } from '../channels/nostr/index.js';
 import { TelegramChannel } from '../channels/telegram.js';
 import { DiscordChannel } from '../channels/discord.js';
@@ -16,7 +19,7 @@ import { Retrier } from './retry.js';
 import { DeadLetterQueue, InMemoryDLQ, FileDLQ } from './dlq.js';
 import { createDLQTools } from '../tools/dlq.js';
 import { FileAuditLog, type AuditLog } from './audit.js';
-import { MemoryManager, GraphManager } from '../memory/index.js';
+import { MemoryManager, GraphManager, sessionScope } from '../memory/index.js';
 import { createMemoryTools } from '../tools/memory.js';
 import { createGraphTools } from '../tools/graph.js';
 import { createSelfTestTool } from '../tools/self-test.js';
@@ -34,6 +37,11 @@ import { createBrowserTools } from '../tools/browser.js';
 import { Scheduler } from './scheduler.js';
 import { createSchedulerTools } from '../tools/scheduler.js';
 import { webSearchTool } from '../tools/web_search.js';
+import { UsageTracker } from './accounting.js';
+import { CallTree, subtaskSessionId } from './call-tree.js';
+import { ModelRouter } from './model-router.js';
+import { FailoverProvider } from './failover.js';
+import { ResponseCache } from './response-cache.js';
 
 import type {
   VoltClawAgentOptions,
@@ -42,25 +50,36 @@ import type {
   Store,
   Tool,
   Middleware,
+  MiddlewareContext,
   Logger,
   MessageContext,
   ReplyContext,
   CallContext,
   ErrorContext,
   LogContext,
+  AgentStreamEvent,
   QueryOptions,
   Unsubscribe,
   Session,
+  SessionSummary,
+  BudgetBreakdownEntry,
+  FailoverAttempt,
+  ProviderHealth,
+  ResponseCacheStats,
   ChatMessage,
+  ChatResponse,
   MessageMeta,
+  ToolCall,
   ToolCallResult,
   LLMConfig,
+  EmbeddingProvider,
   ChannelConfig,
   PersistenceConfig,
   CircuitBreakerConfig,
   RetryConfig,
   PermissionConfig,
-  Role
+  Role,
+  MemoryAccess
 } from './types.js';
 import {
   VoltClawError,
@@ -69,13 +88,20 @@ import {
   MaxDepthExceededError,
   BudgetExceededError,
   TimeoutError,
+  CancelledError,
+  SchemaValidationError,
   isRetryable
 } from './errors.js';
+import { parseStructuredOutput, responseFormatFor } from './json-schema.js';
+import { composeMiddleware } from './middleware.js';
+import { abortable, abortReason, mapConcurrent, AsyncQueue, AsyncMutex, trimHistory } from './utils.js';
 
 const DEFAULT_MAX_DEPTH = 4;
 const DEFAULT_MAX_CALLS = 25;
 const DEFAULT_BUDGET_USD = 0.75;
 const DEFAULT_TIMEOUT_MS = 600000;
+const DEFAULT_MAX_CONCURRENT_TOOLS = 4;
+const DEFAULT_MAX_SCHEMA_REPAIRS = 2;
 const DEFAULT_MAX_HISTORY = 60;
 const DEFAULT_PRUNE_INTERVAL = 300000;
 const DEFAULT_CB_THRESHOLD = 5;
@@ -90,8 +116,16 @@ interface AgentState {
   isPaused: boolean;
 }
 
+interface ActiveRun {
+  controller: AbortController;
+  signal: AbortSignal;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
 export class VoltClawAgent {
   private readonly llm: LLMProvider;
+  private readonly router: ModelRouter;
+  private readonly responseCache?: ResponseCache;
   private readonly channel: Channel;
   private readonly store: Store;
   private readonly workspace: Workspace;
@@ -113,6 +147,8 @@ export class VoltClawAgent {
   public readonly spawner: SpawnManager;
   public readonly skills: SkillLoader;
   public readonly scheduler: Scheduler;
+  public readonly usage: UsageTracker;
+  public readonly callTree: CallTree;
   private readonly auditLog?: AuditLog;
   private readonly permissions: PermissionConfig;
   private readonly middleware: Middleware[] = [];
@@ -132,20 +168,36 @@ export class VoltClawAgent {
   private readonly budgetUSD: number;
   private readonly timeoutMs: number;
   private readonly largeResultThreshold: number;
+  private readonly maxConcurrentTools: number;
+  private readonly resumeInterrupted: boolean;
+  private readonly maxSchemaRepairs: number;
   private readonly maxHistory: number;
   private readonly autoPruneInterval: number;
   private readonly eventHandlers: Map<string, Set<(...args: unknown[]) => void>> = new Map();
   private readonly state: AgentState = { isRunning: false, isPaused: false };
+  private readonly activeRuns: Map<string, ActiveRun> = new Map();
+  private readonly sessionLocks: Map<string, AsyncMutex> = new Map();
   private transportUnsubscribe?: Unsubscribe;
   private pruneTimer?: ReturnType<typeof setInterval>;
   private systemPromptTemplate?: string;
 
   constructor(options: VoltClawAgentOptions = {}) {
-    this.llm = this.resolveLLM(options.llm);
+    const llm = this.resolveLLM(options.llm);
     // Backward compatibility for 'transport' option
     const channelOption = options.channel ?? options.transport;
     this.channel = this.resolveChannel(channelOption);
     this.store = this.resolveStore(options.persistence);
+    this.callTree = new CallTree(this.store);
+    this.usage = new UsageTracker(this.store, options.pricing, (record, session) => {
+      if (!session) return;
+      this.publish(session, {
+        type: 'usage',
+        usage: record.usage,
+        costUSD: record.costUSD,
+        sessionId: session.id,
+        estimated: record.estimated
+      });
+    });
     this.workspace = new Workspace();
     this.pluginManager = new PluginManager();
     
@@ -154,6 +206,9 @@ export class VoltClawAgent {
     this.budgetUSD = options.call?.budgetUSD ?? DEFAULT_BUDGET_USD;
     this.timeoutMs = options.call?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
     this.largeResultThreshold = options.call?.largeResultThreshold ?? 5000;
+    this.maxConcurrentTools = options.call?.maxConcurrentTools ?? DEFAULT_MAX_CONCURRENT_TOOLS;
+    this.resumeInterrupted = options.call?.resumeInterrupted ?? false;
+    this.maxSchemaRepairs = options.call?.maxSchemaRepairs ?? DEFAULT_MAX_SCHEMA_REPAIRS;
     this.maxHistory = options.history?.maxMessages ?? DEFAULT_MAX_HISTORY;
     this.autoPruneInterval = options.history?.autoPruneInterval ?? DEFAULT_PRUNE_INTERVAL;
 
@@ -170,6 +225,24 @@ export class VoltClawAgent {
     };
     this.retrier = new Retrier(retryConfig);
 
+    if (options.cache) {
+      this.responseCache = new ResponseCache(options.cache.store ?? this.store, options.cache);
+    }
+    // Models without native function calling get tools through the prompt instead.
+    // Cache hits skip metering, so replayed responses cost nothing
+    const prepare = (provider: LLMProvider): LLMProvider => {
+      const metered = this.usage.meter(provider.supportsTools === false ? new TextToolProvider(provider) : provider);
+      return this.responseCache ? this.responseCache.wrap(metered) : metered;
+    };
+    this.llm = options.failover && options.failover.length > 0
+      ? new FailoverProvider([prepare(llm), ...options.failover.map(f => prepare(this.resolveLLM(f)))], {
+          circuitBreaker: this.circuitBreakerConfig,
+          retrier: this.retrier,
+          onServed: (provider, failedOver): void => this.reportProvider(provider, failedOver)
+        })
+      : prepare(llm);
+    this.router = new ModelRouter(this.llm, options.router, option => prepare(this.resolveLLM(option)));
+
     this.fallbacks = options.fallbacks ?? {};
 
     // DLQ initialization
@@ -184,17 +257,18 @@ export class VoltClawAgent {
         this.auditLog = new FileAuditLog(options.audit.path);
     }
 
-    this.memory = new MemoryManager(this.store, this.llm);
-    this.graph = new GraphManager(this.store, this.llm);
-    this.contextManager = new ContextManager(this.llm, {
+    this.memory = new MemoryManager(this.store, this.resolveEmbeddings(options.embeddings));
+    this.graph = new GraphManager(this.store, this.router.forRole('extractor'));
+    this.contextManager = new ContextManager(this.router.forRole('summarizer'), {
       maxMessages: options.history?.contextWindowSize ?? this.maxHistory,
+      maxTokens: options.history?.maxContextTokens,
       preserveLast: options.history?.preserveLast ?? 20,
       memory: this.memory,
       graph: this.graph
     });
     this.selfTest = new SelfTestFramework(this);
     this.docs = new DocumentationManager(this);
-    this.prompts = new PromptManager(this.store, this.llm);
+    this.prompts = new PromptManager(this.store, this.router.forRole('planner'));
     this.heartbeat = new HeartbeatManager(this);
     this.spawner = new SpawnManager(this);
     this.skills = new SkillLoader();
@@ -230,7 +304,7 @@ export class VoltClawAgent {
 
     // Register prompt tools if store supports it
     if (this.store.savePromptTemplate) {
-      this.registerTools(createPromptTools(this.prompts));
+      this.registerTools(createPromptTools(this.prompts, (from, session) => this.memoryAccess(from, session)));
     }
 
     // Register DLQ tools
@@ -240,12 +314,12 @@ export class VoltClawAgent {
 
     // Register memory tools if store supports it
     if (this.store.createMemory) {
-      this.registerTools(createMemoryTools(this.memory));
+      this.registerTools(createMemoryTools(this.memory, (from, session) => this.memoryAccess(from, session)));
     }
 
     // Register graph tools if store supports it
     if (this.store.addGraphNode) {
-      this.registerTools(createGraphTools(this.graph));
+      this.registerTools(createGraphTools(this.graph, (from, session) => this.memoryAccess(from, session)));
     }
 
     // Load dynamic skills and start watching
@@ -260,7 +334,7 @@ export class VoltClawAgent {
     this.skills.startWatching();
 
     if (options.middleware) {
-      this.middleware = options.middleware;
+      this.middleware.push(...options.middleware);
     }
 
     if (options.plugins) {
@@ -274,6 +348,16 @@ export class VoltClawAgent {
     this.logger = this.resolveLogger(options.logger);
   }
 
+  private resolveEmbeddings(embeddings: VoltClawAgentOptions['embeddings']): EmbeddingProvider | LLMProvider {
+    if (embeddings === undefined) return this.llm;
+
+    const provider = 'provider' in embeddings ? this.resolveLLM(embeddings) : embeddings;
+    if (typeof provider.embed !== 'function') {
+      throw new ConfigurationError(`Embedding provider ${provider.name} cannot produce embeddings`);
+    }
+    return provider;
+  }
+
   private resolveLLM(llm: VoltClawAgentOptions['llm']): LLMProvider {
     if (!llm) {
       throw new ConfigurationError('LLM provider is required');
@@ -287,6 +371,8 @@ export class VoltClawAgent {
         case 'ollama': return new OllamaProvider(config);
         case 'openai': return new OpenAIProvider(config);
         case 'anthropic': return new AnthropicProvider(config);
+        case 'openai-compatible': return new OpenAICompatibleProvider(config);
+        case 'gemini': return new GeminiProvider(config);
         default: throw new ConfigurationError(`Unknown LLM provider: ${config.provider}`);
       }
     }
@@ -342,7 +428,7 @@ export class VoltClawAgent {
         return new FileStore({ path: config.path ?? `${VOLTCLAW_DIR}/data.json` });
       }
       if (config.type === 'sqlite') {
-        return new SQLiteStore({ path: config.path });
+        return new SQLiteStore({ path: config.path, vectorIndex: config.vectorIndex });
       }
     }
     throw new ConfigurationError('Invalid persistence configuration');
@@ -360,6 +446,16 @@ export class VoltClawAgent {
     };
   }
 
+  private reportProvider(provider: LLMProvider, failedOver: FailoverAttempt[]): void {
+    const session = this.usage.currentSession();
+    if (failedOver.length > 0) {
+      this.logger.warn('LLM request failed over', { provider: provider.name, model: provider.model, failedOver });
+    }
+    if (session) {
+      this.publish(session, { type: 'provider', provider: provider.name, model: provider.model, failedOver, sessionId: session.id });
+    }
+  }
+
   private getCircuitBreaker(name: string): CircuitBreaker {
     if (!this.circuitBreakers.has(name)) {
       this.circuitBreakers.set(name, new CircuitBreaker(this.circuitBreakerConfig));
@@ -367,6 +463,13 @@ export class VoltClawAgent {
     return this.circuitBreakers.get(name)!;
   }
 
+  // FailoverProvider already breaks and retries each member; wrapping it again
+  // would multiply attempts and let one bad provider trip the shared breaker.
+  private guardedChat(llm: LLMProvider, call: () => Promise<ChatResponse>): Promise<ChatResponse> {
+    if (llm instanceof FailoverProvider) return call();
+    return this.getCircuitBreaker('llm').execute(() => this.retrier.execute(call));
+  }
+
   private registerTools(tools: Tool[] | { builtins?: string[]; directories?: string[] }): void {
     if (Array.isArray(tools)) {
       for (const tool of tools) {
@@ -384,12 +487,9 @@ export class VoltClawAgent {
       }
     }
 
-    // Register tools and middleware immediately for instances
+    // Register tools immediately for instances; plugin middleware is read per message
     const tools = this.pluginManager.getTools();
     this.registerTools(tools);
-
-    const middleware = this.pluginManager.getMiddleware();
-    this.middleware.push(...middleware);
   }
 
   async start(): Promise<void> {
@@ -415,6 +515,10 @@ export class VoltClawAgent {
     // Start background managers
     this.heartbeat.start();
     this.scheduler.start().catch(e => this.logger.error('Failed to start scheduler', { error: String(e) }));
+    if (this.memory.embeddingModel === undefined && this.store.createMemory) {
+      this.logger.warn('No embedding provider configured; memory recall uses keyword search only');
+    }
+    this.reembedMemories().catch(e => this.logger.error('Failed to re-embed memories', { error: String(e) }));
     this.spawner.setAgent(this);
 
     await this.pluginManager.initAll(this);
@@ -432,6 +536,7 @@ export class VoltClawAgent {
 
     this.state.isRunning = true;
     this.state.isPaused = false;
+    this.recoverInterruptedRuns();
     await this.hooks.onStart?.();
     this.emit('start');
     this.logger.info('VoltClaw agent started');
@@ -485,222 +590,547 @@ export class VoltClawAgent {
     return this.store;
   }
 
+  /** Circuit state and counters for each provider in the `failover` chain. */
+  public getLLMHealth(): ProviderHealth[] {
+    return this.llm instanceof FailoverProvider ? this.llm.health() : [];
+  }
+
+  /** Hit/miss counters for the LLM response cache, when `cache` is configured. */
+  public getCacheStats(): ResponseCacheStats | undefined {
+    return this.responseCache?.getStats();
+  }
+
+  public async clearResponseCache(): Promise<number> {
+    return (await this.responseCache?.clear()) ?? 0;
+  }
+
+  /** Brings stored memory vectors up to the current embedding model; also runs on start. */
+  public async reembedMemories(): Promise<number> {
+    const count = await this.memory.reembed();
+    if (count > 0) {
+      this.logger.info('Re-embedded memories', { count, model: this.memory.embeddingModel });
+    }
+    return count;
+  }
+
   public async send(to: string, content: string): Promise<void> {
     await this.channel.send(to, content);
   }
 
-  async query(message: string, _options?: QueryOptions): Promise<string> {
-    const session = this.store.get('self', true);
+  /**
+   * Answers `message` in the session named by `options.sessionId` (the
+   * agent's own 'self' session by default). Turns on the same session queue
+   * behind each other; different sessions run concurrently with their own
+   * history and budget.
+   */
+  async query(message: string, options?: QueryOptions): Promise<string> {
+    const session = this.resolveSession(options?.sessionId);
+    return this.withSessionLock(session, () => this.runQuery(session, message, options));
+  }
 
-    // Ensure we start with a clean state for one-shot if needed, or handle session logic better
-    // For now, simple append
+  private async runQuery(session: Session, message: string, options?: QueryOptions): Promise<string> {
     if (session.depth === undefined) session.depth = 0;
 
     session.rootId = session.id;
     session.parentId = undefined;
+    session.caller = undefined;
     if (!session.sharedData) session.sharedData = {};
 
-    session.history.push({ role: 'user', content: message });
-    
-    // Use handleTopLevel logic but wait for result?
-    // query() is synchronous-looking but really async.
-    // We should reuse handleTopLevel logic but capture the final answer.
-    // However, handleTopLevel sends via transport.
-    // For local query, we want the result directly.
-    
-    // Adapted from handleTopLevel for direct response:
     session.subTasks = {};
     session.callCount = 0;
     session.estCostUSD = 0;
     session.actualTokensUsed = 0;
     session.topLevelStartedAt = Date.now();
 
+    const turnId = this.createTurnId();
+    session.history.push({ role: 'user', content: message, turnId, timestamp: Date.now() });
+
     const systemPrompt = this.buildSystemPrompt(session.depth);
     const messages: ChatMessage[] = [
       { role: 'system', content: systemPrompt },
-      ...session.history.slice(-this.maxHistory)
+      ...this.recentHistory(session)
     ];
 
-    const reply = await this.runAgentLoop(session, messages, 'self', session.depth);
+    const signal = this.beginRun(session, [options?.signal], options?.timeout);
+    try {
+      return await this.runAgentLoop(session, messages, 'self', session.depth, turnId, signal);
+    } finally {
+      this.endRun(session, signal);
+      this.pruneHistory(session);
+      await this.store.save?.();
+    }
+  }
+
+  /**
+   * Continues a turn that a crash or restart left unfinished, from its last
+   * checkpoint. Tool calls the model had requested but whose results were
+   * never recorded run again; sub-agents that were in flight are failed, so
+   * a `call` among those starts a fresh sub-agent. Replies to channel peers
+   * are sent as the original turn would have.
+   */
+  public async resumeSession(sessionId: string, options?: Pick<QueryOptions, 'signal' | 'timeout'>): Promise<string> {
+    if (!this.hasSession(sessionId)) {
+      throw new VoltClawError(`Session not found: ${sessionId}`, 'SESSION_NOT_FOUND');
+    }
+    const session = this.resolveSession(sessionId);
+
+    return this.withSessionLock(session, async () => {
+      const checkpoint = session.checkpoint;
+      if (!checkpoint || session.parentId !== undefined) {
+        throw new VoltClawError(`Session ${sessionId} has no interrupted turn to resume`, 'NOTHING_TO_RESUME');
+      }
+      this.abandonInterruptedCalls(session);
+
+      const signal = this.beginRun(session, [options?.signal], options?.timeout);
+      let reply: string;
+      try {
+        reply = await this.runAgentLoop(
+          session,
+          checkpoint.messages,
+          checkpoint.from,
+          checkpoint.depth,
+          checkpoint.turnId,
+          signal,
+          checkpoint.pendingToolCalls
+        );
+      } finally {
+        this.endRun(session, signal);
+        this.pruneHistory(session);
+        await this.store.save?.();
+      }
+
+      if (checkpoint.from !== 'self') {
+        await this.channel.send(checkpoint.from, reply);
+      }
+      return reply;
+    });
+  }
+
+  /**
+   * Finds turns a previous process left unfinished. Their sub-agents cannot
+   * report back to a caller that no longer exists, so they are failed; the
+   * turns themselves resume now if `call.resumeInterrupted` is set, and
+   * otherwise keep their checkpoint for `resumeSession()`.
+   */
+  private recoverInterruptedRuns(): void {
+    for (const [id, session] of Object.entries(this.store.getAll())) {
+      if (!session.checkpoint || session.parentId !== undefined || this.activeRuns.has(id)) continue;
+
+      if (this.resumeInterrupted) {
+        this.logger.info('Resuming interrupted session', { sessionId: id });
+        this.resumeSession(id).catch((error: unknown) => {
+          this.logger.error('Failed to resume interrupted session', { sessionId: id, error: String(error) });
+        });
+      } else {
+        this.abandonInterruptedCalls(session);
+        this.logger.warn('Session has an interrupted turn; call resumeSession() to continue it', { sessionId: id });
+      }
+    }
+  }
+
+  private abandonInterruptedCalls(root: Session, reason: string = 'Interrupted by restart'): void {
+    const sessions = [root];
+    for (const node of this.callTree.nodes(root.id ?? '')) {
+      this.callTree.finish(node.subId, 'failed', { error: reason });
+      const sub = this.store.getAll()[subtaskSessionId(node.subId)];
+      if (sub) sessions.push(sub);
+    }
+
+    for (const session of sessions) {
+      if (session !== root) session.checkpoint = undefined;
+      for (const sub of Object.values(session.subTasks)) {
+        if (sub.arrived) continue;
+        sub.arrived = true;
+        sub.error = reason;
+      }
+    }
+  }
 
-    session.history.push({ role: 'assistant', content: reply });
-    this.pruneHistory(session);
+  /** Creates an empty session for `query(..., { sessionId })`. */
+  public createSession(id: string = `session-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`): Session {
+    if (this.hasSession(id)) {
+      throw new VoltClawError(`Session already exists: ${id}`, 'SESSION_EXISTS');
+    }
+    return this.store.get(id, id === 'self');
+  }
+
+  /** Lists conversation sessions; internal sub-agent sessions are left out. */
+  public listSessions(): SessionSummary[] {
+    return Object.entries(this.store.getAll())
+      .filter(([id]) => !id.startsWith('subtask:'))
+      .map(([id, session]) => ({
+        id,
+        messageCount: session.history.length,
+        estCostUSD: session.estCostUSD,
+        lastActivityAt: session.history[session.history.length - 1]?.timestamp
+      }));
+  }
+
+  /**
+   * Copies the history and shared data of `sourceId` into a new session, so
+   * a conversation can branch without affecting the original.
+   */
+  public forkSession(sourceId: string, newId?: string): Session {
+    if (!this.hasSession(sourceId)) {
+      throw new VoltClawError(`Session not found: ${sourceId}`, 'SESSION_NOT_FOUND');
+    }
+    const source = this.store.get(sourceId, sourceId === 'self');
+    const fork = this.createSession(newId);
+    fork.history = JSON.parse(JSON.stringify(source.history)) as ChatMessage[];
+    fork.sharedData = JSON.parse(JSON.stringify(source.sharedData ?? {})) as Record<string, unknown>;
+    return fork;
+  }
+
+  /** Cancels anything running in the session and removes it from the store. */
+  public async deleteSession(id: string): Promise<void> {
+    this.cancel(id, 'Session deleted');
+    this.sessionLocks.delete(id);
+    await this.store.deleteSession?.(id);
     await this.store.save?.();
+  }
 
-    return reply;
+  private hasSession(id: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.store.getAll(), id);
+  }
+
+  private resolveSession(sessionId?: string): Session {
+    if (sessionId === undefined || sessionId === 'self') {
+      return this.store.get('self', true);
+    }
+    return this.store.get(sessionId);
+  }
+
+  /**
+   * Runs `fn` holding the session's lock, so concurrent turns on one session
+   * queue instead of interleaving history and counters. A turn started from
+   * inside the same session's call tree would wait on itself forever, so that
+   * is rejected instead.
+   */
+  private async withSessionLock<T>(session: Session, fn: () => Promise<T>): Promise<T> {
+    const key = session.id ?? '';
+
+    const visited = new Set<string>();
+    let current = this.usage.currentSession();
+    while (current?.id !== undefined && !visited.has(current.id)) {
+      if (current.id === key) {
+        throw new VoltClawError(`Session ${key} is already running a turn`, 'SESSION_BUSY');
+      }
+      visited.add(current.id);
+      current = current.parentId !== undefined ? this.store.get(current.parentId) : undefined;
+    }
+
+    let lock = this.sessionLocks.get(key);
+    if (!lock) {
+      lock = new AsyncMutex();
+      this.sessionLocks.set(key, lock);
+    }
+    return lock.run(fn);
+  }
+
+  /**
+   * Aborts the run in flight for `sessionId`, along with its tool calls and
+   * every sub-agent below it. The run rejects with a CancelledError carrying
+   * whatever it had produced. Returns false if nothing was running.
+   */
+  public cancel(sessionId: string, reason: string = 'Cancelled'): boolean {
+    const run = this.activeRuns.get(sessionId);
+    if (!run) return false;
+    run.controller.abort(new CancelledError(reason));
+    return true;
+  }
+
+  /**
+   * Registers a run for `session`. The returned signal aborts on
+   * `cancel(sessionId)`, when any of `sources` (caller or parent run) aborts,
+   * or after `timeoutMs`.
+   */
+  private beginRun(session: Session, sources: Array<AbortSignal | undefined>, timeoutMs?: number): AbortSignal {
+    const controller = new AbortController();
+    const linked = sources.filter((s): s is AbortSignal => s !== undefined);
+    const signal = linked.length > 0 ? AbortSignal.any([controller.signal, ...linked]) : controller.signal;
+
+    const run: ActiveRun = { controller, signal };
+    if (timeoutMs !== undefined && timeoutMs > 0) {
+      run.timer = setTimeout(() => controller.abort(new CancelledError(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+    }
+    this.activeRuns.set(session.id ?? '', run);
+    return signal;
   }
 
+  private endRun(session: Session, signal: AbortSignal): void {
+    const run = this.activeRuns.get(session.id ?? '');
+    if (run?.signal !== signal) return;
+    if (run.timer) clearTimeout(run.timer);
+    this.activeRuns.delete(session.id ?? '');
+  }
+
+  private toCancelledError(signal: AbortSignal, session: Session, turnId: string): CancelledError {
+    const reason = abortReason(signal);
+    return new CancelledError(reason.message, {
+      transcript: session.history.filter(m => m.turnId === turnId),
+      subTasks: Object.entries(session.subTasks).map(([subId, sub]) => ({
+        subId,
+        task: sub.task,
+        result: sub.result,
+        error: sub.error
+      }))
+    });
+  }
+
+  /**
+   * Runs the LLM/tool loop for one turn. Every assistant message and tool
+   * result produced here, including the final reply, is appended to both the
+   * working `messages` and `session.history`, tagged with `turnId`. After each
+   * step the session is checkpointed; `resumeToolCalls` continues a turn from
+   * a checkpoint whose tool calls never finished.
+   */
   private async runAgentLoop(
     session: Session,
     messages: ChatMessage[],
     from: string,
-    toolDepth: number
+    toolDepth: number,
+    turnId: string,
+    signal?: AbortSignal,
+    resumeToolCalls?: ToolCall[]
   ): Promise<string> {
-    messages = await this.contextManager.manageContext(messages);
-
-    const cb = this.getCircuitBreaker('llm');
-    let response = await cb.execute(() => this.retrier.execute(() => this.llm.chat(messages, {
-      tools: this.getToolDefinitions(toolDepth)
-    })));
-
-    while (response.toolCalls && response.toolCalls.length > 0) {
-      messages.push({
-        role: 'assistant',
-        content: response.content,
-        toolCalls: response.toolCalls
-      });
-      // Also push to session history if not already shared (assumes messages is separate)
-      // But query/handleTopLevel pass references. Let's assume messages IS the history + prompt.
-      // Wait, history is persisted. We need to be careful not to double push.
-      // Actually, query/handleTopLevel construct `messages` from `session.history` + new prompt.
-      // So pushing to `messages` is local to this loop.
-      // But we need to persist the assistant response and tool outputs to `session.history`.
-      // The current implementation does:
-      /*
-      messages.push(assistantResponse);
-      for calls: execute, messages.push(toolResult);
-      */
-      // And at the END: session.history.push(assistantResponse) (only final?).
-      // No, looking at `handleTopLevel`:
-      /*
-        while (response.toolCalls...) {
-            messages.push(assistant...);
-            for calls... execute... messages.push(tool...);
-            response = llm.chat(messages...);
+    return this.usage.run(session, async () => {
+      try {
+        messages = await this.contextManager.manageContext(messages, this.memoryAccess(from, session));
+
+        const llm = this.router.forAgent(toolDepth, session.model);
+        const chat = async (): Promise<ChatResponse> => {
+          signal?.throwIfAborted();
+          this.checkBudget(session);
+          return this.guardedChat(llm, () => llm.chat(messages, {
+            tools: this.getToolDefinitions(toolDepth),
+            responseFormat: session.responseFormat,
+            signal
+          }));
+        };
+
+        let response: ChatResponse | undefined;
+        let toolCalls = resumeToolCalls;
+        if (toolCalls === undefined) {
+          await this.saveCheckpoint(session, messages, from, toolDepth, turnId);
+          response = await chat();
+          toolCalls = response.toolCalls;
+        }
+
+        while (toolCalls && toolCalls.length > 0) {
+          if (response) {
+            this.appendToTranscript(session, messages, {
+              role: 'assistant',
+              content: response.content,
+              toolCalls
+            }, turnId);
+            await this.saveCheckpoint(session, messages, from, toolDepth, turnId, toolCalls);
+          }
+
+          const calls = toolCalls;
+          const results = await this.executeToolCalls(calls, session, from, signal);
+          calls.forEach((call, i) => {
+            this.appendToTranscript(session, messages, toolResultMessage(call, results[i]), turnId);
+          });
+          await this.saveCheckpoint(session, messages, from, toolDepth, turnId);
+
+          response = await chat();
+          toolCalls = response.toolCalls;
+        }
+
+        const reply = (response?.content ?? '') || '[error]';
+        this.appendToTranscript(session, messages, { role: 'assistant', content: reply }, turnId);
+        return reply;
+      } catch (error) {
+        if (signal?.aborted === true) {
+          throw this.toCancelledError(signal, session, turnId);
         }
-        const reply = response.content;
-        session.history.push({ role: 'user', content }); // pushed before loop
-        session.history.push({ role: 'assistant', content: reply }); // pushed after loop
-      */
-      // It seems intermediate tool calls are NOT persisted to session.history in `handleTopLevel`?
-      // Wait, let's check `handleTopLevel` implementation again.
-      // Yes, `handleTopLevel` only pushes the final reply to `session.history`.
-      // `handleSubtask` sets `session.history = messages;` at the end, so it persists EVERYTHING.
-
-      // This is an inconsistency. Subtasks persist full trace, top-level only persists final Q/A.
-      // RLM usually benefits from full traces.
-      // I will standardize on `session.history = messages` (minus system prompt) or similar.
-      // But `handleTopLevel` constructs `messages` as `[System, ...History, User]`.
-      // If we set `session.history = messages`, we duplicate System prompt and old history?
-      // We should probably append new interactions to history.
-
-      for (const call of response.toolCalls) {
-        const result = await this.executeTool(call.name, call.arguments, session, from);
-        messages.push({
-          role: 'tool',
-          toolCallId: call.id,
-          content: JSON.stringify(result)
+        throw error;
+      } finally {
+        session.checkpoint = undefined;
+      }
+    });
+  }
+
+  private async saveCheckpoint(
+    session: Session,
+    messages: ChatMessage[],
+    from: string,
+    depth: number,
+    turnId: string,
+    pendingToolCalls?: ToolCall[]
+  ): Promise<void> {
+    session.checkpoint = { turnId, from, depth, messages: [...messages], pendingToolCalls, updatedAt: Date.now() };
+    await this.store.save?.();
+  }
+
+  private appendToTranscript(
+    session: Session,
+    messages: ChatMessage[],
+    message: ChatMessage,
+    turnId: string
+  ): void {
+    const entry: ChatMessage = { ...message, turnId, timestamp: Date.now() };
+    messages.push(entry);
+    session.history.push(entry);
+  }
+
+  private createTurnId(): string {
+    return `turn-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  }
+
+  /**
+   * Streams the reply as plain text. Adapter over `queryEvents` for callers
+   * that only render tokens.
+   */
+  async *queryStream(message: string, options?: QueryOptions): AsyncIterable<string> {
+    for await (const event of this.queryEvents(message, options)) {
+      if (event.type === 'token') yield event.content;
+    }
+  }
+
+  /**
+   * Streams everything that happens while answering `message`: tokens, tool
+   * calls and their results, sub-agent activity anywhere in the call tree,
+   * usage as it is reported, and finally the reply. Leaving the loop early
+   * cancels the run.
+   */
+  async *queryEvents(message: string, options?: QueryOptions): AsyncIterable<AgentStreamEvent> {
+    const session = this.resolveSession(options?.sessionId);
+    const rootKey = session.id ?? '';
+    const queue = new AsyncQueue<AgentStreamEvent>();
+    const unsubscribe = this.on('event', (event, rootId) => {
+      if (rootId === rootKey) queue.push(event);
+    });
+
+    let settled = false;
+    const run = this.router.forAgent(0).stream
+      ? this.withSessionLock(session, () => this.streamTurn(session, message, options))
+      : this.query(message, options).then(reply => {
+          this.publish(session, { type: 'token', content: reply });
+          return reply;
         });
+    run.then(
+      reply => {
+        settled = true;
+        queue.push({ type: 'final', content: reply, usage: session.tokenUsage, costUSD: session.estCostUSD });
+        queue.close();
+      },
+      (error: unknown) => {
+        settled = true;
+        queue.close(error instanceof Error ? error : new Error(String(error)));
       }
+    );
 
-      response = await cb.execute(() => this.retrier.execute(() => this.llm.chat(messages, {
-        tools: this.getToolDefinitions(toolDepth)
-      })));
+    try {
+      yield* queue;
+    } finally {
+      unsubscribe();
+      if (!settled) {
+        this.cancel(rootKey, 'Stream closed');
+        await run.catch(() => undefined);
+      }
     }
-
-    return response.content || '[error]';
   }
 
-  async *queryStream(message: string, _options?: QueryOptions): AsyncIterable<string> {
-    const session = this.store.get('self', true);
+  private async streamTurn(session: Session, message: string, options?: QueryOptions): Promise<string> {
+    const llm = this.router.forAgent(0);
+    const stream = llm.stream;
+    if (!stream) throw new ConfigurationError(`LLM provider ${llm.name} does not support streaming`);
 
     if (session.depth === undefined) session.depth = 0;
 
     session.rootId = session.id;
     session.parentId = undefined;
+    session.caller = undefined;
     if (!session.sharedData) session.sharedData = {};
 
-    session.history.push({ role: 'user', content: message });
-
     session.subTasks = {};
     session.callCount = 0;
     session.estCostUSD = 0;
     session.actualTokensUsed = 0;
     session.topLevelStartedAt = Date.now();
 
+    const turnId = this.createTurnId();
+    session.history.push({ role: 'user', content: message, turnId, timestamp: Date.now() });
+
     const systemPrompt = this.buildSystemPrompt(session.depth);
     let messages: ChatMessage[] = [
       { role: 'system', content: systemPrompt },
-      ...session.history.slice(-this.maxHistory)
+      ...this.recentHistory(session)
     ];
 
-    messages = await this.contextManager.manageContext(messages);
-
-    if (!this.llm.stream) {
-      const response = await this.query(message, _options);
-      yield response;
-      return;
-    }
-
-    let shouldContinue = true;
-    while (shouldContinue) {
-      shouldContinue = false;
-
-      const stream = this.llm.stream(messages, {
-        tools: this.getToolDefinitions(session.depth)
-      });
-
-      let fullContent = '';
-      const toolCalls: import('./types.js').ToolCall[] = [];
-
-      for await (const chunk of stream) {
-        if (chunk.content) {
-          fullContent += chunk.content;
-          yield chunk.content;
-        }
-        if (chunk.toolCalls) {
-          const tc = chunk.toolCalls;
-          if (tc.id && tc.name && tc.arguments) {
-             toolCalls.push(tc as import('./types.js').ToolCall);
+    const signal = this.beginRun(session, [options?.signal], options?.timeout);
+    try {
+      return await this.usage.run(session, async () => {
+        messages = await this.contextManager.manageContext(messages);
+        await this.saveCheckpoint(session, messages, 'self', session.depth, turnId);
+
+        let reply = '';
+        let shouldContinue = true;
+        while (shouldContinue) {
+          shouldContinue = false;
+
+          signal.throwIfAborted();
+          this.checkBudget(session);
+          const chunks = stream.call(llm, messages, {
+            tools: this.getToolDefinitions(session.depth),
+            signal
+          })[Symbol.asyncIterator]();
+
+          let fullContent = '';
+          const pending = new ToolCallAccumulator();
+
+          while (true) {
+            const next = await abortable(chunks.next(), signal);
+            if (next.done === true) break;
+            const chunk = next.value;
+            if (chunk.content) {
+              fullContent += chunk.content;
+              this.publish(session, { type: 'token', content: chunk.content });
+            }
+            if (chunk.toolCalls) pending.add(chunk.toolCalls);
           }
-        }
-      }
 
-      if (toolCalls.length > 0) {
-        shouldContinue = true;
-
-        // Push assistant response with tool calls to session history
-        session.history.push({
-          role: 'assistant',
-          content: fullContent,
-          toolCalls: toolCalls
-        });
-
-        // Also push to local messages array for next turn
-        messages.push({
-          role: 'assistant',
-          content: fullContent,
-          toolCalls: toolCalls
-        });
-
-        for (const call of toolCalls) {
-          const result = await this.executeTool(call.name, call.arguments, session, 'self');
-          const resultStr = JSON.stringify(result);
-
-          // Push tool result to session history
-          session.history.push({
-            role: 'tool',
-            toolCallId: call.id,
-            content: resultStr
-          });
-
-          // Also push to local messages array
-          messages.push({
-            role: 'tool',
-            toolCallId: call.id,
-            content: resultStr
-          });
+          const toolCalls = pending.finish();
+          if (toolCalls.length > 0) {
+            shouldContinue = true;
+
+            this.appendToTranscript(session, messages, {
+              role: 'assistant',
+              content: fullContent,
+              toolCalls: toolCalls
+            }, turnId);
+            await this.saveCheckpoint(session, messages, 'self', session.depth, turnId, toolCalls);
+
+            const results = await this.executeToolCalls(toolCalls, session, 'self', signal);
+            toolCalls.forEach((call, i) => {
+              this.appendToTranscript(session, messages, toolResultMessage(call, results[i]), turnId);
+            });
+
+            // Save session state after tool execution loop
+            this.pruneHistory(session);
+            await this.saveCheckpoint(session, messages, 'self', session.depth, turnId);
+          } else {
+            reply = fullContent || '[error]';
+            this.appendToTranscript(session, messages, { role: 'assistant', content: reply }, turnId);
+            session.checkpoint = undefined;
+            this.pruneHistory(session);
+            await this.store.save?.();
+          }
         }
-
-        // Save session state after tool execution loop
-        this.pruneHistory(session);
-        await this.store.save?.();
-      } else {
-        const reply = fullContent || '[error]';
-        session.history.push({ role: 'assistant', content: reply });
+        return reply;
+      });
+    } catch (error) {
+      if (signal.aborted) {
+        session.checkpoint = undefined;
         this.pruneHistory(session);
         await this.store.save?.();
+        throw this.toCancelledError(signal, session, turnId);
       }
+      throw error;
+    } finally {
+      session.checkpoint = undefined;
+      this.endRun(session, signal);
     }
   }
 
@@ -731,28 +1161,17 @@ export class VoltClawAgent {
         // or mixing concurrent subtasks.
         const subId = parsed.subId as string;
         // Must pass false for isSelf to ensure we use the specific subtask key, not 'self'
-        const subSession = this.store.get(`subtask:${subId}`, false);
+        const subSession = this.store.get(subtaskSessionId(subId), false);
         await this.handleSubtask(subSession, parsed, from);
       } else if (parsed?.type === 'subtask_result') {
-        // Resolve the session that initiated the task using parentPubkey if available
-        let targetSession = session;
-        if (parsed.parentPubkey) {
-            const pKey = parsed.parentPubkey as string;
-            const isSelfParent = pKey === this.channel.identity.publicKey;
-            // If parent was self, we map to 'self' (or subtask session if we had that logic,
-            // but currently recursive calls from subtasks might need handling).
-
-            // Wait, if a subtask calls a subtask:
-            // handleSubtask (session: subtask:ID1) -> executeCall (from: self)
-            // payload parentPubkey = self.
-            // subtask_result parentPubkey = self.
-            // Here we map self -> 'self'.
-            // But the subtask was in 'subtask:ID1'.
-            // 'self' session does not have the subtask!
-
-            // We need the ACTUAL session ID/Key passed around.
-            // We can't rely on pubkey for internal sessions (subtask:...).
-        }
+        // Only our own sub-agents may route to the session that made the call, which
+        // may itself be a subtask session; a peer reaches nothing but its own session
+        const parentId = isSelf
+          ? (parsed.parentId as string | undefined) ?? this.callTree.get(parsed.subId as string)?.parentId
+          : undefined;
+        const targetSession = parentId !== undefined && parentId !== ''
+          ? this.store.get(parentId, parentId === 'self')
+          : session;
         await this.handleSubtaskResult(targetSession, parsed, from);
       } else if (parsed?.type === 'subtask_log') {
         const logCtx: LogContext = {
@@ -764,8 +1183,14 @@ export class VoltClawAgent {
         };
         await this.hooks.onLog?.(logCtx);
         this.emit('log', logCtx);
+        this.emit('event', {
+          type: 'subtask_log',
+          subId: logCtx.subId,
+          message: logCtx.message,
+          level: logCtx.level
+        } satisfies AgentStreamEvent, (parsed.rootId as string | undefined) ?? '');
       } else {
-        await this.handleTopLevel(session, content, from);
+        await this.handleInbound(session, content, from, meta);
       }
     } catch (error) {
       const errCtx: ErrorContext = {
@@ -787,14 +1212,44 @@ export class VoltClawAgent {
     }
   }
 
+  /**
+   * Passes an inbound message through the middleware chain, with the agent's
+   * own turn at its end, then sends whatever reply the chain settled on.
+   * Middleware runs outside the session lock, so a short-circuited message
+   * never waits behind a running turn.
+   */
+  private async handleInbound(session: Session, content: string, from: string, meta: MessageMeta): Promise<void> {
+    const ctx: MiddlewareContext = { from, message: content, session, metadata: {}, meta };
+    const run = composeMiddleware(
+      [...this.middleware, ...this.pluginManager.getMiddleware()],
+      async (c) => {
+        c.reply = await this.withSessionLock(c.session, () => this.handleTopLevel(c.session, c.message, from));
+      }
+    );
+    await run(ctx);
+    if (ctx.reply === undefined) return;
+
+    await this.channel.send(from, ctx.reply);
+
+    const replyCtx: ReplyContext = {
+      to: from,
+      content: ctx.reply,
+      timestamp: new Date(),
+      metadata: ctx.metadata
+    };
+    await this.hooks.onReply?.(replyCtx);
+    this.emit('reply', replyCtx);
+  }
+
   private async handleTopLevel(
     session: Session,
     content: string,
     from: string
-  ): Promise<void> {
+  ): Promise<string> {
     session.depth = 0;
     session.rootId = session.id;
     session.parentId = undefined;
+    session.caller = from;
     if (!session.sharedData) session.sharedData = {};
     session.subTasks = {};
     session.callCount = 0;
@@ -802,35 +1257,39 @@ export class VoltClawAgent {
     session.actualTokensUsed = 0;
     session.topLevelStartedAt = Date.now();
 
+    const turnId = this.createTurnId();
+    session.history.push({ role: 'user', content, turnId, timestamp: Date.now() });
+
     const systemPrompt = this.buildSystemPrompt(session.depth);
     const messages: ChatMessage[] = [
       { role: 'system', content: systemPrompt },
-      ...session.history.slice(-this.maxHistory),
-      { role: 'user', content }
+      ...this.recentHistory(session)
     ];
 
-    const reply = await this.runAgentLoop(session, messages, from, session.depth);
-
-    session.history.push({ role: 'user', content });
-    session.history.push({ role: 'assistant', content: reply });
-    this.pruneHistory(session);
-    await this.store.save?.();
-
-    await this.channel.send(from, reply);
-    
-    const replyCtx: ReplyContext = {
-      to: from,
-      content: reply,
-      timestamp: new Date()
-    };
-    await this.hooks.onReply?.(replyCtx);
-    this.emit('reply', replyCtx);
+    const signal = this.beginRun(session, []);
+    let reply: string;
+    try {
+      reply = await this.runAgentLoop(session, messages, from, session.depth, turnId, signal);
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        reply = this.describeCancellation(error);
+      } else if (error instanceof BudgetExceededError) {
+        reply = this.describeBudgetExceeded(error);
+      } else {
+        throw error;
+      }
+    } finally {
+      this.endRun(session, signal);
+      this.pruneHistory(session);
+      await this.store.save?.();
+    }
+    return reply;
   }
 
   private async handleSubtask(
     session: Session,
     parsed: Record<string, unknown>,
-    _from: string
+    from: string
   ): Promise<void> {
     const depth = (parsed.depth as number) ?? session.depth + 1;
     const task = parsed.task as string;
@@ -844,6 +1303,8 @@ export class VoltClawAgent {
     session.depth = depth;
     session.rootId = rootId;
     session.parentId = parentId;
+    // Only our own subtask messages may speak for someone else
+    session.caller = from === this.channel.identity.publicKey ? parsed.caller as string | undefined : from;
 
     const mustFinish = depth >= this.maxDepth - 1
       ? '\nMUST produce final concise answer NOW. No further calls.'
@@ -865,24 +1326,38 @@ export class VoltClawAgent {
     const userPrompt = `Task: ${task}
 Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${mustFinish}`;
 
-    // Initialize session state for subtask
+    // Spend and calls accumulate here and on every caller above; the
+    // allocation caps this subtree on top of the callers' own limits
     session.depth = depth;
     session.subTasks = {};
-    session.callCount = 0;
-    session.estCostUSD = 0;
-    session.actualTokensUsed = 0;
+    session.budgetUSD = typeof parsed.budgetUSD === 'number' ? parsed.budgetUSD : undefined;
+    session.model = typeof parsed.model === 'string' ? parsed.model : undefined;
+    session.responseFormat = schema !== undefined ? responseFormatFor(schema) : undefined;
     session.topLevelStartedAt = Date.now();
 
+    const turnId = this.createTurnId();
+    const userMessage: ChatMessage = { role: 'user', content: userPrompt, turnId, timestamp: Date.now() };
+    session.history.push(userMessage);
+
     const messages: ChatMessage[] = [
       { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt }
+      userMessage
     ];
 
+    // Linking to the parent's run lets cancelling a root abort the whole tree
+    const parentSignal = parentId !== undefined ? this.activeRuns.get(parentId)?.signal : undefined;
+    const signal = this.beginRun(session, [parentSignal]);
+    this.callTree.update(subId, { status: 'running', startedAt: Date.now() });
+
     try {
-      let result = await this.runAgentLoop(session, messages, 'self', depth);
+      let result = await this.runAgentLoop(session, messages, 'self', depth, turnId, signal);
+      if (schema !== undefined) {
+        result = await this.repairStructuredOutput(session, result, schema, systemPrompt, depth, turnId, signal);
+      }
+      this.callTree.finish(subId, 'completed');
 
-      // Transparently offload large results to memory
-      if (result.length > this.largeResultThreshold && this.memory) {
+      // Transparently offload large results to memory; structured output goes back whole
+      if (schema === undefined && result.length > this.largeResultThreshold && this.memory) {
           try {
             const memId = await this.memory.storeMemory(
                 result,
@@ -891,7 +1366,8 @@ Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${must
                 5, // Medium importance
                 1, // Level 1 (Recent)
                 3600000, // TTL: 1 hour
-                { overlap: 0 } // No overlap for clean reassembly
+                // No overlap for clean reassembly; the parent reads it back within the same call tree
+                { overlap: 0, scope: sessionScope(rootId ?? session.id ?? subId) }
             );
             result = `[RLM_REF:${memId}]`;
           } catch (e) {
@@ -902,11 +1378,9 @@ Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${must
 
       await this.channel.send(
         this.channel.identity.publicKey,
-        JSON.stringify({ type: 'subtask_result', subId, result, parentPubkey })
+        JSON.stringify({ type: 'subtask_result', subId, result, parentPubkey, parentId })
       );
 
-      // Save history to session for auditing/debugging
-      session.history = messages;
       await this.store.save?.();
 
       const callCtx: CallContext = {
@@ -918,11 +1392,66 @@ Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${must
       await this.hooks.onCall?.(callCtx);
       this.emit('call', callCtx);
     } catch (error) {
+      this.callTree.finish(subId, error instanceof CancelledError ? 'cancelled' : 'failed', { error: String(error) });
       await this.channel.send(
         this.channel.identity.publicKey,
-        JSON.stringify({ type: 'subtask_result', subId, error: String(error), parentPubkey })
+        JSON.stringify({ type: 'subtask_result', subId, error: String(error), parentPubkey, parentId })
       );
+    } finally {
+      this.endRun(session, signal);
+      // Recorded even when the caller gave up on the node (timeout, cancel)
+      this.callTree.update(subId, { costUSD: session.estCostUSD, tokens: session.actualTokensUsed });
+    }
+  }
+
+  /**
+   * Feeds schema violations back to the sub-agent until its answer validates
+   * or `maxSchemaRepairs` attempts are used up. Returns the valid output.
+   */
+  private async repairStructuredOutput(
+    session: Session,
+    output: string,
+    schema: Record<string, unknown> | string,
+    systemPrompt: string,
+    depth: number,
+    turnId: string,
+    signal: AbortSignal
+  ): Promise<string> {
+    let check = parseStructuredOutput(output, schema);
+    for (let attempt = 1; !check.ok && attempt <= this.maxSchemaRepairs; attempt++) {
+      const messages: ChatMessage[] = [
+        { role: 'system', content: systemPrompt },
+        ...session.history.filter(m => m.turnId === turnId)
+      ];
+      this.appendToTranscript(session, messages, {
+        role: 'user',
+        content: `Your answer does not match the required schema:\n- ${check.errors.join('\n- ')}\n\nReply with only the corrected JSON.`
+      }, turnId);
+      output = await this.runAgentLoop(session, messages, 'self', depth, turnId, signal);
+      check = parseStructuredOutput(output, schema);
+    }
+
+    if (!check.ok) throw new SchemaValidationError(check.errors, output);
+    return output;
+  }
+
+  private describeCancellation(error: CancelledError): string {
+    const lines = [`[cancelled] ${error.message}`];
+    const completed = error.partial?.subTasks.filter(s => s.result !== undefined) ?? [];
+    if (completed.length > 0) {
+      lines.push('Completed sub-tasks:');
+      for (const sub of completed) lines.push(`- ${sub.task}: ${sub.result}`);
     }
+    return lines.join('\n');
+  }
+
+  private describeBudgetExceeded(error: BudgetExceededError): string {
+    const lines = [`[budget exceeded] ${error.message}`];
+    for (const entry of error.breakdown) {
+      const budget = entry.budgetUSD !== undefined ? ` of $${entry.budgetUSD.toFixed(4)}` : '';
+      lines.push(`${'  '.repeat(entry.depth)}- ${entry.task ?? entry.sessionId}: $${entry.costUSD.toFixed(4)}${budget}, ${entry.calls} calls`);
+    }
+    return lines.join('\n');
   }
 
   private async handleSubtaskResult(
@@ -949,23 +1478,21 @@ Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${must
     } else {
       sub.result = parsed.result as string;
 
-      // Validate schema if one was requested
-      if (sub.schema && sub.result) {
-          try {
-              JSON.parse(sub.result);
-          } catch (e) {
-              const err = e instanceof Error ? e : new Error(String(e));
-              sub.result = undefined;
-              sub.error = `Sub-agent output failed validation: ${err.message}. Output was: ${sub.result}`;
-              sub.reject?.(new Error(sub.error));
-              return;
-          }
+      // The caller gets the parsed value when it asked for a schema
+      if (sub.schema !== undefined) {
+        const check = parseStructuredOutput(sub.result, sub.schema);
+        if (!check.ok) {
+          const error = new SchemaValidationError(check.errors, sub.result);
+          sub.error = `Sub-agent output failed validation: ${check.errors.join('; ')}. Output was: ${sub.result}`;
+          sub.result = undefined;
+          sub.reject?.(error);
+        } else {
+          sub.data = check.value;
+          sub.resolve?.(sub.data);
+        }
+      } else {
+        sub.resolve?.(sub.result);
       }
-
-      const addedTokens = Math.ceil((sub.result?.length ?? 0) / 4);
-      session.actualTokensUsed += addedTokens;
-      session.estCostUSD += (addedTokens / 1000) * 0.0005;
-      sub.resolve?.(sub.result);
     }
 
     await this.store.save?.();
@@ -975,7 +1502,7 @@ Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${must
     );
     
     if (allDone && session.topLevelStartedAt > 0) {
-      await this.synthesize(session);
+      await this.usage.run(session, () => this.synthesize(session));
     }
   }
 
@@ -993,8 +1520,8 @@ Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${must
       { role: 'user', content: prompt }
     ];
 
-    const cb = this.getCircuitBreaker('llm');
-    const response = await cb.execute(() => this.retrier.execute(() => this.llm.chat(messages))).catch(() => ({
+    const llm = this.router.forRole('summarizer');
+    const response = await this.guardedChat(llm, () => llm.chat(messages)).catch(() => ({
       content: 'Synthesis failed. Raw results:\n' + results
     }));
 
@@ -1005,15 +1532,18 @@ Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${must
     name: string,
     args: Record<string, unknown>,
     session: Session,
-    from: string
+    from: string,
+    signal?: AbortSignal
   ): Promise<ToolCallResult> {
     try {
+      signal?.throwIfAborted();
+
       if (name === 'call') {
-        return await this.executeCall(args, session, from);
+        return await this.executeCall(args, session, from, signal);
       }
       
       if (name === 'call_parallel') {
-        return await this.executeCallParallel(args, session, from);
+        return await this.executeCallParallel(args, session, from, signal);
       }
 
       const tool = this.tools.get(name);
@@ -1041,14 +1571,14 @@ Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${must
       const cb = this.getCircuitBreaker(name);
       const fallbackName = this.fallbacks[name];
       const fallback = fallbackName
-        ? () => this.executeTool(fallbackName, args, session, from).then(r => {
+        ? () => this.executeTool(fallbackName, args, session, from, signal).then(r => {
              if (r.error) throw new Error(r.error);
              return r;
            })
         : undefined;
 
       const result = await cb.execute(
-        () => this.retrier.execute(async () => tool.execute(args, this, session, from)),
+        () => this.retrier.execute(async () => abortable(Promise.resolve(tool.execute(args, this, session, from, signal)), signal)),
         fallback
       );
 
@@ -1058,6 +1588,11 @@ Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${must
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
 
+      // Cancelled work is not a failure worth retrying later
+      if (signal?.aborted === true) {
+        return { error: abortReason(signal).message };
+      }
+
       // If we reach here, it means retries failed, circuit breaker failed (or open), and fallback failed (or missing).
       // Push to DLQ.
       await this.dlq.push(name, args, err);
@@ -1066,33 +1601,61 @@ Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${must
     }
   }
 
+  /**
+   * Runs the tool calls of one assistant turn, up to `maxConcurrentTools` at
+   * a time. Calls whose tools share a concurrency key run one after another.
+   * Results are returned in call order.
+   */
+  private executeToolCalls(
+    calls: ToolCall[],
+    session: Session,
+    from: string,
+    signal?: AbortSignal
+  ): Promise<ToolCallResult[]> {
+    const event = { sessionId: session.id, depth: session.depth };
+    return mapConcurrent(
+      calls,
+      this.maxConcurrentTools,
+      async call => {
+        this.publish(session, { type: 'tool_call_start', callId: call.id, name: call.name, arguments: call.arguments, ...event });
+        const result = await this.executeTool(call.name, call.arguments, session, from, signal);
+        this.publish(session, { type: 'tool_call_result', callId: call.id, name: call.name, result, ...event });
+        return result;
+      },
+      call => {
+        const key = this.tools.get(call.name)?.concurrencyKey;
+        return typeof key === 'function' ? key(call.arguments) : key;
+      }
+    );
+  }
+
   private async executeCall(
     args: Record<string, unknown>,
     session: Session,
-    from: string
+    from: string,
+    signal?: AbortSignal
   ): Promise<ToolCallResult> {
     const task = args.task as string;
     const summary = args.summary as string | undefined;
     const schema = args.schema as Record<string, unknown> | string | undefined;
+    const model = args.model as string | undefined;
     const depth = session.depth + 1;
 
     if (depth > this.maxDepth) {
       throw new MaxDepthExceededError(this.maxDepth, depth);
     }
 
-    if (session.callCount >= this.maxCalls) {
+    const unknownModel = this.checkModelHints([model]);
+    if (unknownModel !== undefined) return { error: unknownModel };
+
+    if (this.usage.rootOf(session).callCount >= this.maxCalls) {
       return { error: 'Max calls exceeded' };
     }
 
-    const baseEst = ((task.length + (summary?.length ?? 0)) / 4000) * 0.0005;
-    const estNewCost = baseEst * 3;
-
-    if (session.estCostUSD + estNewCost > this.budgetUSD * 0.8) {
-      throw new BudgetExceededError(this.budgetUSD, session.estCostUSD);
-    }
+    this.checkBudget(session);
+    const budgetUSD = this.allocateBudget(session, args.budgetUSD, 1);
 
-    session.callCount++;
-    session.estCostUSD += estNewCost;
+    this.chargeCalls(session, 1);
 
     const subId = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
     session.subTasks[subId] = {
@@ -1103,6 +1666,7 @@ Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${must
       resolve: undefined,
       reject: undefined
     };
+    this.registerCall(session, subId, task, depth, budgetUSD);
     const payload = JSON.stringify({
       type: 'subtask',
       parentPubkey: from,
@@ -1110,21 +1674,28 @@ Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${must
       task,
       contextSummary: summary ?? '',
       schema,
+      budgetUSD,
+      model,
       depth,
       rootId: session.rootId,
-      parentId: session.id
+      parentId: session.id,
+      caller: session.caller
     });
 
     await this.channel.send(this.channel.identity.publicKey, payload);
     await this.store.save?.();
+    this.publish(session, { type: 'subtask_spawned', subId, task, depth, parentId: session.id });
 
     // Wait for result
     try {
-      const result = await this.waitForSubtaskResult(subId, session);
+      const result = await this.waitForSubtaskResult(subId, session, this.timeoutMs, signal);
+      this.publish(session, { type: 'subtask_result', subId, result });
       return { status: 'completed', result, subId, depth };
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.publish(session, { type: 'subtask_result', subId, error: message });
       return {
-        error: error instanceof Error ? error.message : String(error),
+        error: message,
         subId
       };
     }
@@ -1133,48 +1704,45 @@ Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${must
   private async executeCallParallel(
     args: Record<string, unknown>,
     session: Session,
-    from: string
+    from: string,
+    signal?: AbortSignal
   ): Promise<ToolCallResult> {
-    const tasks = args.tasks as Array<{ task: string; summary?: string; schema?: Record<string, unknown> }>;
+    const tasks = args.tasks as Array<{ task: string; summary?: string; schema?: Record<string, unknown>; budgetUSD?: number; model?: string }>;
 
     if (!Array.isArray(tasks) || tasks.length === 0) {
       return { error: 'Invalid tasks argument' };
     }
 
+    const unknownModel = this.checkModelHints(tasks.map(t => t.model));
+    if (unknownModel !== undefined) return { error: unknownModel };
+
     // Check depth
     const depth = session.depth + 1;
     if (depth > this.maxDepth) {
       throw new MaxDepthExceededError(this.maxDepth, depth);
     }
 
-    // Check budget for all tasks
-    let totalEstCost = 0;
-    for (const t of tasks) {
-      const baseEst = ((t.task.length + (t.summary?.length ?? 0)) / 4000) * 0.0005;
-      totalEstCost += baseEst * 3;
-    }
+    this.checkBudget(session);
 
-    if (session.estCostUSD + totalEstCost > this.budgetUSD * 0.8) {
-      throw new BudgetExceededError(this.budgetUSD, session.estCostUSD);
+    const callCount = this.usage.rootOf(session).callCount;
+    if (callCount + tasks.length > this.maxCalls) {
+      return { error: `Max calls exceeded. Can only call ${this.maxCalls - callCount} more tasks.` };
     }
 
-    if (session.callCount + tasks.length > this.maxCalls) {
-      return { error: `Max calls exceeded. Can only call ${this.maxCalls - session.callCount} more tasks.` };
-    }
+    // Tasks without an explicit budget share what is left evenly
+    const budgets = tasks.map(t => this.allocateBudget(session, t.budgetUSD, tasks.length));
 
     // Execute in parallel (start all, then wait for all)
     // We reuse logic from executeCall but we want to parallelize sending and waiting
 
     // First, start all subtasks
-    const promises = tasks.map(async (t) => {
-      // Logic duplicated from executeCall but without the budget check which we did already
+    const promises = tasks.map(async (t, i) => {
+      // Logic duplicated from executeCall; the budget was checked once for the whole batch
       // And we need to be careful about session updates being atomic or at least consistent
       // JS is single threaded so synchronous updates are fine
 
-      session.callCount++;
-      // We already checked budget, just update it roughly
-      const baseEst = ((t.task.length + (t.summary?.length ?? 0)) / 4000) * 0.0005;
-      session.estCostUSD += baseEst * 3;
+      this.chargeCalls(session, 1);
+      const budgetUSD = budgets[i];
 
       const subId = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
       session.subTasks[subId] = {
@@ -1185,6 +1753,7 @@ Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${must
         resolve: undefined,
         reject: undefined
       };
+      this.registerCall(session, subId, t.task, depth, budgetUSD);
 
       const payload = JSON.stringify({
         type: 'subtask',
@@ -1193,21 +1762,28 @@ Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${must
         task: t.task,
         contextSummary: t.summary ?? '',
         schema: t.schema,
+        budgetUSD,
+        model: t.model,
         depth,
         rootId: session.rootId,
-        parentId: session.id
+        parentId: session.id,
+        caller: session.caller
       });
 
       await this.channel.send(this.channel.identity.publicKey, payload);
+      this.publish(session, { type: 'subtask_spawned', subId, task: t.task, depth, parentId: session.id });
 
       // Wait for result
       try {
-        const result = await this.waitForSubtaskResult(subId, session);
+        const result = await this.waitForSubtaskResult(subId, session, this.timeoutMs, signal);
+        this.publish(session, { type: 'subtask_result', subId, result });
         return { status: 'completed', result, subId, task: t.task };
       } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.publish(session, { type: 'subtask_result', subId, error: message });
         return {
           status: 'failed',
-          error: error instanceof Error ? error.message : String(error),
+          error: message,
           subId,
           task: t.task
         };
@@ -1221,11 +1797,34 @@ Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${must
     return { status: 'completed', results: results as unknown as Record<string, unknown> };
   }
 
+  private checkModelHints(models: Array<string | undefined>): string | undefined {
+    const unknown = models.find(m => m !== undefined && !this.router.has(m));
+    if (unknown === undefined) return undefined;
+    const names = this.router.names();
+    return `Unknown model: ${unknown}. Available: ${names.length > 0 ? names.join(', ') : 'none'}`;
+  }
+
+  private registerCall(session: Session, subId: string, task: string, depth: number, budgetUSD?: number): void {
+    this.callTree.add({
+      subId,
+      parentId: session.id ?? '',
+      rootId: session.rootId ?? session.id ?? '',
+      depth,
+      task,
+      status: 'pending',
+      createdAt: Date.now(),
+      costUSD: 0,
+      tokens: 0,
+      budgetUSD
+    });
+  }
+
   private async waitForSubtaskResult(
     subId: string,
     session: Session,
-    timeoutMs: number = this.timeoutMs
-  ): Promise<string> {
+    timeoutMs: number = this.timeoutMs,
+    signal?: AbortSignal
+  ): Promise<unknown> {
     const sub = session.subTasks[subId];
     if (!sub) {
       throw new Error(`Subtask ${subId} not found`);
@@ -1233,26 +1832,112 @@ Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${must
 
     if (sub.arrived) {
       if (sub.error) throw new Error(sub.error);
-      return sub.result!;
+      return sub.schema !== undefined ? sub.data : sub.result;
     }
 
     return new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        sub.arrived = true;
+        sub.error = signal ? abortReason(signal).message : 'Cancelled';
+        this.callTree.finish(subId, 'cancelled', { error: sub.error });
+        reject(signal ? abortReason(signal) : new CancelledError());
+      };
+
       // Store resolvers for handleSubtaskResult to call
-      sub.resolve = resolve;
-      sub.reject = reject;
+      sub.resolve = (value: unknown): void => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(value);
+      };
+      sub.reject = (error: Error): void => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      };
 
       // Timeout
       const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
         sub.arrived = true;
         sub.error = `Timeout after ${timeoutMs}ms`;
+        this.callTree.finish(subId, 'timeout', { error: sub.error });
+        // Nobody is waiting on the sub-agent any more
+        this.cancel(subtaskSessionId(subId), sub.error);
         reject(new TimeoutError(timeoutMs, `Subtask ${subId} timed out`));
       }, timeoutMs);
 
       // Store timer for cleanup
       sub.timer = timer;
+
+      if (signal?.aborted === true) {
+        onAbort();
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }
     });
   }
 
+  /**
+   * Throws once `session` or any of its callers has spent its budget: the
+   * root's `budgetUSD`, or the share a caller allocated to a sub-agent. Spend
+   * is real provider usage, rolled up the tree by the UsageTracker, so every
+   * node's `estCostUSD` already includes what its children spent.
+   */
+  private checkBudget(session: Session): void {
+    for (const node of this.usage.lineage(session)) {
+      const limit = this.budgetOf(node);
+      if (node.estCostUSD >= limit) {
+        throw new BudgetExceededError(limit, node.estCostUSD, this.budgetBreakdown(session), node.id);
+      }
+    }
+  }
+
+  private budgetOf(session: Session): number {
+    return session.parentId === undefined ? this.budgetUSD : session.budgetUSD ?? Infinity;
+  }
+
+  /**
+   * Budget for a new sub-agent: what the caller asked for, capped by what is
+   * left anywhere up the tree, or an even `share` of what is left. Undefined
+   * when nothing above is limited.
+   */
+  private allocateBudget(session: Session, requested: unknown, share: number): number | undefined {
+    const remaining = Math.min(...this.usage.lineage(session).map(node => this.budgetOf(node) - node.estCostUSD));
+    const budget = typeof requested === 'number' && requested > 0
+      ? Math.min(requested, remaining)
+      : remaining / share;
+    return Number.isFinite(budget) ? budget : undefined;
+  }
+
+  /** Counts calls against `session` and every caller above it, so maxCalls holds tree-wide. */
+  private chargeCalls(session: Session, count: number): void {
+    for (const node of this.usage.lineage(session)) node.callCount += count;
+  }
+
+  private budgetBreakdown(session: Session): BudgetBreakdownEntry[] {
+    const root = this.usage.rootOf(session);
+    const rootId = root.id ?? '';
+    const entries: BudgetBreakdownEntry[] = [{
+      sessionId: rootId,
+      depth: root.depth,
+      costUSD: root.estCostUSD,
+      budgetUSD: Number.isFinite(this.budgetUSD) ? this.budgetUSD : undefined,
+      calls: root.callCount
+    }];
+    for (const node of this.callTree.nodes(rootId)) {
+      const sessionId = subtaskSessionId(node.subId);
+      const sub = this.store.getAll()[sessionId];
+      entries.push({
+        sessionId,
+        task: node.task,
+        depth: node.depth,
+        costUSD: sub?.estCostUSD ?? node.costUSD,
+        budgetUSD: node.budgetUSD,
+        calls: sub?.callCount ?? 0
+      });
+    }
+    return entries;
+  }
+
   private getRLMGuide(toolNames: string[]): string {
     if (!toolNames.includes('code_exec')) {
       return '';
@@ -1261,10 +1946,11 @@ Parent context: ${contextSummary}${contextInstruction}${schemaInstruction}${must
 RLM ENVIRONMENT:
 - You have a persistent JavaScript sandbox via 'code_exec'.
 - Use 'rlm_call(task)' to recursively call yourself. Returns the result directly (large results are handled transparently).
+- Use 'rlm_call(task, { schema })' with a JSON Schema to get a parsed, validated value back instead of text.
 - Use 'rlm_call_parallel([{task: ...}, ...])' for concurrent sub-tasks.
 - Use 'rlm_shared_set(key, value)', 'rlm_shared_get(key)', 'rlm_shared_increment(key, delta)', 'rlm_shared_push(key, value)' to access shared memory across the recursion tree.
 - Use 'rlm_map(items, mapper)', 'rlm_filter(items, predicate)', 'rlm_reduce(items, reducer, initial)' for functional operations over sub-agents.
-- Use 'rlm_trace()' to inspect the call stack.
+- Use 'rlm_trace()' to inspect the call stack and 'rlm_tree()' for every sub-agent call in this tree (status, depth, cost).
 - Use 'load_context(id)' to retrieve specific memories by ID.
 - Console logs (console.log) are captured and returned to you for debugging.
 `;
@@ -1331,6 +2017,22 @@ You are persistent, efficient, and recursive.`;
         + this.workspaceContext;
   }
 
+  /**
+   * What memory and graph entries a tool call may touch. Calls the agent makes
+   * on its own behalf act for whoever started the call tree; with nobody
+   * behind them, every scope is open.
+   */
+  public memoryAccess(from: string, session?: Session): MemoryAccess | undefined {
+    const own = this.channel.identity.publicKey;
+    const caller = from === 'self' || from === own ? session?.caller : from;
+    if (caller === undefined || caller === own) return undefined;
+    return {
+      user: caller,
+      session: session?.rootId ?? session?.id,
+      admin: this.getRole(caller) === 'admin'
+    };
+  }
+
   private getRole(pubkey: string): Role {
     if (this.channel.identity.publicKey === pubkey) {
       return 'admin'; // Self is always admin
@@ -1372,6 +2074,10 @@ You are persistent, efficient, and recursive.`;
         .map(([name, tool]) => ({ name, description: tool.description, parameters: tool.parameters }));
     
     if (depth < this.maxDepth) {
+      const models = this.router.names();
+      const modelParameter: Record<string, import('./types.js').ToolParameterProperty> = models.length > 0
+        ? { model: { type: 'string', enum: models, description: 'Optional model for the child agent' } }
+        : {};
       definitions.push({
         name: 'call',
         description: 'Call a child agent to handle a sub-task. Use for complex tasks that can be parallelized or decomposed.',
@@ -1379,7 +2085,9 @@ You are persistent, efficient, and recursive.`;
           type: 'object',
           properties: {
             task: { type: 'string', description: 'The specific task to call the child agent with' },
-            summary: { type: 'string', description: 'Optional context summary for the child agent' }
+            summary: { type: 'string', description: 'Optional context summary for the child agent' },
+            budgetUSD: { type: 'number', description: 'Optional spend cap in USD for the child and everything it calls' },
+            ...modelParameter
           },
           required: ['task']
         }
@@ -1396,7 +2104,9 @@ You are persistent, efficient, and recursive.`;
                 type: 'object',
                 properties: {
                   task: { type: 'string' },
-                  summary: { type: 'string' }
+                  summary: { type: 'string' },
+                  budgetUSD: { type: 'number' },
+                  ...modelParameter
                 },
                 required: ['task']
               },
@@ -1411,9 +2121,17 @@ You are persistent, efficient, and recursive.`;
     return definitions;
   }
 
+  /**
+   * Returns the last `maxHistory` messages, dropping leading tool results
+   * whose assistant tool call fell outside the window.
+   */
+  private recentHistory(session: Session): ChatMessage[] {
+    return trimHistory(session.history, this.maxHistory);
+  }
+
   private pruneHistory(session: Session): void {
     if (session.history.length > this.maxHistory) {
-      session.history = session.history.slice(-this.maxHistory);
+      session.history = this.recentHistory(session);
     }
   }
 
@@ -1439,6 +2157,11 @@ You are persistent, efficient, and recursive.`;
     };
   }
 
+  // Stream events are routed to listeners by the root of the session's call tree
+  private publish(session: Session, event: AgentStreamEvent): void {
+    this.emit('event', event, session.rootId ?? session.id ?? '');
+  }
+
   private emit(event: string, ...args: unknown[]): void {
     const handlers = this.eventHandlers.get(event);
     if (handlers) {
@@ -1495,6 +2218,11 @@ class VoltClawAgentBuilder {
     return this;
   }
 
+  withRouter(router: import('./types.js').ModelRouterConfig): this {
+    this.options.router = router;
+    return this;
+  }
+
   use(middleware: Middleware): this {
     this.options.middleware = [...(this.options.middleware ?? []), middleware];
     return this;
@@ -1618,11 +2346,34 @@ class CallBuilder {
     return this;
   }
 
+  maxConcurrentTools(limit: number): this {
+    this.config.maxConcurrentTools = limit;
+    return this;
+  }
+
+  resumeInterrupted(enabled: boolean = true): this {
+    this.config.resumeInterrupted = enabled;
+    return this;
+  }
+
+  maxSchemaRepairs(attempts: number): this {
+    this.config.maxSchemaRepairs = attempts;
+    return this;
+  }
+
   build(): import('./types.js').CallConfig {
     return this.config;
   }
 }
 
+// Images and files a tool returns travel as content parts beside its JSON result
+function toolResultMessage(call: ToolCall, result: ToolCallResult | undefined): ChatMessage {
+  const { parts, ...rest } = result ?? {};
+  const content = JSON.stringify(result === undefined ? undefined : rest);
+  const withParts = withAttachments(content, parts ?? []);
+  return { role: 'tool', toolCallId: call.id, content, ...(withParts ? { parts: withParts } : {}) };
+}
+
 /**
  * @deprecated Use Retrier class instead
  */
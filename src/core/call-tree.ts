@@ -0,0 +1,93 @@
+import type { CallNode, CallNodeStatus, Session, Store } from './types.js';
+
+export type { CallNode, CallNodeStatus };
+
+const SUBTASK_PREFIX = 'subtask:';
+
+/**
+ * Registry of every sub-agent call, one node per `subId`. Nodes live on the
+ * root session of their tree (`session.callTree`), so they are saved and
+ * loaded with the rest of the session data by whichever store is in use.
+ */
+export class CallTree {
+  // subId -> rootId; only ids are cached so a store reload never leaves stale nodes behind
+  private readonly roots = new Map<string, string>();
+
+  constructor(private readonly store: Store) {}
+
+  add(node: CallNode): CallNode {
+    const root = this.store.get(node.rootId);
+    if (!root.callTree) root.callTree = {};
+    root.callTree[node.subId] = node;
+    this.roots.set(node.subId, node.rootId);
+    return node;
+  }
+
+  get(subId: string): CallNode | undefined {
+    const rootId = this.roots.get(subId);
+    if (rootId !== undefined) {
+      const node = this.store.get(rootId).callTree?.[subId];
+      if (node) return node;
+    }
+
+    for (const [id, session] of Object.entries(this.store.getAll())) {
+      const node = session.callTree?.[subId];
+      if (node) {
+        this.roots.set(subId, id);
+        return node;
+      }
+    }
+    return undefined;
+  }
+
+  update(subId: string, patch: Partial<Omit<CallNode, 'subId' | 'rootId'>>): CallNode | undefined {
+    const node = this.get(subId);
+    if (node) Object.assign(node, patch);
+    return node;
+  }
+
+  /** Marks a node finished unless it already reached a final status. */
+  finish(subId: string, status: Exclude<CallNodeStatus, 'pending' | 'running'>, patch: Partial<CallNode> = {}): void {
+    const node = this.get(subId);
+    if (!node || (node.status !== 'pending' && node.status !== 'running')) return;
+    Object.assign(node, patch, { status, finishedAt: Date.now() });
+  }
+
+  /** All nodes of the tree rooted at `rootId`, in creation order. */
+  nodes(rootId: string): CallNode[] {
+    const all = this.store.getAll()[rootId]?.callTree ?? {};
+    return Object.values(all).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  children(rootId: string, parentId: string): CallNode[] {
+    return this.nodes(rootId).filter(n => n.parentId === parentId);
+  }
+
+  /** The node a subtask session (`subtask:<subId>`) belongs to. */
+  nodeForSession(session: Session): CallNode | undefined {
+    const id = session.id;
+    if (id?.startsWith(SUBTASK_PREFIX) !== true) return undefined;
+    return this.get(id.slice(SUBTASK_PREFIX.length));
+  }
+}
+
+export function subtaskSessionId(subId: string): string {
+  return `${SUBTASK_PREFIX}${subId}`;
+}
+
+/** Renders a tree as indented lines, e.g. for the CLI. */
+export function formatCallTree(nodes: CallNode[], rootId: string): string[] {
+  const lines: string[] = [];
+  const walk = (parentId: string, indent: string): void => {
+    for (const node of nodes.filter(n => n.parentId === parentId)) {
+      const duration = node.finishedAt !== undefined && node.startedAt !== undefined
+        ? ` ${((node.finishedAt - node.startedAt) / 1000).toFixed(1)}s`
+        : '';
+      const error = node.error !== undefined ? ` - ${node.error}` : '';
+      lines.push(`${indent}${node.subId} [${node.status}] d${node.depth} $${node.costUSD.toFixed(4)}${duration} ${node.task.slice(0, 60)}${error}`);
+      walk(subtaskSessionId(node.subId), indent + '  ');
+    }
+  };
+  walk(rootId, '');
+  return lines;
+}
@@ -1,4 +1,4 @@
-import { CircuitOpenError } from './errors.js';
+import { CircuitOpenError, LLMRateLimitError } from './errors.js';
 import type { CircuitBreakerConfig } from './types.js';
 
 export enum CircuitState {
@@ -39,7 +39,8 @@ export class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      // Being throttled is not an outage
+      if (!(error instanceof LLMRateLimitError)) this.onFailure();
       throw error;
     }
   }
@@ -1,9 +1,12 @@
-import type { LLMProvider, ChatMessage } from './types.js';
+import type { LLMProvider, ChatMessage, MemoryAccess } from './types.js';
+import { countMessageTokens, defaultTokenizer } from '../llm/tokenizer.js';
+import { trimHistory } from './utils.js';
 import type { MemoryManager } from '../memory/manager.js';
 import type { GraphManager } from '../memory/graph.js';
 
 export interface ContextManagerOptions {
   maxMessages?: number;
+  maxTokens?: number; // Also compact once the messages take up more than this many tokens
   preserveLast?: number;
   memory?: MemoryManager;
   graph?: GraphManager;
@@ -12,6 +15,7 @@ export interface ContextManagerOptions {
 export class ContextManager {
   private readonly llm: LLMProvider;
   private readonly maxMessages: number;
+  private readonly maxTokens?: number;
   private readonly preserveLast: number;
   private readonly memory?: MemoryManager;
   private readonly graph?: GraphManager;
@@ -19,24 +23,35 @@ export class ContextManager {
   constructor(llm: LLMProvider, options: ContextManagerOptions = {}) {
     this.llm = llm;
     this.maxMessages = options.maxMessages ?? 50;
+    this.maxTokens = options.maxTokens;
     this.preserveLast = options.preserveLast ?? 20;
     this.memory = options.memory;
     this.graph = options.graph;
   }
 
-  async manageContext(messages: ChatMessage[]): Promise<ChatMessage[]> {
+  /** `access` scopes the offloaded history to whoever the conversation is with. */
+  async manageContext(messages: ChatMessage[], access?: MemoryAccess): Promise<ChatMessage[]> {
     // console.debug(`manageContext: total=${messages.length}, max=${this.maxMessages}`);
-    if (messages.length <= this.maxMessages) {
+    const overTokens = this.maxTokens !== undefined && this.countTokens(messages) > this.maxTokens;
+    if (messages.length <= this.maxMessages && !overTokens) {
       return messages;
     }
 
     const systemMessages = messages.filter(m => m.role === 'system');
     const nonSystemMessages = messages.filter(m => m.role !== 'system');
 
-    if (nonSystemMessages.length <= this.maxMessages) {
+    if (nonSystemMessages.length <= this.maxMessages && !overTokens) {
       return messages;
     }
 
+    // Over the token limit, keep fewer recent messages until they fit
+    let keep = Math.min(this.preserveLast, nonSystemMessages.length);
+    if (overTokens) {
+      const fits = (n: number): boolean =>
+        this.countTokens([...systemMessages, ...nonSystemMessages.slice(-n)]) <= (this.maxTokens ?? Infinity);
+      while (keep > 1 && !fits(keep)) keep--;
+    }
+
     // We only summarize if we have enough messages to make it worthwhile
     // e.g., if maxMessages=5, preserveLast=2, total=6 (non-system)
     // toSummarize = 6 - 2 = 4 messages.
@@ -45,8 +60,9 @@ export class ContextManager {
     // If maxMessages=5 and we have 5 non-system messages, we return.
     // If we have 6, we summarize.
 
-    const toSummarize = nonSystemMessages.slice(0, nonSystemMessages.length - this.preserveLast);
-    const toKeep = nonSystemMessages.slice(nonSystemMessages.length - this.preserveLast);
+    // Tool results stay with the call that produced them, on whichever side of the cut
+    const toKeep = trimHistory(nonSystemMessages, keep);
+    const toSummarize = nonSystemMessages.slice(0, nonSystemMessages.length - toKeep.length);
 
     if (toSummarize.length === 0) {
       return messages;
@@ -60,9 +76,9 @@ export class ContextManager {
     if (this.graph) {
         // We do this optimistically without awaiting to block execution minimally
         // console.debug('Offloading to graph:', textToOffload.slice(0, 50));
-        this.graph.extractAndStore(textToOffload).catch(e => console.error('Graph offload failed:', e));
+        this.graph.withAccess(access).extractAndStore(textToOffload).catch(e => console.error('Graph offload failed:', e));
     } else if (this.memory) {
-        this.memory.storeMemory(textToOffload, 'episodic', ['conversation_history'], 3).catch(e => console.error('Memory offload failed:', e));
+        this.memory.withAccess(access).storeMemory(textToOffload, 'episodic', ['conversation_history'], 3).catch(e => console.error('Memory offload failed:', e));
     }
 
     const summary = await this.summarize(toSummarize);
@@ -75,6 +91,10 @@ export class ContextManager {
     return [...systemMessages, summaryMessage, ...toKeep];
   }
 
+  private countTokens(messages: ChatMessage[]): number {
+    return this.llm.countMessages?.(messages) ?? countMessageTokens(defaultTokenizer, messages);
+  }
+
   private async summarize(messages: ChatMessage[]): Promise<string> {
     const text = messages
       .map(m => `${m.role.toUpperCase()}: ${m.content || '[tool call]'}`)
@@ -1,3 +1,5 @@
+import type { BudgetBreakdownEntry, FailoverAttempt, PartialRunResult } from './types.js';
+
 export class VoltClawError extends Error {
   public readonly code: string;
   public readonly timestamp: Date;
@@ -29,15 +31,27 @@ export class LLMError extends VoltClawError {
 }
 
 export class LLMRateLimitError extends LLMError {
-  public readonly retryAfter?: number;
+  public readonly retryAfter?: number; // Milliseconds the provider asked us to wait
 
-  constructor(retryAfter?: number) {
-    super('LLM rate limit exceeded', 'unknown');
+  constructor(retryAfter?: number, provider: string = 'unknown') {
+    const wait = retryAfter !== undefined ? `; retry after ${Math.ceil(retryAfter / 1000)}s` : '';
+    super(`LLM rate limit exceeded${wait}`, provider);
     this.name = 'LLMRateLimitError';
     this.retryAfter = retryAfter;
   }
 }
 
+export class LLMFailoverError extends VoltClawError {
+  public readonly attempts: FailoverAttempt[];
+
+  constructor(attempts: FailoverAttempt[]) {
+    const detail = attempts.map(a => `${a.provider}/${a.model}: ${a.error}`).join('; ');
+    super(`All LLM providers failed: ${detail}`, 'LLM_FAILOVER');
+    this.name = 'LLMFailoverError';
+    this.attempts = attempts;
+  }
+}
+
 export class ChannelError extends VoltClawError {
   public readonly channelType?: string;
 
@@ -92,12 +106,16 @@ export class MaxDepthExceededError extends DelegationError {
 export class BudgetExceededError extends DelegationError {
   public readonly budget: number;
   public readonly used: number;
+  public readonly sessionId?: string; // The node whose budget ran out
+  public readonly breakdown: BudgetBreakdownEntry[];
 
-  constructor(budget: number, used: number) {
+  constructor(budget: number, used: number, breakdown: BudgetBreakdownEntry[] = [], sessionId?: string) {
     super(`Budget exceeded: $${used.toFixed(4)} > $${budget.toFixed(4)}`, 'BUDGET_EXCEEDED');
     this.name = 'BudgetExceededError';
     this.budget = budget;
     this.used = used;
+    this.sessionId = sessionId;
+    this.breakdown = breakdown;
   }
 }
 
@@ -114,6 +132,16 @@ export class TimeoutError extends VoltClawError {
   }
 }
 
+export class CancelledError extends VoltClawError {
+  public readonly partial?: PartialRunResult;
+
+  constructor(message: string = 'Operation cancelled', partial?: PartialRunResult) {
+    super(message, 'CANCELLED');
+    this.name = 'CancelledError';
+    this.partial = partial;
+  }
+}
+
 export class ToolError extends VoltClawError {
   public readonly toolName: string;
 
@@ -131,6 +159,18 @@ export class ToolNotFoundError extends ToolError {
   }
 }
 
+export class SchemaValidationError extends VoltClawError {
+  public readonly errors: string[];
+  public readonly output: string;
+
+  constructor(errors: string[], output: string) {
+    super(`Output does not match the requested schema: ${errors.join('; ')}`, 'SCHEMA_VALIDATION');
+    this.name = 'SchemaValidationError';
+    this.errors = errors;
+    this.output = output;
+  }
+}
+
 export class PersistenceError extends VoltClawError {
   constructor(message: string) {
     super(message, 'PERSISTENCE_ERROR');
@@ -0,0 +1,210 @@
+import { CircuitBreaker } from './circuit-breaker.js';
+import { LLMFailoverError } from './errors.js';
+import { attachmentsOf, withAttachments } from '../llm/content.js';
+import type { Retrier } from './retry.js';
+import type {
+  LLMProvider,
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+  ChatChunk,
+  CircuitBreakerConfig,
+  FailoverAttempt,
+  ProviderHealth,
+  ToolDefinition
+} from './types.js';
+
+export interface FailoverOptions {
+  circuitBreaker: CircuitBreakerConfig;
+  retrier: Retrier;
+  onServed?: (provider: LLMProvider, failedOver: FailoverAttempt[]) => void;
+}
+
+interface Member {
+  llm: LLMProvider;
+  breaker: CircuitBreaker;
+  served: number;
+  failures: number;
+  lastError?: string;
+  lastServedAt?: number;
+}
+
+// Accepted by every provider: Anthropic wants [A-Za-z0-9_-], OpenAI at most 40 characters
+const SAFE_TOOL_CALL_ID = /^[A-Za-z0-9_-]{1,40}$/;
+
+/**
+ * Serves each request from the first healthy provider in `providers`. Every
+ * provider has its own circuit breaker and retries transient errors before
+ * the next one is tried; once all have failed, `LLMFailoverError` lists why.
+ * Streams fail over only until the first chunk has been yielded.
+ */
+export class FailoverProvider implements LLMProvider {
+  stream?: (messages: ChatMessage[], options?: ChatOptions) => AsyncIterable<ChatChunk>;
+  embed?: (text: string) => Promise<number[]>;
+  embedBatch?: (texts: string[]) => Promise<number[][]>;
+  countTokens?: (text: string) => number;
+  countMessages?: (messages: ChatMessage[], tools?: ToolDefinition[]) => number;
+  private readonly members: Member[];
+
+  constructor(providers: LLMProvider[], private readonly options: FailoverOptions) {
+    if (providers.length === 0) throw new Error('FailoverProvider needs at least one provider');
+    this.members = providers.map(llm => ({
+      llm,
+      breaker: new CircuitBreaker(options.circuitBreaker),
+      served: 0,
+      failures: 0
+    }));
+
+    const primary = this.primary;
+    if (providers.some(p => p.stream)) this.stream = this.streamWithFailover.bind(this);
+    if (primary.embed) this.embed = primary.embed.bind(primary);
+    if (primary.embedBatch) this.embedBatch = primary.embedBatch.bind(primary);
+    if (primary.countTokens) this.countTokens = primary.countTokens.bind(primary);
+    if (primary.countMessages) this.countMessages = primary.countMessages.bind(primary);
+  }
+
+  private get primary(): LLMProvider {
+    return (this.members[0] as Member).llm;
+  }
+
+  get name(): string {
+    return this.primary.name;
+  }
+
+  get model(): string {
+    return this.primary.model;
+  }
+
+  get supportsTools(): boolean | undefined {
+    return this.primary.supportsTools;
+  }
+
+  get supportsVision(): boolean | undefined {
+    return this.primary.supportsVision;
+  }
+
+  health(): ProviderHealth[] {
+    return this.members.map(m => ({
+      provider: m.llm.name,
+      model: m.llm.model,
+      state: m.breaker.getState(),
+      served: m.served,
+      failures: m.failures,
+      lastError: m.lastError,
+      lastServedAt: m.lastServedAt
+    }));
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+    const translated = translateToolHistory(messages);
+    const attempts: FailoverAttempt[] = [];
+
+    for (const member of this.members) {
+      try {
+        const response = await member.breaker.execute(() =>
+          this.options.retrier.execute(() => member.llm.chat(translated, options))
+        );
+        this.served(member, attempts);
+        return response;
+      } catch (error) {
+        if (options?.signal?.aborted === true) throw error;
+        attempts.push(this.failed(member, error));
+      }
+    }
+    throw new LLMFailoverError(attempts);
+  }
+
+  private async *streamWithFailover(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk> {
+    const translated = translateToolHistory(messages);
+    const attempts: FailoverAttempt[] = [];
+
+    for (const member of this.members) {
+      let chunks: AsyncIterator<ChatChunk>;
+      let first: IteratorResult<ChatChunk>;
+      try {
+        ({ chunks, first } = await member.breaker.execute(() => this.options.retrier.execute(async () => {
+          const iterator = openStream(member.llm, translated, options);
+          return { chunks: iterator, first: await iterator.next() };
+        })));
+      } catch (error) {
+        if (options?.signal?.aborted === true) throw error;
+        attempts.push(this.failed(member, error));
+        continue;
+      }
+
+      this.served(member, attempts);
+      // Closing the member's stream when the consumer stops early lets it
+      // release its rate-limit permit and response body
+      try {
+        for (let next = first; next.done !== true; next = await chunks.next()) {
+          yield next.value;
+        }
+      } finally {
+        await chunks.return?.();
+      }
+      return;
+    }
+    throw new LLMFailoverError(attempts);
+  }
+
+  private served(member: Member, attempts: FailoverAttempt[]): void {
+    member.served++;
+    member.lastServedAt = Date.now();
+    this.options.onServed?.(member.llm, attempts);
+  }
+
+  private failed(member: Member, error: unknown): FailoverAttempt {
+    const message = error instanceof Error ? error.message : String(error);
+    member.failures++;
+    member.lastError = message;
+    return { provider: member.llm.name, model: member.llm.model, error: message };
+  }
+}
+
+function openStream(llm: LLMProvider, messages: ChatMessage[], options?: ChatOptions): AsyncIterator<ChatChunk> {
+  if (llm.stream) return llm.stream(messages, options)[Symbol.asyncIterator]();
+
+  // Providers without streaming answer in one piece
+  return (async function* (): AsyncGenerator<ChatChunk> {
+    const response = await llm.chat(messages, options);
+    if (response.content !== '') yield { content: response.content };
+    for (const call of response.toolCalls ?? []) yield { toolCalls: call };
+    yield { done: true, usage: response.usage };
+  })();
+}
+
+/**
+ * Rewrites a transcript produced by one provider so any other accepts it.
+ * Tool-call ids are normalized to a portable form, calls that never got a
+ * result are dropped, and results whose call is gone (trimmed by context
+ * management, say) become plain user messages.
+ */
+export function translateToolHistory(messages: ChatMessage[]): ChatMessage[] {
+  const answered = new Set(messages.filter(m => m.role === 'tool').map(m => m.toolCallId));
+  const ids = new Map<string, string>();
+  const portableId = (id: string): string => {
+    let mapped = ids.get(id);
+    if (mapped === undefined) {
+      mapped = SAFE_TOOL_CALL_ID.test(id) ? id : `call_${ids.size}_${id.replace(/[^A-Za-z0-9]/g, '').slice(-24)}`;
+      ids.set(id, mapped);
+    }
+    return mapped;
+  };
+
+  return messages.map(message => {
+    if (message.role === 'assistant' && message.toolCalls) {
+      const toolCalls = message.toolCalls
+        .filter(call => answered.has(call.id))
+        .map(call => ({ ...call, id: portableId(call.id) }));
+      return { ...message, toolCalls: toolCalls.length > 0 ? toolCalls : undefined };
+    }
+    if (message.role === 'tool') {
+      const id = message.toolCallId !== undefined ? ids.get(message.toolCallId) : undefined;
+      if (id !== undefined) return { ...message, toolCallId: id };
+      const content = `[tool result]\n${message.content ?? ''}`;
+      const parts = withAttachments(content, attachmentsOf(message));
+      return { role: 'user', content, ...(parts ? { parts } : {}), turnId: message.turnId, timestamp: message.timestamp };
+    }
+    return message;
+  });
+}
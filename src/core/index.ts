@@ -2,6 +2,10 @@ export { VoltClawAgent, withRetry } from './agent.js';
 export * from './types.js';
 export * from './errors.js';
 export * from './plugin.js';
+export { composeMiddleware } from './middleware.js';
+export { ModelRouter } from './model-router.js';
+export { FailoverProvider, translateToolHistory } from './failover.js';
+export { ResponseCache } from './response-cache.js';
 export * from './workspace.js';
 
 // LCM (Lossless Context Management)
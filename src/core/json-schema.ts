@@ -0,0 +1,239 @@
+/**
+ * Minimal JSON Schema validation for structured sub-agent output. Covers the
+ * keywords models are asked to follow in practice: type, enum, const,
+ * properties/required/additionalProperties, items, length and range bounds,
+ * pattern, and allOf/anyOf/oneOf. Unknown keywords are ignored.
+ */
+
+import { SchemaValidationError } from './errors.js';
+import type { LLMProvider, ChatMessage, ChatOptions, ResponseFormat } from './types.js';
+
+export type JsonSchema = Record<string, unknown>;
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+export type StructuredOutput =
+  | { ok: true; value: unknown }
+  | { ok: false; errors: string[] };
+
+/** Returns one message per violation, each prefixed with a JSON path. */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  const errors: string[] = [];
+
+  const types = typeof schema.type === 'string' ? [schema.type] : Array.isArray(schema.type) ? schema.type as string[] : [];
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    return [`${path}: expected ${types.join(' | ')}, got ${typeOf(value)}`];
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => deepEqual(option, value))) {
+    errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string') {
+      const pattern = compilePattern(schema.pattern);
+      if (pattern === undefined) {
+        errors.push(`${path}: schema pattern /${schema.pattern}/ is not a valid regular expression`);
+      } else if (!pattern.test(value)) {
+        errors.push(`${path}: must match /${schema.pattern}/`);
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (isObject(schema.items)) {
+      const items = schema.items;
+      value.forEach((item, i) => errors.push(...validateJsonSchema(item, items, `${path}[${i}]`)));
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = isObject(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as string[]) {
+        if (!(key in value)) errors.push(`${path}.${key}: is required`);
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const propertySchema = properties[key];
+      if (isObject(propertySchema)) {
+        errors.push(...validateJsonSchema(child, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (isObject(schema.additionalProperties)) {
+        errors.push(...validateJsonSchema(child, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf.filter(isObject)) errors.push(...validateJsonSchema(value, sub, path));
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const options = schema.anyOf.filter(isObject);
+    if (!options.some(sub => validateJsonSchema(value, sub, path).length === 0)) {
+      errors.push(`${path}: must match at least one schema in anyOf`);
+    }
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter(isObject).filter(sub => validateJsonSchema(value, sub, path).length === 0);
+    if (matches.length !== 1) {
+      errors.push(`${path}: must match exactly one schema in oneOf (matched ${matches.length})`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parses model output as JSON and checks it against `schema`. Markdown code
+ * fences and prose around a single JSON value are tolerated. A string schema
+ * that is not itself JSON is treated as a prose description, so only
+ * well-formed JSON is required.
+ */
+export function parseStructuredOutput(output: string, schema: JsonSchema | string): StructuredOutput {
+  const fenced = output.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  const text = fenced?.[1] ?? output.trim();
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (e) {
+    const embedded = extractJson(text);
+    if (embedded === undefined) {
+      return { ok: false, errors: [`Output is not valid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+    }
+    value = embedded;
+  }
+
+  const resolved = typeof schema === 'string' ? tryParseSchema(schema) : schema;
+  const errors = resolved ? validateJsonSchema(value, resolved) : [];
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
+
+/** The provider-native response format for a schema; prose schemas only ask for JSON. */
+export function responseFormatFor(schema: JsonSchema | string, name?: string): ResponseFormat {
+  const resolved = typeof schema === 'string' ? tryParseSchema(schema) : schema;
+  return resolved ? { type: 'json_schema', schema: resolved, name } : { type: 'json' };
+}
+
+/**
+ * Asks `llm` for JSON matching `schema`, using the provider's native
+ * structured output mode where it has one. Replies that do not parse or
+ * validate are sent back with the errors, up to `maxRepairs` times, which
+ * also covers providers without a native mode.
+ */
+export async function requestStructuredOutput(
+  llm: LLMProvider,
+  messages: ChatMessage[],
+  schema: JsonSchema | string,
+  options: ChatOptions & { maxRepairs?: number; name?: string } = {}
+): Promise<unknown> {
+  const { maxRepairs = DEFAULT_MAX_REPAIRS, name, ...chatOptions } = options;
+  const transcript = [...messages];
+  const request: ChatOptions = { ...chatOptions, responseFormat: responseFormatFor(schema, name) };
+
+  let output = (await llm.chat(transcript, request)).content;
+  let check = parseStructuredOutput(output, schema);
+  for (let attempt = 1; !check.ok && attempt <= maxRepairs; attempt++) {
+    transcript.push(
+      { role: 'assistant', content: output },
+      { role: 'user', content: `Your answer does not match the required schema:\n- ${check.errors.join('\n- ')}\n\nReply with only the corrected JSON.` }
+    );
+    output = (await llm.chat(transcript, request)).content;
+    check = parseStructuredOutput(output, schema);
+  }
+
+  if (!check.ok) throw new SchemaValidationError(check.errors, output);
+  return check.value;
+}
+
+// The outermost {...} or [...] in text that has prose around it
+function extractJson(text: string): unknown {
+  const start = text.search(/[{[]/);
+  if (start === -1) return undefined;
+  const close = text[start] === '{' ? '}' : ']';
+  const end = text.lastIndexOf(close);
+  if (end <= start) return undefined;
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+function tryParseSchema(text: string): JsonSchema | undefined {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return isObject(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function compilePattern(pattern: string): RegExp | undefined {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return undefined;
+  }
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'array': return Array.isArray(value);
+    case 'object': return isObject(value);
+    case 'null': return value === null;
+    default: return typeof value === type;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isObject(value: unknown): value is JsonSchema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Key order does not matter to JSON, so objects compare by their key sets
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isObject(a) || isObject(b)) {
+    if (!isObject(a) || !isObject(b)) return false;
+    const keys = Object.keys(a).sort();
+    const otherKeys = Object.keys(b).sort();
+    return keys.length === otherKeys.length && keys.every((key, i) => key === otherKeys[i] && deepEqual(a[key], b[key]));
+  }
+  return a === b;
+}
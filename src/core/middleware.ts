@@ -0,0 +1,29 @@
+import type { Middleware, MiddlewareContext } from './types.js';
+
+export type { Middleware, MiddlewareContext };
+
+/**
+ * Composes middleware Koa-style: each one runs code before `await next()`,
+ * the rest of the chain (ending in `handler`) runs inside that call, and
+ * code after it sees the result. Not calling `next()` short-circuits the
+ * chain; errors from further down surface as rejections of `next()`.
+ */
+export function composeMiddleware(
+  middleware: Middleware[],
+  handler: (ctx: MiddlewareContext) => Promise<void>
+): (ctx: MiddlewareContext) => Promise<void> {
+  return (ctx) => {
+    let index = -1;
+    const dispatch = async (i: number): Promise<void> => {
+      if (i <= index) throw new Error('next() called multiple times');
+      index = i;
+      const fn = middleware[i];
+      if (fn === undefined) {
+        await handler(ctx);
+        return;
+      }
+      await fn(ctx, () => dispatch(i + 1));
+    };
+    return dispatch(0);
+  };
+}
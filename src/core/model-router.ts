@@ -0,0 +1,59 @@
+import { ConfigurationError } from './errors.js';
+import type { LLMConfig, LLMProvider, ModelRole, ModelRouterConfig } from './types.js';
+
+export type { ModelRole, ModelRouterConfig };
+
+/**
+ * Picks the provider for each LLM call. Agent turns resolve, most specific
+ * first: the `model` a caller passed to `call`, the deepest `depths` entry at
+ * or above the sub-agent's depth, then the `planner` (root) or `worker`
+ * (sub-agent) role. Anything unrouted uses the default provider.
+ */
+export class ModelRouter {
+  private readonly models = new Map<string, LLMProvider>();
+  private readonly roles: Partial<Record<ModelRole, string>>;
+  private readonly depths: Array<[number, string]>;
+
+  constructor(
+    private readonly fallback: LLMProvider,
+    config: ModelRouterConfig | undefined,
+    resolve: (llm: LLMProvider | LLMConfig) => LLMProvider
+  ) {
+    for (const [name, llm] of Object.entries(config?.models ?? {})) {
+      this.models.set(name, resolve(llm));
+    }
+    this.roles = config?.roles ?? {};
+    this.depths = Object.entries(config?.depths ?? {})
+      .map(([depth, name]): [number, string] => [Number(depth), name])
+      .sort((a, b) => b[0] - a[0]);
+
+    for (const name of [...Object.values(this.roles), ...this.depths.map(([, n]) => n)]) {
+      if (!this.models.has(name)) throw new ConfigurationError(`Router references unknown model: ${name}`);
+    }
+  }
+
+  names(): string[] {
+    return [...this.models.keys()];
+  }
+
+  has(name: string): boolean {
+    return this.models.has(name);
+  }
+
+  forRole(role: ModelRole): LLMProvider {
+    return this.named(this.roles[role]);
+  }
+
+  forAgent(depth: number, hint?: string): LLMProvider {
+    if (hint !== undefined && this.models.has(hint)) return this.named(hint);
+    if (depth > 0) {
+      const rule = this.depths.find(([min]) => depth >= min);
+      if (rule) return this.named(rule[1]);
+    }
+    return this.forRole(depth === 0 ? 'planner' : 'worker');
+  }
+
+  private named(name: string | undefined): LLMProvider {
+    return (name !== undefined ? this.models.get(name) : undefined) ?? this.fallback;
+  }
+}
@@ -1,24 +1,33 @@
-import type { Store, LLMProvider, PromptTemplate, PromptVersion } from './types.js';
+import type { Store, LLMProvider, PromptTemplate, MemoryAccess } from './types.js';
+import { readScopes, writeScope, GLOBAL_SCOPE } from '../memory/scope.js';
 
 export class PromptManager {
   private readonly store: Store;
   private readonly llm?: LLMProvider;
+  private readonly access?: MemoryAccess;
 
-  constructor(store: Store, llm?: LLMProvider) {
+  /** Without `access` every scope is open, as it is to the agent itself. */
+  constructor(store: Store, llm?: LLMProvider, access?: MemoryAccess) {
     this.store = store;
     this.llm = llm;
+    this.access = access;
   }
 
-  async getPrompt(id: string, version?: number): Promise<string> {
+  /** Templates as seen by one caller, confined to the scopes it may use. */
+  withAccess(access: MemoryAccess | undefined): PromptManager {
+    return new PromptManager(this.store, this.llm, access);
+  }
+
+  async getPrompt(id: string, version?: number, scopes?: string[]): Promise<string> {
     if (!this.store.getPromptTemplate) throw new Error('Store does not support prompt operations');
 
-    const template = await this.store.getPromptTemplate(id);
+    const template = await this.store.getPromptTemplate(id, readScopes(scopes, this.access));
     if (!template) {
       throw new Error(`Prompt template ${id} not found`);
     }
 
     const v = version ?? template.latestVersion;
-    const promptVersion = await this.store.getPromptVersion!(id, v);
+    const promptVersion = await this.store.getPromptVersion!(id, v, template.scope ?? GLOBAL_SCOPE);
 
     if (!promptVersion) {
       throw new Error(`Prompt version ${v} for ${id} not found`);
@@ -27,16 +36,18 @@ export class PromptManager {
     return promptVersion.content;
   }
 
-  async createTemplate(id: string, description: string, initialContent: string): Promise<void> {
+  async createTemplate(id: string, description: string, initialContent: string, scope?: string): Promise<void> {
     if (!this.store.savePromptTemplate || !this.store.savePromptVersion) {
       throw new Error('Store does not support prompt operations');
     }
 
+    const target = writeScope(scope, this.access);
     const timestamp = Date.now();
     await this.store.savePromptTemplate({
       id,
       description,
       latestVersion: 1,
+      scope: target,
       createdAt: timestamp,
       updatedAt: timestamp
     });
@@ -44,6 +55,7 @@ export class PromptManager {
     await this.store.savePromptVersion({
       templateId: id,
       version: 1,
+      scope: target,
       content: initialContent,
       changelog: 'Initial creation',
       createdAt: timestamp,
@@ -56,10 +68,12 @@ export class PromptManager {
       throw new Error('Store does not support prompt operations');
     }
 
-    const template = await this.store.getPromptTemplate(id);
+    const template = await this.store.getPromptTemplate(id, readScopes(undefined, this.access));
     if (!template) {
       throw new Error(`Prompt template ${id} not found`);
     }
+    // Callers may change templates in their own user and session scopes; admins may change any
+    const scope = writeScope(template.scope ?? GLOBAL_SCOPE, this.access);
 
     const newVersion = template.latestVersion + 1;
     const timestamp = Date.now();
@@ -67,6 +81,7 @@ export class PromptManager {
     await this.store.savePromptVersion({
       templateId: id,
       version: newVersion,
+      scope,
       content,
       changelog,
       createdAt: timestamp,
@@ -102,8 +117,8 @@ export class PromptManager {
     return response.content;
   }
 
-  async listTemplates(): Promise<PromptTemplate[]> {
+  async listTemplates(scopes?: string[]): Promise<PromptTemplate[]> {
       if (!this.store.listPromptTemplates) return [];
-      return this.store.listPromptTemplates();
+      return this.store.listPromptTemplates(readScopes(scopes, this.access));
   }
 }
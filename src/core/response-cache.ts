@@ -0,0 +1,157 @@
+import { createHash } from 'crypto';
+import { ConfigurationError } from './errors.js';
+import { ToolCallAccumulator } from '../llm/stream.js';
+import type {
+  LLMProvider,
+  ChatMessage,
+  ChatOptions,
+  ChatResponse,
+  ChatChunk,
+  ResponseCacheConfig,
+  ResponseCacheStats,
+  Store,
+  ToolCall
+} from './types.js';
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Replays LLM responses for requests seen before. The key covers the
+ * provider, model, messages (without per-turn ids and timestamps), tools and
+ * sampling options, so any change to the request is a miss. Hits never reach
+ * the provider and so cost nothing. Cache errors count as misses; they never
+ * fail the request.
+ */
+export class ResponseCache {
+  private readonly stats: ResponseCacheStats = { hits: 0, misses: 0, writes: 0, bypassed: 0 };
+  private readonly ttlMs?: number;
+  private readonly maxEntries: number;
+
+  constructor(private readonly store: Store, config: ResponseCacheConfig = {}) {
+    if (!store.getCachedResponse || !store.putCachedResponse) {
+      throw new ConfigurationError('The LLM response cache needs a store with response cache support, such as SQLiteStore');
+    }
+    this.ttlMs = config.ttlMs;
+    this.maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  getStats(): ResponseCacheStats {
+    return { ...this.stats };
+  }
+
+  async clear(): Promise<number> {
+    return (await this.store.clearCachedResponses?.()) ?? 0;
+  }
+
+  /** Wraps a provider so its `chat`/`stream` calls go through the cache. */
+  wrap(llm: LLMProvider): LLMProvider {
+    const bypass = (): void => { this.stats.bypassed++; };
+    const keyFor = (messages: ChatMessage[], options?: ChatOptions): string => this.keyFor(llm, messages, options);
+    const lookup = (key: string): Promise<ChatResponse | undefined> => this.lookup(key);
+    const remember = (key: string, response: ChatResponse): Promise<void> => this.remember(key, response);
+    const cached: LLMProvider = {
+      get name(): string { return llm.name; },
+      get model(): string { return llm.model; },
+      get supportsTools(): boolean | undefined { return llm.supportsTools; },
+      get supportsVision(): boolean | undefined { return llm.supportsVision; },
+
+      async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+        if (options?.cache === false) {
+          bypass();
+          return llm.chat(messages, options);
+        }
+
+        const key = keyFor(messages, options);
+        const hit = await lookup(key);
+        if (hit) return hit;
+
+        const response = await llm.chat(messages, options);
+        await remember(key, response);
+        return response;
+      }
+    };
+
+    if (llm.stream) {
+      const stream = llm.stream.bind(llm);
+      cached.stream = async function* (messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk> {
+        if (options?.cache === false) {
+          bypass();
+          yield* stream(messages, options);
+          return;
+        }
+
+        const key = keyFor(messages, options);
+        const hit = await lookup(key);
+        if (hit) {
+          if (hit.content !== '') yield { content: hit.content };
+          for (const call of hit.toolCalls ?? []) yield { toolCalls: call };
+          yield { done: true };
+          return;
+        }
+
+        let content = '';
+        const pending = new ToolCallAccumulator();
+        for await (const chunk of stream(messages, options)) {
+          if (chunk.content !== undefined) content += chunk.content;
+          if (chunk.toolCalls) pending.add(chunk.toolCalls);
+          yield chunk;
+        }
+
+        let toolCalls: ToolCall[];
+        try {
+          toolCalls = pending.finish();
+        } catch {
+          return; // Calls that cannot be assembled are not worth replaying
+        }
+        await remember(key, { content, toolCalls: toolCalls.length > 0 ? toolCalls : undefined });
+      };
+    }
+    if (llm.embed) cached.embed = llm.embed.bind(llm);
+    if (llm.embedBatch) cached.embedBatch = llm.embedBatch.bind(llm);
+    if (llm.countTokens) cached.countTokens = llm.countTokens.bind(llm);
+    if (llm.countMessages) cached.countMessages = llm.countMessages.bind(llm);
+
+    return cached;
+  }
+
+  private keyFor(llm: LLMProvider, messages: ChatMessage[], options?: ChatOptions): string {
+    const request = {
+      provider: llm.name,
+      model: llm.model,
+      messages: messages.map(m => ({ role: m.role, content: m.content, parts: m.parts, toolCalls: m.toolCalls, toolCallId: m.toolCallId })),
+      tools: options?.tools,
+      maxTokens: options?.maxTokens,
+      temperature: options?.temperature,
+      stopSequences: options?.stopSequences,
+      responseFormat: options?.responseFormat
+    };
+    return createHash('sha256').update(JSON.stringify(request)).digest('hex');
+  }
+
+  private async lookup(key: string): Promise<ChatResponse | undefined> {
+    const entry = await this.store.getCachedResponse?.(key).catch(() => undefined);
+    if (entry) {
+      this.stats.hits++;
+      return entry.response;
+    }
+    this.stats.misses++;
+    return undefined;
+  }
+
+  private async remember(key: string, response: ChatResponse): Promise<void> {
+    const createdAt = Date.now();
+    const entry = {
+      key,
+      // Usage is left out: replaying a response costs nothing
+      response: { content: response.content, toolCalls: response.toolCalls },
+      createdAt,
+      expiresAt: this.ttlMs !== undefined ? createdAt + this.ttlMs : undefined
+    };
+    try {
+      await this.store.putCachedResponse?.(entry, this.maxEntries);
+      this.stats.writes++;
+    } catch {
+      // A cache that cannot be written is just a cache that misses
+    }
+  }
+}
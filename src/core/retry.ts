@@ -1,4 +1,4 @@
-import { isRetryable } from './errors.js';
+import { isRetryable, LLMRateLimitError } from './errors.js';
 import type { RetryConfig } from './types.js';
 
 export class Retrier {
@@ -21,7 +21,13 @@ export class Retrier {
           throw lastError;
         }
 
-        const delay = this.calculateDelay(attempt);
+        // A provider that said when to come back knows better than the backoff,
+        // but a wait past the cap is better spent on a fallback than asleep
+        const retryAfter = error instanceof LLMRateLimitError ? error.retryAfter : undefined;
+        if (retryAfter !== undefined && retryAfter > this.config.maxDelayMs) {
+          throw lastError;
+        }
+        const delay = retryAfter ?? this.calculateDelay(attempt);
         await new Promise(resolve => setTimeout(resolve, delay));
       }
     }
@@ -1,6 +1,28 @@
+import { requestStructuredOutput } from './json-schema.js';
 import type { VoltClawAgent } from './agent.js';
 import type { ToolDefinition } from './types.js';
 
+const TEST_PLAN_SCHEMA = {
+  type: 'object',
+  properties: {
+    cases: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          description: { type: 'string' },
+          input: { type: 'object' },
+          expectedOutcome: { type: 'string', enum: ['success', 'failure'] },
+          expectedError: { type: 'string' }
+        },
+        required: ['id', 'description', 'input', 'expectedOutcome']
+      }
+    }
+  },
+  required: ['cases']
+};
+
 export interface TestCase {
   id: string;
   tool: string;
@@ -53,14 +75,11 @@ Output valid JSON only.`;
     // Accessing private llm via any cast for now
     const llm = (this.agent as any).llm;
 
-    const response = await llm.chat([
-        { role: 'system', content: 'You are a QA engineer. Output valid JSON only.' },
-        { role: 'user', content: prompt }
-    ]);
-
     try {
-        const jsonStr = response.content.replace(/```json\n?|\n?```/g, '').trim();
-        const data = JSON.parse(jsonStr) as { cases: TestCase[] };
+        const data = await requestStructuredOutput(llm, [
+            { role: 'system', content: 'You are a QA engineer. Output valid JSON only.' },
+            { role: 'user', content: prompt }
+        ], TEST_PLAN_SCHEMA, { name: 'test_plan' }) as { cases: TestCase[] };
         return {
             tool: toolName,
             cases: data.cases.map((c: any) => ({
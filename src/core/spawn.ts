@@ -55,8 +55,11 @@ export class SpawnManager extends EventEmitter {
     try {
       if (!this.agent) return;
 
-      // Use a new session or distinct context
-      const result = await this.agent.query(`[BACKGROUND TASK ${id}] ${task}\nContext: ${JSON.stringify(context || {})}`);
+      // Each background task gets its own session so it neither waits on nor mixes with the caller's
+      const result = await this.agent.query(
+        `[BACKGROUND TASK ${id}] ${task}\nContext: ${JSON.stringify(context || {})}`,
+        { sessionId: `spawn:${id}` }
+      );
 
       taskInfo.status = 'completed';
       taskInfo.result = result;
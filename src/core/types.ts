@@ -18,6 +18,31 @@ export interface VoltClawAgentOptions {
   audit?: { path?: string };
   permissions?: PermissionConfig;
   rlm?: CodeExecConfig;
+  pricing?: Record<string, ModelPricing>;
+  router?: ModelRouterConfig;
+  failover?: (LLMProvider | LLMConfig)[]; // Tried in order when `llm` fails or its circuit is open
+  cache?: ResponseCacheConfig; // Opt-in; replays identical LLM requests from the store
+  embeddings?: EmbeddingProvider | LLMProvider | LLMConfig; // Memory embeddings; defaults to `llm` when it can embed
+}
+
+export interface ResponseCacheConfig {
+  ttlMs?: number; // Default: entries never expire
+  maxEntries?: number; // Least recently used entries beyond this are evicted (default: 1000)
+  store?: Store; // Defaults to the agent's store, which must implement the response cache methods
+}
+
+export interface CachedResponse {
+  key: string;
+  response: ChatResponse;
+  createdAt: number;
+  expiresAt?: number;
+}
+
+export interface ResponseCacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+  bypassed: number;
 }
 
 export interface CodeExecConfig {
@@ -53,15 +78,57 @@ export interface CircuitBreakerConfig {
 }
 
 export interface LLMConfig {
-  provider: 'ollama' | 'openai' | 'anthropic';
+  provider: 'ollama' | 'openai' | 'anthropic' | 'openai-compatible' | 'gemini';
   model: string;
   baseUrl?: string;
   apiKey?: string;
   rateLimit?: RateLimitConfig;
+  supportsTools?: boolean; // false: tools are described in the prompt and parsed from the reply text
+  supportsVision?: boolean; // false: images are replaced by a text placeholder
+  supportsResponseFormat?: boolean; // false: response formats are not sent; structured output relies on validation and repair
+  headers?: Record<string, string>; // Sent with every request, e.g. for a gateway
+}
+
+/**
+ * What a model is used for: `planner` runs root turns, `worker` runs
+ * sub-agents, `summarizer` compacts context and synthesizes sub-results,
+ * `extractor` pulls graph facts out of text.
+ */
+export type ModelRole = 'planner' | 'worker' | 'summarizer' | 'extractor';
+
+export interface ModelRouterConfig {
+  models: Record<string, LLMProvider | LLMConfig>; // Named providers; `llm` stays the default
+  roles?: Partial<Record<ModelRole, string>>;
+  depths?: Record<number, string>; // Model for sub-agents at this depth and deeper
+}
+
+/** A provider a failover chain gave up on, and why. */
+export interface FailoverAttempt {
+  provider: string;
+  model: string;
+  error: string;
+}
+
+export interface ProviderHealth {
+  provider: string;
+  model: string;
+  state: 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+  served: number;
+  failures: number;
+  lastError?: string;
+  lastServedAt?: number;
+}
+
+export interface ModelPricing {
+  promptPerMillion: number; // USD per 1M input tokens
+  completionPerMillion: number; // USD per 1M output tokens
 }
 
+/** Limits shared by every provider instance that talks to the same endpoint. */
 export interface RateLimitConfig {
-  maxPerMinute: number;
+  maxPerMinute?: number; // Requests per rolling minute
+  tokensPerMinute?: number; // Prompt plus max completion tokens per rolling minute
+  maxConcurrent?: number; // Requests in flight at once
 }
 
 export interface ChannelConfig {
@@ -78,6 +145,13 @@ export type TransportConfig = ChannelConfig;
 export interface PersistenceConfig {
   type: 'file' | 'sqlite' | 'memory';
   path?: string;
+  vectorIndex?: VectorIndexConfig | false; // SQLite only; on by default
+}
+
+export interface VectorIndexConfig {
+  m?: number; // Links per node and layer; layer 0 keeps twice as many
+  efConstruction?: number; // Candidates considered while linking a new node
+  efSearch?: number; // Candidates considered per query, raised to at least k
 }
 
 export interface CallConfig {
@@ -86,6 +160,9 @@ export interface CallConfig {
   budgetUSD?: number;
   timeoutMs?: number;
   largeResultThreshold?: number;
+  maxConcurrentTools?: number;
+  resumeInterrupted?: boolean; // Resume turns left unfinished by a previous process on start()
+  maxSchemaRepairs?: number; // Retries a sub-agent gets to fix output that fails its schema
 }
 
 export interface HistoryConfig {
@@ -93,6 +170,7 @@ export interface HistoryConfig {
   autoPruneInterval?: number;
   preserveLast?: number;
   contextWindowSize?: number;
+  maxContextTokens?: number; // Compact context by token count as well as by message count
 }
 
 export interface ToolsConfig {
@@ -128,6 +206,7 @@ export interface ReplyContext {
   content: string;
   timestamp: Date;
   inReplyTo?: string;
+  metadata?: Record<string, unknown>; // Attached by middleware
 }
 
 export interface CallContext {
@@ -151,6 +230,12 @@ export interface LogContext {
   timestamp: Date;
 }
 
+/**
+ * Runs around every inbound channel message. Code before `await next()` can
+ * rewrite `ctx.message` or reroute `ctx.session`; code after it sees and may
+ * rewrite `ctx.reply`. Setting `ctx.reply` without calling `next()` answers
+ * in place of the agent. Errors from the agent reject `next()`.
+ */
 export type Middleware = (
   ctx: MiddlewareContext,
   next: () => Promise<void>
@@ -161,7 +246,8 @@ export interface MiddlewareContext {
   message: string;
   reply?: string;
   session: Session;
-  metadata: Record<string, unknown>;
+  metadata: Record<string, unknown>; // Shared along the chain and passed on to onReply
+  meta?: MessageMeta; // As received from the channel
 }
 
 export interface Logger {
@@ -172,10 +258,18 @@ export interface Logger {
 }
 
 export interface QueryOptions {
+  sessionId?: string; // defaults to the agent's own 'self' session
   timeout?: number;
+  signal?: AbortSignal;
   metadata?: Record<string, unknown>;
 }
 
+// What a cancelled run had produced before it was stopped
+export interface PartialRunResult {
+  transcript: ChatMessage[];
+  subTasks: Array<{ subId: string; task: string; result?: string; error?: string }>;
+}
+
 export type Unsubscribe = () => void;
 
 export type EventMap = {
@@ -184,15 +278,36 @@ export type EventMap = {
   call: [CallContext];
   error: [ErrorContext];
   log: [LogContext];
+  event: [AgentStreamEvent, string]; // the event and the root session id of its call tree
   start: [];
   stop: [];
 };
 
+export type AgentStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'tool_call_start'; callId: string; name: string; arguments: Record<string, unknown>; sessionId?: string; depth: number }
+  | { type: 'tool_call_result'; callId: string; name: string; result: ToolCallResult; sessionId?: string; depth: number }
+  | { type: 'subtask_spawned'; subId: string; task: string; depth: number; parentId?: string }
+  | { type: 'subtask_log'; subId: string; message: string; level: 'info' | 'error' }
+  | { type: 'subtask_result'; subId: string; result?: unknown; error?: string } // result is parsed when the call had a schema
+  | { type: 'usage'; usage: TokenUsage; costUSD: number; sessionId?: string; estimated: boolean }
+  | { type: 'provider'; provider: string; model: string; failedOver: FailoverAttempt[]; sessionId?: string }
+  | { type: 'final'; content: string; usage?: TokenUsage; costUSD: number };
+
+/** A piece of multimodal message content. Images are base64-encoded; files are referenced by path. */
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data: string }
+  | { type: 'file'; path: string; mimeType?: string };
+
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
   content: string | null;
+  parts?: ContentPart[]; // Full content when it includes images or files; `content` then holds the text
   toolCalls?: ToolCall[];
   toolCallId?: string;
+  turnId?: string; // Set on messages persisted to session history
+  timestamp?: number;
 }
 
 export interface ToolCall {
@@ -205,23 +320,48 @@ export interface LLMProvider {
   readonly name: string;
   readonly model: string;
   readonly supportsTools?: boolean;
+  readonly supportsVision?: boolean;
   chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse>;
   stream?(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk>;
   embed?(text: string): Promise<number[]>;
+  embedBatch?(texts: string[]): Promise<number[][]>; // One request for many texts
   countTokens?(text: string): number;
+  countMessages?(messages: ChatMessage[], tools?: ToolDefinition[]): number; // Prompt tokens a request would use
+}
+
+/**
+ * A piece of a streamed tool call. Pieces with the same `index` belong to one
+ * call; `argumentsDelta` holds raw JSON appended in order until the stream ends.
+ */
+export interface ToolCallDelta extends Partial<ToolCall> {
+  index?: number;
+  argumentsDelta?: string;
 }
 
 export interface ChatChunk {
   content?: string;
-  toolCalls?: Partial<ToolCall>;
+  toolCalls?: ToolCallDelta;
   done?: boolean;
+  usage?: TokenUsage;
 }
 
+/**
+ * Asks the provider for a JSON reply: any JSON object, or one matching
+ * `schema`. Providers without a native mode ignore it, so callers still
+ * validate the reply.
+ */
+export type ResponseFormat =
+  | { type: 'json' }
+  | { type: 'json_schema'; schema: Record<string, unknown>; name?: string };
+
 export interface ChatOptions {
   tools?: ToolDefinition[];
   maxTokens?: number;
   temperature?: number;
   stopSequences?: string[];
+  signal?: AbortSignal;
+  cache?: boolean; // false skips the response cache for this request
+  responseFormat?: ResponseFormat;
 }
 
 export interface ChatResponse {
@@ -270,29 +410,36 @@ export interface Store {
   load(): Promise<void>;
   save(): Promise<void>;
   clear(): void;
+  deleteSession?(key: string): Promise<void>;
   // Optional MemoryStore interface methods
   createMemory?(entry: Omit<MemoryEntry, 'id' | 'timestamp'>): Promise<string>;
   searchMemories?(query: MemoryQuery): Promise<MemoryEntry[]>;
   updateMemory?(id: string, updates: Partial<MemoryEntry>): Promise<void>;
   removeMemory?(id: string): Promise<void>;
   exportMemories?(): Promise<MemoryEntry[]>;
+  getStaleEmbeddings?(model: string, limit: number): Promise<MemoryEntry[]>; // Unembedded or embedded by another model
   consolidateMemories?(): Promise<void>;
+  rebuildVectorIndex?(): Promise<number>; // Returns the number of memories indexed
   // Graph methods
   addGraphNode?(node: GraphNode): Promise<void>;
   addGraphEdge?(edge: GraphEdge): Promise<void>;
-  getGraphNode?(id: string): Promise<GraphNode | undefined>;
+  getGraphNode?(id: string, scopes?: string[]): Promise<GraphNode | undefined>; // Prefers a scoped node over a global one
   getGraphEdges?(query: GraphQuery): Promise<GraphEdge[]>;
-  searchGraphNodes?(query: string): Promise<GraphNode[]>;
+  searchGraphNodes?(query: string, scopes?: string[]): Promise<GraphNode[]>;
   // Prompt methods
-  getPromptTemplate?(id: string): Promise<PromptTemplate | undefined>;
+  getPromptTemplate?(id: string, scopes?: string[]): Promise<PromptTemplate | undefined>; // Prefers a scoped template over a global one
   savePromptTemplate?(template: PromptTemplate): Promise<void>;
-  getPromptVersion?(templateId: string, version: number): Promise<PromptVersion | undefined>;
+  getPromptVersion?(templateId: string, version: number, scope?: string): Promise<PromptVersion | undefined>;
   savePromptVersion?(version: PromptVersion): Promise<void>;
-  listPromptTemplates?(): Promise<PromptTemplate[]>;
+  listPromptTemplates?(scopes?: string[]): Promise<PromptTemplate[]>;
   // Scheduler methods
   scheduleTask?(task: ScheduledTask): Promise<void>;
   getScheduledTasks?(): Promise<ScheduledTask[]>;
   deleteScheduledTask?(id: string): Promise<void>;
+  // LLM response cache methods
+  getCachedResponse?(key: string): Promise<CachedResponse | undefined>;
+  putCachedResponse?(entry: CachedResponse, maxEntries?: number): Promise<void>;
+  clearCachedResponses?(): Promise<number>;
 }
 
 export interface ScheduledTask {
@@ -308,6 +455,7 @@ export interface PromptTemplate {
   id: string;
   description: string;
   latestVersion: number;
+  scope?: string; // Defaults to 'global'
   createdAt: number;
   updatedAt: number;
 }
@@ -315,6 +463,7 @@ export interface PromptTemplate {
 export interface PromptVersion {
   templateId: string;
   version: number;
+  scope?: string; // The template's scope; defaults to 'global'
   content: string;
   changelog?: string;
   metrics?: {
@@ -326,8 +475,9 @@ export interface PromptVersion {
 }
 
 export interface GraphNode {
-  id: string; // Entity name or unique ID
+  id: string; // Entity name or unique ID, unique within a scope
   label: string; // Type of entity (e.g., Person, Place)
+  scope?: string; // Defaults to 'global'
   metadata?: Record<string, unknown>;
   createdAt: number;
   updatedAt: number;
@@ -339,6 +489,7 @@ export interface GraphEdge {
   target: string; // Node ID
   relation: string; // e.g., KNOWS, LOCATED_IN
   weight?: number; // 0.0-1.0
+  scope?: string; // Defaults to 'global'
   metadata?: Record<string, unknown>;
   createdAt: number;
 }
@@ -347,9 +498,18 @@ export interface GraphQuery {
   source?: string;
   target?: string;
   relation?: string;
+  scopes?: string[]; // Edges in any of these scopes; all scopes when unset
   limit?: number;
 }
 
+/** Turns text into vectors for memory search. Any `LLMProvider` with `embed` is one. */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  embed(text: string): Promise<number[]>;
+  embedBatch?(texts: string[]): Promise<number[][]>;
+}
+
 export interface MemoryEntry {
   id: string;
   type: 'working' | 'long_term' | 'episodic';
@@ -357,48 +517,127 @@ export interface MemoryEntry {
   lastAccess: number;
   content: string;
   embedding?: number[];
+  embeddingModel?: string; // `provider/model` that produced the embedding
   tags?: string[];
   importance?: number;
   timestamp: number;
   expiresAt?: number;
   contextId?: string;
+  scope?: string; // Who may recall it: 'global', 'user:<identity>' or 'session:<rootId>'; defaults to 'global'
   metadata?: Record<string, unknown>;
+  score?: number; // Ranking score of a search result, higher is better
+  snippet?: string; // Excerpt of a text search hit, matched words in **bold**
 }
 
 export interface MemoryQuery {
   id?: string;
   type?: MemoryEntry['type'];
   level?: number;
-  tags?: string[];
-  content?: string; // Simple text search
+  tags?: string[]; // Memories carrying every one of these tags
+  content?: string; // Full-text search, ranked; blended with `embedding` when both are given
   embedding?: number[]; // Vector search
+  embeddingModel?: string; // Only vectors from this model are compared
   contextId?: string;
+  scopes?: string[]; // Memories in any of these scopes; all scopes when unset
   limit?: number;
   offset?: number;
+  ranking?: MemoryRanking;
+}
+
+/**
+ * Who is reading or writing memory. Everyone sees global memories plus their
+ * own user and session scopes; admins may also ask for any other scope.
+ */
+export interface MemoryAccess {
+  user?: string; // Caller's identity: a pubkey or channel user id
+  session?: string; // Root session of the call tree
+  admin?: boolean;
+}
+
+/** Weights of the signals a text search blends into one score. */
+export interface MemoryRanking {
+  text?: number; // BM25 relevance, relative to the best hit
+  vector?: number; // Cosine similarity to the query embedding
+  importance?: number; // Importance, out of 10
+  recency?: number; // Halves every `recencyHalfLifeMs` since the memory was stored
+  recencyHalfLifeMs?: number;
 }
 
 export interface Session {
   id?: string;
   parentId?: string;
   rootId?: string;
+  caller?: string; // Identity whose message started this call tree; unset when the agent started it
   sharedData?: Record<string, unknown>;
   history: ChatMessage[];
   callCount: number;
   estCostUSD: number;
   actualTokensUsed: number;
+  tokenUsage?: TokenUsage; // Prompt/completion split of actualTokensUsed
   subTasks: Record<string, SubTaskInfo>;
+  callTree?: Record<string, CallNode>; // Kept on root sessions only, keyed by subId
+  checkpoint?: RunCheckpoint; // Set while a turn is in flight
+  budgetUSD?: number; // Spend cap a caller gave this sub-agent's subtree; roots use call.budgetUSD
+  model?: string; // Router model the caller asked this sub-agent to run on
+  responseFormat?: ResponseFormat; // Set on sub-agents whose caller gave a schema
   depth: number;
   topLevelStartedAt: number;
 }
 
+/** Where an unfinished turn stood after its last completed step. */
+export interface RunCheckpoint {
+  turnId: string;
+  from: string; // 'self' for query(), otherwise the channel peer awaiting the reply
+  depth: number;
+  messages: ChatMessage[];
+  pendingToolCalls?: ToolCall[]; // Requested by the model, results not yet recorded
+  updatedAt: number;
+}
+
+export type CallNodeStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled' | 'timeout';
+
+export interface CallNode {
+  subId: string;
+  parentId: string; // Session id of the caller
+  rootId: string;
+  depth: number;
+  task: string;
+  status: CallNodeStatus;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  costUSD: number;
+  tokens: number;
+  budgetUSD?: number;
+  error?: string;
+}
+
+/** Spend of one node of a call tree, as reported by BudgetExceededError. */
+export interface BudgetBreakdownEntry {
+  sessionId: string;
+  task?: string; // Absent for the root
+  depth: number;
+  costUSD: number; // Including everything the node called
+  budgetUSD?: number;
+  calls: number;
+}
+
+export interface SessionSummary {
+  id: string;
+  messageCount: number;
+  estCostUSD: number;
+  lastActivityAt?: number;
+}
+
 export interface SubTaskInfo {
   createdAt: number;
   task: string;
   schema?: Record<string, unknown> | string;
   arrived: boolean;
   result?: string;
+  data?: unknown; // `result` parsed and validated against `schema`
   error?: string;
-  resolve?: (value: string) => void;
+  resolve?: (value: unknown) => void;
   reject?: (error: Error) => void;
   timer?: ReturnType<typeof setTimeout>;
 }
@@ -407,10 +646,12 @@ export interface Tool {
   name: string;
   description: string;
   parameters?: ToolParameters;
-  execute: (args: Record<string, unknown>, agent?: any, session?: any, from?: string) => Promise<ToolCallResult> | ToolCallResult;
+  execute: (args: Record<string, unknown>, agent?: any, session?: any, from?: string, signal?: AbortSignal) => Promise<ToolCallResult> | ToolCallResult;
   maxDepth?: number;
   costMultiplier?: number;
   requiredRoles?: Role[];
+  // Calls sharing a key never run at the same time; tools without one run concurrently
+  concurrencyKey?: string | ((args: Record<string, unknown>) => string | undefined);
 }
 
 export interface ToolParameters {
@@ -438,7 +679,8 @@ export interface ToolCallResult {
   [key: string]: unknown;
   error?: string;
   status?: string;
-  result?: string;
+  result?: unknown; // Parsed value for sub-agent calls made with a schema
+  parts?: ContentPart[]; // Images or files sent to the model beside the JSON result
   subId?: string;
   depth?: number;
   estCost?: number;
@@ -1,3 +1,5 @@
+import type { ChatMessage } from './types.js';
+
 export class AsyncMutex {
   private queue: Array<() => void> = [];
   private locked = false;
@@ -27,3 +29,139 @@ export class AsyncMutex {
     }
   }
 }
+
+/**
+ * Settles with `promise`, or rejects with the signal's reason as soon as
+ * `signal` aborts. The underlying work is not stopped; callers that can
+ * should also pass the signal down.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortReason(signal));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+export function abortReason(signal: AbortSignal): Error {
+  const reason: unknown = signal.reason;
+  return reason instanceof Error ? reason : new Error(String(reason ?? 'Aborted'));
+}
+
+/**
+ * Maps `items` through `fn` with at most `limit` calls in flight, returning
+ * results in input order. Items that share a `keyOf` value run one after
+ * another in their original order.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  keyOf: (item: T) => string | undefined = () => undefined
+): Promise<R[]> {
+  const lanes: number[][] = [];
+  const keyed = new Map<string, number[]>();
+  items.forEach((item, index) => {
+    const key = keyOf(item);
+    if (key === undefined) {
+      lanes.push([index]);
+      return;
+    }
+    let lane = keyed.get(key);
+    if (!lane) {
+      lane = [];
+      keyed.set(key, lane);
+      lanes.push(lane);
+    }
+    lane.push(index);
+  });
+
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < lanes.length) {
+      const lane = lanes[next++] ?? [];
+      for (const index of lane) {
+        results[index] = await fn(items[index] as T, index);
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, lanes.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Unbounded queue that producers push into and a single consumer drains with
+ * `for await`. Iteration ends after `close()`, or throws the error passed to it.
+ */
+export class AsyncQueue<T> implements AsyncIterable<T> {
+  private readonly items: T[] = [];
+  private closed = false;
+  private error?: Error;
+  private notify?: () => void;
+
+  push(item: T): void {
+    if (this.closed) return;
+    this.items.push(item);
+    this.wake();
+  }
+
+  close(error?: Error): void {
+    this.closed = true;
+    this.error = error;
+    this.wake();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    while (true) {
+      if (this.items.length > 0) {
+        yield this.items.shift() as T;
+        continue;
+      }
+      if (this.closed) {
+        if (this.error) throw this.error;
+        return;
+      }
+      await new Promise<void>(resolve => {
+        this.notify = resolve;
+      });
+    }
+  }
+
+  private wake(): void {
+    const notify = this.notify;
+    this.notify = undefined;
+    notify?.();
+  }
+}
+
+/**
+ * The last `max` messages, cut where no tool result is separated from the
+ * assistant message that called it. Results whose call would fall outside
+ * are left out; if nothing but such results would remain, the cut moves back
+ * to take their call along instead.
+ */
+export function trimHistory(messages: ChatMessage[], max: number): ChatMessage[] {
+  const cut = Math.max(0, messages.length - max);
+  let start = cut;
+  while (messages[start]?.role === 'tool') start++;
+  if (start >= messages.length) {
+    start = cut;
+    while (start > 0 && messages[start]?.role === 'tool') start--;
+  }
+  return messages.slice(start);
+}
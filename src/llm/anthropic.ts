@@ -4,8 +4,13 @@ import type {
   ChatResponse,
   ChatOptions,
   LLMProviderConfig,
-  ChatChunk
+  ChatChunk,
+  ContentPart,
+  ResponseFormat,
+  TokenUsage
 } from './types.js';
+import { ToolCallAccumulator, readEventData } from './stream.js';
+import { contentParts, describePart } from './content.js';
 
 interface AnthropicResponse {
   content: Array<AnthropicTextContent | AnthropicToolUseContent>;
@@ -27,15 +32,45 @@ interface AnthropicToolUseContent {
   input: Record<string, unknown>;
 }
 
-type AnthropicContent = 
+// One `data:` event of a streamed message, loosely typed across event kinds
+interface AnthropicStreamEvent {
+  type: string;
+  index?: number;
+  message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+  content_block?: { type: string; text?: string; id?: string; name?: string };
+  delta?: { type: string; text?: string; partial_json?: string };
+  usage?: { output_tokens?: number };
+  error?: { message?: string };
+}
+
+type AnthropicMedia =
   | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } };
+
+type AnthropicContent = 
+  | AnthropicMedia
   | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
-  | { type: 'tool_result'; tool_use_id: string; content: string | null };
+  | { type: 'tool_result'; tool_use_id: string; content: string | null | AnthropicMedia[] };
+
+const OUTPUT_TOOL = 'structured_output';
+
+// Tool input must be an object, so other schemas are wrapped in one
+function outputSchema(format: ResponseFormat): Record<string, unknown> {
+  if (format.type === 'json') return { type: 'object', properties: {} };
+  if (format.schema['type'] === 'object') return format.schema;
+  return { type: 'object', properties: { value: format.schema }, required: ['value'] };
+}
+
+function outputText(format: ResponseFormat, input: Record<string, unknown>): string {
+  const wrapped = format.type === 'json_schema' && format.schema['type'] !== 'object';
+  return JSON.stringify(wrapped ? input['value'] : input);
+}
 
 export class AnthropicProvider extends BaseLLMProvider {
   readonly name = 'anthropic';
   readonly model: string;
-  readonly supportsTools = true;
+  readonly supportsTools: boolean;
+  readonly supportsVision: boolean;
   
   private baseUrl: string;
   private apiKey: string;
@@ -43,6 +78,8 @@ export class AnthropicProvider extends BaseLLMProvider {
   constructor(config: LLMProviderConfig) {
     super(config);
     this.model = config.model;
+    this.supportsTools = config.supportsTools ?? true;
+    this.supportsVision = config.supportsVision ?? true;
     this.baseUrl = config.baseUrl ?? 'https://api.anthropic.com/v1';
     this.apiKey = config.apiKey ?? '';
     
@@ -52,201 +89,191 @@ export class AnthropicProvider extends BaseLLMProvider {
   }
 
   async *stream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk> {
-    await this.checkRateLimit();
+    const release = await this.checkRateLimit(messages, options);
+    let promptTokens = 0;
+    let completionTokens = 0;
+    try {
+      const systemMessage = messages.find(m => m.role === 'system');
+      const nonSystemMessages = messages.filter(m => m.role !== 'system');
+
+      const body: Record<string, unknown> = {
+        model: this.model,
+        messages: nonSystemMessages.map(m => this.formatMessage(m)),
+        max_tokens: options?.maxTokens ?? 4096,
+        stream: true
+      };
 
-    const systemMessage = messages.find(m => m.role === 'system');
-    const nonSystemMessages = messages.filter(m => m.role !== 'system');
+      if (systemMessage?.content) {
+        body['system'] = systemMessage.content;
+      }
 
-    const toolDefs = options?.tools?.map(t => ({
-      name: t.name,
-      description: t.description,
-      input_schema: t.parameters ?? { type: 'object' as const, properties: {} }
-    }));
+      this.addTools(body, options);
+
+      const response = await fetch(`${this.baseUrl}/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': '2023-06-01'
+        },
+        body: JSON.stringify(body),
+        signal: options?.signal
+      });
+
+      this.checkRateLimitHeaders(response);
+      if (!response.ok) {
+          const errorText = await response.text().catch(() => 'Unable to read error');
+          throw new Error(`Anthropic stream error: ${response.status} ${response.statusText} - ${errorText}`);
+      }
 
-    const body: Record<string, unknown> = {
-      model: this.model,
-      messages: nonSystemMessages.map(m => this.formatMessage(m)),
-      max_tokens: options?.maxTokens ?? 4096,
-      stream: true
-    };
+      if (!response.body) throw new Error('No response body');
 
-    if (systemMessage?.content) {
-      body['system'] = systemMessage.content;
-    }
+      const toolCalls = new ToolCallAccumulator();
 
-    if (toolDefs && toolDefs.length > 0) {
-      body['tools'] = toolDefs;
-    }
+      for await (const data of readEventData(response.body)) {
+        let event: AnthropicStreamEvent;
+        try {
+          event = JSON.parse(data) as AnthropicStreamEvent;
+        } catch {
+          continue;
+        }
 
-    const response = await fetch(`${this.baseUrl}/messages`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': this.apiKey,
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify(body)
-    });
+        if (event.type === 'message_start') {
+          promptTokens = event.message?.usage?.input_tokens ?? 0;
+          completionTokens = event.message?.usage?.output_tokens ?? 0;
+        } else if (event.type === 'content_block_start') {
+          const block = event.content_block;
+          if (block?.type === 'text' && block.text !== undefined && block.text !== '') {
+            yield { content: block.text };
+          } else if (block?.type === 'tool_use') {
+            toolCalls.add({ index: event.index, id: block.id, name: block.name });
+          }
+        } else if (event.type === 'content_block_delta') {
+          if (event.delta?.type === 'text_delta' && event.delta.text !== undefined) {
+            yield { content: event.delta.text };
+          } else if (event.delta?.type === 'input_json_delta') {
+            toolCalls.add({ index: event.index, argumentsDelta: event.delta.partial_json });
+          }
+        } else if (event.type === 'message_delta') {
+          completionTokens = event.usage?.output_tokens ?? completionTokens;
+        } else if (event.type === 'error') {
+          throw new Error(`Anthropic stream error: ${event.error?.message ?? 'unknown error'}`);
+        }
+      }
 
-    if (!response.ok) {
-        const errorText = await response.text().catch(() => 'Unable to read error');
-        throw new Error(`Anthropic stream error: ${response.status} ${response.statusText} - ${errorText}`);
+      for (const call of toolCalls.finish()) {
+        if (options?.responseFormat && call.name === OUTPUT_TOOL) {
+          yield { content: outputText(options.responseFormat, call.arguments) };
+        } else {
+          yield { toolCalls: call };
+        }
+      }
+      yield { done: true, usage: { promptTokens, completionTokens } };
+    } finally {
+      release({ promptTokens, completionTokens });
     }
+  }
 
-    if (!response.body) throw new Error('No response body');
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+    const release = await this.checkRateLimit(messages, options);
+    let usage: TokenUsage | undefined;
+    try {
+      const systemMessage = messages.find(m => m.role === 'system');
+      const nonSystemMessages = messages.filter(m => m.role !== 'system');
+
+      const body: Record<string, unknown> = {
+        model: this.model,
+        messages: nonSystemMessages.map(m => this.formatMessage(m)),
+        max_tokens: options?.maxTokens ?? 4096
+      };
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
+      if (systemMessage?.content) {
+        body['system'] = systemMessage.content;
+      }
 
-    let currentBlockIndex = -1;
-    let currentBlockType = '';
-    const toolCallBuffer: Record<number, { id: string; name: string; arguments: string }> = {};
+      this.addTools(body, options);
+
+      const response = await fetch(`${this.baseUrl}/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': '2023-06-01'
+        },
+        body: JSON.stringify(body),
+        signal: options?.signal
+      });
+
+      this.checkRateLimitHeaders(response);
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unable to read error');
+        throw new Error(`Anthropic error: ${response.status} ${response.statusText} - ${errorText}`);
+      }
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+      const data = await response.json() as AnthropicResponse;
 
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
+      const textContent = data.content
+        .filter((c): c is AnthropicTextContent => c.type === 'text')
+        .map(c => c.text)
+        .join('');
 
-      for (const line of lines) {
-        if (!line.startsWith('data: ')) continue;
+      const format = options?.responseFormat;
+      const allToolUse = data.content.filter((c): c is AnthropicToolUseContent => c.type === 'tool_use');
+      const output = format ? allToolUse.find(c => c.name === OUTPUT_TOOL) : undefined;
+      const toolUseContent = allToolUse.filter(c => c !== output);
 
-        const dataStr = line.slice(6);
-        try {
-            const data = JSON.parse(dataStr);
-            const type = data.type;
-
-            if (type === 'content_block_start') {
-                currentBlockIndex = data.index;
-                if (data.content_block.type === 'text') {
-                    currentBlockType = 'text';
-                    if (data.content_block.text) {
-                        yield { content: data.content_block.text };
-                    }
-                } else if (data.content_block.type === 'tool_use') {
-                    currentBlockType = 'tool_use';
-                    toolCallBuffer[currentBlockIndex] = {
-                        id: data.content_block.id,
-                        name: data.content_block.name,
-                        arguments: ''
-                    };
-                }
-            } else if (type === 'content_block_delta') {
-                if (currentBlockType === 'text' && data.delta.type === 'text_delta') {
-                    yield { content: data.delta.text };
-                } else if (currentBlockType === 'tool_use' && data.delta.type === 'input_json_delta') {
-                    const buffered = toolCallBuffer[currentBlockIndex];
-                    if (buffered) {
-                        buffered.arguments += data.delta.partial_json;
-                    }
-                }
-            } else if (type === 'content_block_stop') {
-                if (currentBlockType === 'tool_use') {
-                    const buffered = toolCallBuffer[currentBlockIndex];
-                    if (buffered) {
-                        try {
-                             yield {
-                                 toolCalls: {
-                                     id: buffered.id,
-                                     name: buffered.name,
-                                     arguments: JSON.parse(buffered.arguments)
-                                 }
-                             };
-                        } catch (e) {
-                             // Ignore
-                        }
-                    }
-                }
-                currentBlockType = '';
-            }
-        } catch (e) {
-            // Ignore
-        }
+      const result: ChatResponse = {
+        content: format && output ? outputText(format, output.input) : textContent
+      };
+    
+      if (toolUseContent.length > 0) {
+        result.toolCalls = toolUseContent.map(c => ({
+          id: c.id,
+          name: c.name,
+          arguments: c.input
+        }));
       }
+    
+      if (data.usage) {
+        result.usage = {
+          promptTokens: data.usage.input_tokens,
+          completionTokens: data.usage.output_tokens
+        };
+      }
+    
+      usage = result.usage;
+      return result;
+    } finally {
+      release(usage);
     }
   }
 
-  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
-    await this.checkRateLimit();
-
-    const systemMessage = messages.find(m => m.role === 'system');
-    const nonSystemMessages = messages.filter(m => m.role !== 'system');
-
-    const toolDefs = options?.tools?.map(t => ({
+  // Anthropic has no JSON mode: a forced call to an output tool, whose input is the reply, stands in for one
+  private addTools(body: Record<string, unknown>, options?: ChatOptions): void {
+    const toolDefs: Array<{ name: string; description: string; input_schema: unknown }> = (options?.tools ?? []).map(t => ({
       name: t.name,
       description: t.description,
-      input_schema: t.parameters ?? { type: 'object' as const, properties: {} }
+      input_schema: t.parameters ?? { type: 'object', properties: {} }
     }));
 
-    const body: Record<string, unknown> = {
-      model: this.model,
-      messages: nonSystemMessages.map(m => this.formatMessage(m)),
-      max_tokens: options?.maxTokens ?? 4096
-    };
-
-    if (systemMessage?.content) {
-      body['system'] = systemMessage.content;
+    const format = options?.responseFormat;
+    if (format) {
+      toolDefs.push({
+        name: OUTPUT_TOOL,
+        description: 'Give your final answer as the input of this tool.',
+        input_schema: outputSchema(format)
+      });
+      // With other tools on offer the model may still call those first
+      body['tool_choice'] = toolDefs.length > 1 ? { type: 'any' } : { type: 'tool', name: OUTPUT_TOOL };
     }
 
-    if (toolDefs && toolDefs.length > 0) {
+    if (toolDefs.length > 0) {
       body['tools'] = toolDefs;
     }
-
-    const response = await fetch(`${this.baseUrl}/messages`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': this.apiKey,
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify(body)
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unable to read error');
-      throw new Error(`Anthropic error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-
-    const data = await response.json() as AnthropicResponse;
-
-    const textContent = data.content
-      .filter((c): c is AnthropicTextContent => c.type === 'text')
-      .map(c => c.text)
-      .join('');
-
-    const toolUseContent = data.content.filter((c): c is AnthropicToolUseContent => c.type === 'tool_use');
-
-    const result: ChatResponse = {
-      content: textContent
-    };
-    
-    if (toolUseContent.length > 0) {
-      result.toolCalls = toolUseContent.map(c => ({
-        id: c.id,
-        name: c.name,
-        arguments: c.input
-      }));
-    }
-    
-    if (data.usage) {
-      result.usage = {
-        promptTokens: data.usage.input_tokens,
-        completionTokens: data.usage.output_tokens
-      };
-    }
-    
-    return result;
   }
 
   private formatMessage(msg: ChatMessage): Record<string, unknown> {
-    const content: AnthropicContent[] = [];
-    
-    if (msg.content) {
-      content.push({ type: 'text', text: msg.content });
-    }
+    const content: AnthropicContent[] = this.formatParts(contentParts(msg));
     
     if (msg.toolCalls) {
       for (const tc of msg.toolCalls) {
@@ -265,7 +292,7 @@ export class AnthropicProvider extends BaseLLMProvider {
         content: [{
           type: 'tool_result',
           tool_use_id: msg.toolCallId,
-          content: msg.content
+          content: msg.parts ? this.formatParts(msg.parts) : msg.content
         }]
       };
     }
@@ -275,4 +302,14 @@ export class AnthropicProvider extends BaseLLMProvider {
       content
     };
   }
+
+  private formatParts(parts: ContentPart[]): AnthropicMedia[] {
+    // Anthropic rejects empty text blocks
+    return parts.filter(part => part.type !== 'text' || part.text !== '').map(part => {
+      if (part.type === 'image' && this.supportsVision) {
+        return { type: 'image', source: { type: 'base64', media_type: part.mimeType, data: part.data } };
+      }
+      return { type: 'text', text: describePart(part) };
+    });
+  }
 }
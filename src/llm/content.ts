@@ -0,0 +1,24 @@
+import type { ChatMessage, ContentPart } from './types.js';
+
+/** The message as content parts; a plain message is a single text part. */
+export function contentParts(message: ChatMessage): ContentPart[] {
+  if (message.parts) return message.parts;
+  return message.content !== null && message.content !== '' ? [{ type: 'text', text: message.content }] : [];
+}
+
+/** The parts of a message that are not text. */
+export function attachmentsOf(message: ChatMessage): ContentPart[] {
+  return message.parts?.filter(part => part.type !== 'text') ?? [];
+}
+
+/** Text followed by attachments, or undefined when there are no attachments. */
+export function withAttachments(text: string, attachments: ContentPart[]): ContentPart[] | undefined {
+  return attachments.length > 0 ? [{ type: 'text', text }, ...attachments] : undefined;
+}
+
+/** Text standing in for a part the provider cannot send natively. */
+export function describePart(part: ContentPart): string {
+  if (part.type === 'text') return part.text;
+  if (part.type === 'image') return `[image (${part.mimeType}) omitted: this model does not accept images]`;
+  return part.mimeType !== undefined ? `[file: ${part.path} (${part.mimeType})]` : `[file: ${part.path}]`;
+}
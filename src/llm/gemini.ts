@@ -0,0 +1,312 @@
+import { BaseLLMProvider } from './provider.js';
+import type {
+  ChatMessage,
+  ChatResponse,
+  ChatOptions,
+  LLMProviderConfig,
+  ChatChunk,
+  ContentPart,
+  TokenUsage,
+  ToolCall
+} from './types.js';
+import { ToolCallAccumulator, readEventData } from './stream.js';
+import { attachmentsOf, contentParts, describePart } from './content.js';
+
+interface GeminiPart {
+  text?: string;
+  thought?: boolean; // Reasoning summaries from thinking models, not part of the reply
+  inlineData?: { mimeType: string; data: string };
+  functionCall?: { id?: string; name: string; args?: Record<string, unknown> };
+  functionResponse?: { name: string; response: Record<string, unknown> };
+}
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+// Both `generateContent` replies and each `streamGenerateContent` event
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: { parts?: GeminiPart[] };
+    finishReason?: string;
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  promptFeedback?: { blockReason?: string };
+}
+
+// Gemini takes an OpenAPI subset of JSON Schema and rejects keys outside it
+const UNSUPPORTED_SCHEMA_KEYS = new Set(['$schema', '$id', 'additionalProperties']);
+
+function geminiSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(geminiSchema);
+  if (schema === null || typeof schema !== 'object') return schema;
+  return Object.fromEntries(Object.entries(schema)
+    .filter(([key]) => !UNSUPPORTED_SCHEMA_KEYS.has(key))
+    .map(([key, value]) => [key, geminiSchema(value)]));
+}
+
+// `functionResponse.response` must be an object
+function toolResponse(content: string | null): Record<string, unknown> {
+  let parsed: unknown = content;
+  try {
+    parsed = JSON.parse(content ?? '');
+  } catch {
+    // Plain-text result
+  }
+  return parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)
+    ? parsed as Record<string, unknown>
+    : { result: parsed };
+}
+
+function usageOf(metadata: GeminiResponse['usageMetadata']): TokenUsage | undefined {
+  if (!metadata) return undefined;
+  return {
+    promptTokens: metadata.promptTokenCount ?? 0,
+    completionTokens: metadata.candidatesTokenCount ?? 0,
+    totalTokens: metadata.totalTokenCount
+  };
+}
+
+export class GeminiProvider extends BaseLLMProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  readonly supportsTools: boolean;
+  readonly supportsVision: boolean;
+  readonly supportsResponseFormat: boolean;
+
+  private baseUrl: string;
+  private apiKey: string;
+  private headers: Record<string, string>;
+
+  constructor(config: LLMProviderConfig) {
+    super(config);
+    this.model = config.model;
+    this.supportsTools = config.supportsTools ?? true;
+    this.supportsVision = config.supportsVision ?? true;
+    this.supportsResponseFormat = config.supportsResponseFormat ?? true;
+    this.baseUrl = config.baseUrl ?? 'https://generativelanguage.googleapis.com/v1beta';
+    this.apiKey = config.apiKey ?? '';
+    this.headers = config.headers ?? {};
+
+    if (!this.apiKey) {
+      throw new Error('Gemini API key is required');
+    }
+  }
+
+  async *stream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk> {
+    const release = await this.checkRateLimit(messages, options);
+    let usage: TokenUsage | undefined;
+    try {
+      const response = await fetch(`${this.baseUrl}/models/${this.model}:streamGenerateContent?alt=sse`, {
+        method: 'POST',
+        headers: this.requestHeaders(),
+        body: JSON.stringify(this.requestBody(messages, options)),
+        signal: options?.signal
+      });
+
+      this.checkRateLimitHeaders(response);
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unable to read error');
+        throw new Error(`Gemini stream error: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+
+      if (!response.body) throw new Error('No response body');
+
+      // Gemini sends each function call whole, never in fragments
+      const toolCalls = new ToolCallAccumulator();
+
+      for await (const data of readEventData(response.body)) {
+        let event: GeminiResponse;
+        try {
+          event = JSON.parse(data) as GeminiResponse;
+        } catch {
+          continue;
+        }
+
+        usage = usageOf(event.usageMetadata) ?? usage;
+        for (const part of event.candidates?.[0]?.content?.parts ?? []) {
+          if (part.functionCall) {
+            toolCalls.add({ id: part.functionCall.id, name: part.functionCall.name, arguments: part.functionCall.args ?? {} });
+          } else if (part.text !== undefined && part.text !== '' && part.thought !== true) {
+            yield { content: part.text };
+          }
+        }
+      }
+
+      for (const call of toolCalls.finish()) {
+        yield { toolCalls: call };
+      }
+      yield { done: true, usage };
+    } finally {
+      release(usage);
+    }
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+    const release = await this.checkRateLimit(messages, options);
+    let usage: TokenUsage | undefined;
+    try {
+      const response = await fetch(`${this.baseUrl}/models/${this.model}:generateContent`, {
+        method: 'POST',
+        headers: this.requestHeaders(),
+        body: JSON.stringify(this.requestBody(messages, options)),
+        signal: options?.signal
+      });
+
+      this.checkRateLimitHeaders(response);
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unable to read error');
+        throw new Error(`Gemini error: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+
+      const data = await response.json() as GeminiResponse;
+      const candidate = data.candidates?.[0];
+      if (!candidate) {
+        throw new Error(`No response from Gemini${data.promptFeedback?.blockReason !== undefined ? ` (blocked: ${data.promptFeedback.blockReason})` : ''}`);
+      }
+
+      const parts = candidate.content?.parts ?? [];
+      const result: ChatResponse = {
+        content: parts.filter(p => p.thought !== true).map(p => p.text ?? '').join('')
+      };
+
+      const toolCalls = parts.flatMap(p => p.functionCall ? [this.parseToolCall(p.functionCall)] : []);
+      if (toolCalls.length > 0) {
+        result.toolCalls = toolCalls;
+      }
+
+      result.usage = usageOf(data.usageMetadata);
+      usage = result.usage;
+      return result;
+    } finally {
+      release(usage);
+    }
+  }
+
+  private requestHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-goog-api-key': this.apiKey,
+      ...this.headers
+    };
+  }
+
+  private requestBody(messages: ChatMessage[], options?: ChatOptions): Record<string, unknown> {
+    const system = messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content ?? '')
+      .join('\n\n');
+    const tools = options?.tools ?? [];
+
+    const generationConfig: Record<string, unknown> = {
+      temperature: options?.temperature,
+      maxOutputTokens: options?.maxTokens,
+      stopSequences: options?.stopSequences
+    };
+    // Gemini rejects a JSON response type alongside function declarations
+    const format = options?.responseFormat;
+    if (format && this.supportsResponseFormat && tools.length === 0) {
+      generationConfig['responseMimeType'] = 'application/json';
+      if (format.type === 'json_schema') generationConfig['responseSchema'] = geminiSchema(format.schema);
+    }
+
+    const body: Record<string, unknown> = {
+      contents: this.formatContents(messages.filter(m => m.role !== 'system')),
+      generationConfig
+    };
+
+    if (system !== '') {
+      body['systemInstruction'] = { parts: [{ text: system }] };
+    }
+
+    if (tools.length > 0) {
+      body['tools'] = [{
+        functionDeclarations: tools.map(t => ({
+          name: t.name,
+          description: t.description,
+          // An object schema without properties is rejected, so parameterless tools send none
+          parameters: t.parameters && Object.keys(t.parameters.properties).length > 0 ? geminiSchema(t.parameters) : undefined
+        }))
+      }];
+    }
+
+    return body;
+  }
+
+  // Results are matched to calls by function name, and consecutive turns of one role are merged
+  private formatContents(messages: ChatMessage[]): GeminiContent[] {
+    const names = new Map<string, string>();
+    const contents: GeminiContent[] = [];
+
+    for (const msg of messages) {
+      const role = msg.role === 'assistant' ? 'model' : 'user';
+      const parts: GeminiPart[] = [];
+
+      if (msg.role === 'tool') {
+        const name = names.get(msg.toolCallId ?? '') ?? 'tool';
+        parts.push({ functionResponse: { name, response: toolResponse(msg.content) } });
+        parts.push(...attachmentsOf(msg).map(part => this.formatPart(part)));
+      } else {
+        parts.push(...contentParts(msg).map(part => this.formatPart(part)));
+        for (const call of msg.toolCalls ?? []) {
+          names.set(call.id, call.name);
+          parts.push({ functionCall: { name: call.name, args: call.arguments } });
+        }
+      }
+
+      if (parts.length === 0) continue;
+      const last = contents[contents.length - 1];
+      if (last?.role === role) {
+        last.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    }
+    return contents;
+  }
+
+  private formatPart(part: ContentPart): GeminiPart {
+    if (part.type === 'image' && this.supportsVision) {
+      return { inlineData: { mimeType: part.mimeType, data: part.data } };
+    }
+    return { text: describePart(part) };
+  }
+
+  private parseToolCall(call: NonNullable<GeminiPart['functionCall']>): ToolCall {
+    return {
+      id: call.id ?? `tc_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      name: call.name,
+      arguments: call.args ?? {}
+    };
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+    if (!embedding) throw new Error('Gemini embedding error: empty response');
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const model = this.model.startsWith('gemini-') ? 'text-embedding-004' : this.model;
+    const response = await fetch(`${this.baseUrl}/models/${model}:batchEmbedContents`, {
+      method: 'POST',
+      headers: this.requestHeaders(),
+      body: JSON.stringify({
+        requests: texts.map(text => ({ model: `models/${model}`, content: { parts: [{ text }] } }))
+      })
+    });
+
+    this.checkRateLimitHeaders(response);
+    if (!response.ok) {
+      throw new Error(`Gemini embedding error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as { embeddings: Array<{ values: number[] }> };
+    return data.embeddings.map(e => e.values);
+  }
+}
@@ -15,5 +15,21 @@ export {
 export { OllamaProvider } from './ollama.js';
 export { OpenAIProvider } from './openai.js';
 export { AnthropicProvider } from './anthropic.js';
+export { OpenAICompatibleProvider } from './openai-compatible.js';
+export { GeminiProvider } from './gemini.js';
+export { TextToolProvider, renderToolPrompt, parseToolCalls } from './text-tools.js';
+export { ToolCallAccumulator, readLines, readEventData } from './stream.js';
+export { RateLimiter, sharedRateLimiter, retryDelayMs, quotaResetMs, type RateLimitPermit } from './rate-limit.js';
+export { contentParts, attachmentsOf, withAttachments, describePart } from './content.js';
+export {
+  type Tokenizer,
+  BpeTokenizer,
+  EstimatingTokenizer,
+  TiktokenTokenizer,
+  registerTokenizer,
+  tokenizerFor,
+  countMessageTokens
+} from './tokenizer.js';
+export { MODEL_PRICING, DEFAULT_PRICING, getModelPricing, calculateCostUSD, type ModelPricing } from './pricing.js';
 
 export * from './types.js';
@@ -4,12 +4,17 @@ import type {
   ChatResponse,
   ChatOptions,
   LLMProviderConfig,
-  ChatChunk
+  ChatChunk,
+  TokenUsage,
+  ResponseFormat
 } from './types.js';
+import { ToolCallAccumulator, readLines } from './stream.js';
+import { describePart } from './content.js';
 
 interface OllamaToolCall {
   id?: string;
   function?: {
+    index?: number; // Set by servers that stream one call across chunks
     name?: string;
     arguments?: string | Record<string, unknown>;
   };
@@ -26,157 +31,185 @@ interface OllamaResponse {
   };
   content?: string;
   tool_calls?: OllamaToolCall[];
+  prompt_eval_count?: number; // Streaming usage, on the final chunk
+  eval_count?: number;
+}
+
+// Ollama takes 'json' or a JSON Schema
+function formatResponse(format?: ResponseFormat): unknown {
+  if (!format) return undefined;
+  return format.type === 'json' ? 'json' : format.schema;
 }
 
 export class OllamaProvider extends BaseLLMProvider {
   readonly name = 'ollama';
   readonly model: string;
-  readonly supportsTools = true;
+  readonly supportsTools: boolean;
+  readonly supportsVision: boolean;
   
   private baseUrl: string;
 
   constructor(config: LLMProviderConfig) {
     super(config);
     this.model = config.model;
+    this.supportsTools = config.supportsTools ?? true;
+    this.supportsVision = config.supportsVision ?? true;
     this.baseUrl = config.baseUrl ?? 'http://localhost:11434';
   }
 
   async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
-    await this.checkRateLimit();
-
-    const toolDefs = options?.tools?.map(t => ({
-      type: 'function' as const,
-      function: {
-        name: t.name,
-        description: t.description,
-        parameters: t.parameters ?? { type: 'object' as const, properties: {} }
-      }
-    }));
+    const release = await this.checkRateLimit(messages, options);
+    let usage: TokenUsage | undefined;
+    try {
+      const toolDefs = options?.tools?.map(t => ({
+        type: 'function' as const,
+        function: {
+          name: t.name,
+          description: t.description,
+          parameters: t.parameters ?? { type: 'object' as const, properties: {} }
+        }
+      }));
 
-    const body: Record<string, unknown> = {
-      model: this.model,
-      messages: messages.map(m => this.formatMessage(m)),
-      stream: false,
-      options: {
-        temperature: options?.temperature,
-        num_predict: options?.maxTokens
-      }
-    };
+      const body: Record<string, unknown> = {
+        model: this.model,
+        messages: messages.map(m => this.formatMessage(m)),
+        stream: false,
+        format: formatResponse(options?.responseFormat),
+        options: {
+          temperature: options?.temperature,
+          num_predict: options?.maxTokens
+        }
+      };
 
-    if (toolDefs && toolDefs.length > 0) {
-      body['tools'] = toolDefs;
-    }
+      if (toolDefs && toolDefs.length > 0) {
+        body['tools'] = toolDefs;
+      }
 
-    const response = await fetch(`${this.baseUrl}/api/chat`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(body)
-    });
+      const response = await fetch(`${this.baseUrl}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: options?.signal
+      });
 
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unable to read error');
+      this.checkRateLimitHeaders(response);
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unable to read error');
       
-      if (errorText.includes('does not support tools')) {
-        return this.chatWithoutTools(messages, options);
-      }
+        if (errorText.includes('does not support tools')) {
+          return this.chatWithoutTools(messages, options);
+        }
       
-      throw new Error(`Ollama error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
+        throw new Error(`Ollama error: ${response.status} ${response.statusText} - ${errorText}`);
+      }
 
-    const data = await response.json() as OllamaResponse;
-    const message = data.message ?? { content: data.content, tool_calls: data.tool_calls };
+      const data = await response.json() as OllamaResponse;
+      const message = data.message ?? { content: data.content, tool_calls: data.tool_calls };
     
-    const result: ChatResponse = {
-      content: message.content ?? ''
-    };
+      const result: ChatResponse = {
+        content: message.content ?? ''
+      };
     
-    if (message.tool_calls && message.tool_calls.length > 0) {
-      result.toolCalls = message.tool_calls.map(tc => this.parseToolCall(tc));
-    }
+      if (message.tool_calls && message.tool_calls.length > 0) {
+        result.toolCalls = message.tool_calls.map(tc => this.parseToolCall(tc));
+      }
     
-    if (data.usage) {
-      result.usage = {
-        promptTokens: data.usage.prompt_tokens ?? 0,
-        completionTokens: data.usage.completion_tokens ?? 0
-      };
-    }
+      if (data.usage) {
+        result.usage = {
+          promptTokens: data.usage.prompt_tokens ?? 0,
+          completionTokens: data.usage.completion_tokens ?? 0
+        };
+      }
     
-    return result;
+      usage = result.usage;
+      return result;
+    } finally {
+      release(usage);
+    }
   }
 
   async *stream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk> {
-    const body: Record<string, unknown> = {
-      model: this.model,
-      messages: messages.map(m => this.formatMessage(m)),
-      stream: true,
-      options: {
-        temperature: options?.temperature,
-        num_predict: options?.maxTokens
-      }
-    };
-
-    if (options?.tools && options.tools.length > 0) {
-      body['tools'] = options.tools.map(t => ({
-        type: 'function' as const,
-        function: {
-          name: t.name,
-          description: t.description,
-          parameters: t.parameters ?? { type: 'object' as const, properties: {} }
+    const release = await this.checkRateLimit(messages, options);
+    let usage: TokenUsage | undefined;
+    try {
+      const body: Record<string, unknown> = {
+        model: this.model,
+        messages: messages.map(m => this.formatMessage(m)),
+        stream: true,
+        format: formatResponse(options?.responseFormat),
+        options: {
+          temperature: options?.temperature,
+          num_predict: options?.maxTokens
         }
-      }));
-    }
+      };
 
-    const response = await fetch(`${this.baseUrl}/api/chat`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(body)
-    });
+      if (options?.tools && options.tools.length > 0) {
+        body['tools'] = options.tools.map(t => ({
+          type: 'function' as const,
+          function: {
+            name: t.name,
+            description: t.description,
+            parameters: t.parameters ?? { type: 'object' as const, properties: {} }
+          }
+        }));
+      }
 
-    if (!response.ok) {
-      throw new Error(`Ollama stream error: ${response.status} ${response.statusText}`);
-    }
+      const response = await fetch(`${this.baseUrl}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: options?.signal
+      });
 
-    if (!response.body) throw new Error('No response body');
+      this.checkRateLimitHeaders(response);
+      if (!response.ok) {
+        throw new Error(`Ollama stream error: ${response.status} ${response.statusText}`);
+      }
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
+      if (!response.body) throw new Error('No response body');
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+      const toolCalls = new ToolCallAccumulator();
 
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
+      for await (const line of readLines(response.body)) {
+        if (line.trim() === '') continue;
 
-      for (const line of lines) {
-        if (!line.trim()) continue;
+        let data: OllamaResponse & { done?: boolean };
         try {
-          const data = JSON.parse(line) as OllamaResponse & { done?: boolean };
+          data = JSON.parse(line) as OllamaResponse & { done?: boolean };
+        } catch {
+          continue;
+        }
 
-          if (data.done) {
-            yield { done: true };
-            return;
-          }
+        const message = data.message;
+        if (message?.content !== undefined && message.content !== '') {
+          yield { content: message.content };
+        }
+        for (const tc of message?.tool_calls ?? []) {
+          const args = tc.function?.arguments;
+          toolCalls.add({
+            index: tc.function?.index,
+            id: tc.id,
+            name: tc.function?.name,
+            arguments: typeof args === 'object' ? args : undefined,
+            argumentsDelta: typeof args === 'string' ? args : undefined
+          });
+        }
 
-          const message = data.message;
-          if (message) {
-            if (message.content) {
-              yield { content: message.content };
-            }
-            if (message.tool_calls) {
-                for (const tc of message.tool_calls) {
-                    yield {
-                        toolCalls: this.parseToolCall(tc)
-                    };
-                }
-            }
-          }
-        } catch (e) {
-          // ignore
+        if (data.done === true) {
+          usage = {
+            promptTokens: data.prompt_eval_count ?? 0,
+            completionTokens: data.eval_count ?? 0
+          };
+          break;
         }
       }
+
+      for (const call of toolCalls.finish()) {
+        yield { toolCalls: call };
+      }
+      yield { done: true, usage };
+    } finally {
+      release(usage);
     }
   }
 
@@ -185,6 +218,7 @@ export class OllamaProvider extends BaseLLMProvider {
       model: this.model,
       messages: messages.map(m => this.formatMessage(m)),
       stream: false,
+      format: formatResponse(options?.responseFormat),
       options: {
         temperature: options?.temperature,
         num_predict: options?.maxTokens
@@ -194,9 +228,11 @@ export class OllamaProvider extends BaseLLMProvider {
     const response = await fetch(`${this.baseUrl}/api/chat`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(body)
+      body: JSON.stringify(body),
+      signal: options?.signal
     });
 
+    this.checkRateLimitHeaders(response);
     if (!response.ok) {
       throw new Error(`Ollama error: ${response.status} ${response.statusText}`);
     }
@@ -223,6 +259,16 @@ export class OllamaProvider extends BaseLLMProvider {
       role: msg.role,
       content: msg.content ?? ''
     };
+
+    // Ollama takes images as a list of base64 strings beside the text
+    if (msg.parts) {
+      const images = this.supportsVision ? msg.parts.flatMap(part => part.type === 'image' ? [part.data] : []) : [];
+      formatted['content'] = msg.parts
+        .filter(part => part.type !== 'image' || !this.supportsVision)
+        .map(part => describePart(part))
+        .join('\n');
+      if (images.length > 0) formatted['images'] = images;
+    }
     
     if (msg.toolCalls) {
       formatted['tool_calls'] = msg.toolCalls.map(tc => ({
@@ -262,6 +308,7 @@ export class OllamaProvider extends BaseLLMProvider {
       body: JSON.stringify(body)
     });
 
+    this.checkRateLimitHeaders(response);
     if (!response.ok) {
         throw new Error(`Ollama embedding error: ${response.status} ${response.statusText}`);
     }
@@ -269,4 +316,20 @@ export class OllamaProvider extends BaseLLMProvider {
     const data = await response.json() as { embedding: number[] };
     return data.embedding;
   }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.model, input: texts })
+    });
+
+    this.checkRateLimitHeaders(response);
+    if (!response.ok) {
+        throw new Error(`Ollama embedding error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as { embeddings: number[][] };
+    return data.embeddings;
+  }
 }
@@ -0,0 +1,23 @@
+import { OpenAIProvider } from './openai.js';
+import type { LLMProviderConfig } from './types.js';
+
+/**
+ * Any server that speaks the OpenAI chat completions API, such as llama.cpp,
+ * vLLM, LM Studio or a hosted gateway. The API key is optional, `headers` go
+ * out with every request, and the `supports*` flags turn off what the server
+ * cannot do.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  override readonly name: string = 'openai-compatible';
+
+  constructor(config: LLMProviderConfig) {
+    if (config.baseUrl === undefined || config.baseUrl === '') {
+      throw new Error('OpenAI-compatible provider needs a baseUrl, e.g. http://localhost:8080/v1');
+    }
+    super(config);
+  }
+
+  protected override get requiresApiKey(): boolean {
+    return false;
+  }
+}
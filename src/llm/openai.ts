@@ -4,9 +4,14 @@ import type {
   ChatResponse,
   ChatOptions,
   ToolCall,
+  TokenUsage,
   LLMProviderConfig,
-  ChatChunk
+  ChatChunk,
+  ContentPart,
+  ResponseFormat
 } from './types.js';
+import { ToolCallAccumulator, readEventData } from './stream.js';
+import { attachmentsOf, describePart } from './content.js';
 
 interface OpenAIResponse {
   choices: Array<{
@@ -22,6 +27,26 @@ interface OpenAIResponse {
   };
 }
 
+// One `data:` event of a streamed completion; the final one carries only usage
+interface OpenAIStreamEvent {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  } | null;
+}
+
 interface OpenAIToolCall {
   id: string;
   function: {
@@ -30,206 +55,240 @@ interface OpenAIToolCall {
   };
 }
 
+function formatResponse(format: ResponseFormat): Record<string, unknown> {
+  if (format.type === 'json') return { type: 'json_object' };
+  return { type: 'json_schema', json_schema: { name: format.name ?? 'response', schema: format.schema } };
+}
+
 export class OpenAIProvider extends BaseLLMProvider {
-  readonly name = 'openai';
+  readonly name: string = 'openai';
   readonly model: string;
-  readonly supportsTools = true;
+  readonly supportsTools: boolean;
+  readonly supportsVision: boolean;
+  readonly supportsResponseFormat: boolean;
   
-  private baseUrl: string;
-  private apiKey: string;
+  protected readonly baseUrl: string;
+  protected readonly apiKey: string;
+  private readonly headers: Record<string, string>;
 
   constructor(config: LLMProviderConfig) {
     super(config);
     this.model = config.model;
+    this.supportsTools = config.supportsTools ?? true;
+    this.supportsVision = config.supportsVision ?? true;
+    this.supportsResponseFormat = config.supportsResponseFormat ?? true;
     this.baseUrl = config.baseUrl ?? 'https://api.openai.com/v1';
     this.apiKey = config.apiKey ?? '';
+    this.headers = config.headers ?? {};
     
-    if (!this.apiKey) {
+    if (!this.apiKey && this.requiresApiKey) {
       throw new Error('OpenAI API key is required');
     }
   }
 
-  async *stream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk> {
-    await this.checkRateLimit();
-
-    const toolDefs = options?.tools?.map(t => ({
-      type: 'function' as const,
-      function: {
-        name: t.name,
-        description: t.description,
-        parameters: t.parameters ?? { type: 'object' as const, properties: {} }
-      }
-    }));
+  protected get requiresApiKey(): boolean {
+    return true;
+  }
 
-    const body: Record<string, unknown> = {
-      model: this.model,
-      messages: messages.map(m => this.formatMessage(m)),
-      temperature: options?.temperature,
-      max_tokens: options?.maxTokens,
-      stream: true
+  private requestHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey !== '' ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+      ...this.headers
     };
+  }
 
-    if (toolDefs && toolDefs.length > 0) {
-      body['tools'] = toolDefs;
-    }
+  async *stream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk> {
+    const release = await this.checkRateLimit(messages, options);
+    let usage: TokenUsage | undefined;
+    try {
+      const toolDefs = options?.tools?.map(t => ({
+        type: 'function' as const,
+        function: {
+          name: t.name,
+          description: t.description,
+          parameters: t.parameters ?? { type: 'object' as const, properties: {} }
+        }
+      }));
 
-    if (options?.stopSequences) {
-      body['stop'] = options.stopSequences;
-    }
+      const body: Record<string, unknown> = {
+        model: this.model,
+        messages: this.formatMessages(messages),
+        temperature: options?.temperature,
+        max_tokens: options?.maxTokens,
+        stream: true,
+        stream_options: { include_usage: true }
+      };
 
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`
-      },
-      body: JSON.stringify(body)
-    });
+      if (toolDefs && toolDefs.length > 0) {
+        body['tools'] = toolDefs;
+      }
 
-    if (!response.ok) {
-        const errorText = await response.text().catch(() => 'Unable to read error');
-        throw new Error(`OpenAI stream error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
+      if (options?.stopSequences) {
+        body['stop'] = options.stopSequences;
+      }
 
-    if (!response.body) throw new Error('No response body');
+      if (options?.responseFormat && this.supportsResponseFormat) {
+        body['response_format'] = formatResponse(options.responseFormat);
+      }
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
-    const toolCallBuffer: Record<number, { id?: string; name?: string; arguments: string }> = {};
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.requestHeaders(),
+        body: JSON.stringify(body),
+        signal: options?.signal
+      });
+
+      this.checkRateLimitHeaders(response);
+      if (!response.ok) {
+          const errorText = await response.text().catch(() => 'Unable to read error');
+          throw new Error(`OpenAI stream error: ${response.status} ${response.statusText} - ${errorText}`);
+      }
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+      if (!response.body) throw new Error('No response body');
 
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
+      const toolCalls = new ToolCallAccumulator();
 
-      for (const line of lines) {
-        if (line.trim() === '') continue;
-        if (line.trim() === 'data: [DONE]') return;
-        if (!line.startsWith('data: ')) continue;
+      for await (const data of readEventData(response.body)) {
+        if (data === '[DONE]') break;
 
-        const dataStr = line.slice(6);
+        let event: OpenAIStreamEvent;
         try {
-            const data = JSON.parse(dataStr);
-            const choice = data.choices[0];
-            if (!choice) continue;
-
-            const delta = choice.delta;
-            if (delta.content) {
-                yield { content: delta.content };
-            }
-
-            if (delta.tool_calls) {
-                for (const tc of delta.tool_calls) {
-                    const index = tc.index;
-                    if (!toolCallBuffer[index]) {
-                        toolCallBuffer[index] = { arguments: '' };
-                    }
-                    if (tc.id) toolCallBuffer[index].id = tc.id;
-                    if (tc.function?.name) toolCallBuffer[index].name = tc.function.name;
-                    if (tc.function?.arguments) toolCallBuffer[index].arguments += tc.function.arguments;
-                }
-            }
-
-            if (choice.finish_reason === 'tool_calls' || (choice.finish_reason && Object.keys(toolCallBuffer).length > 0)) {
-                for (const index of Object.keys(toolCallBuffer)) {
-                    const buffered = toolCallBuffer[Number(index)];
-                    if (buffered && buffered.id && buffered.name) {
-                         try {
-                             yield {
-                                 toolCalls: {
-                                     id: buffered.id,
-                                     name: buffered.name,
-                                     arguments: JSON.parse(buffered.arguments)
-                                 }
-                             };
-                         } catch (e) {
-                             // Ignore
-                         }
-                    }
-                }
-            }
-        } catch (e) {
-            // Ignore
+          event = JSON.parse(data) as OpenAIStreamEvent;
+        } catch {
+          continue;
+        }
+
+        if (event.usage) {
+          usage = {
+            promptTokens: event.usage.prompt_tokens,
+            completionTokens: event.usage.completion_tokens,
+            totalTokens: event.usage.total_tokens
+          };
+        }
+
+        const delta = event.choices?.[0]?.delta;
+        if (typeof delta?.content === 'string' && delta.content !== '') {
+          yield { content: delta.content };
+        }
+        for (const tc of delta?.tool_calls ?? []) {
+          toolCalls.add({ index: tc.index, id: tc.id, name: tc.function?.name, argumentsDelta: tc.function?.arguments });
         }
       }
+
+      for (const call of toolCalls.finish()) {
+        yield { toolCalls: call };
+      }
+      yield { done: true, usage };
+    } finally {
+      release(usage);
     }
   }
 
   async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
-    await this.checkRateLimit();
-
-    const toolDefs = options?.tools?.map(t => ({
-      type: 'function' as const,
-      function: {
-        name: t.name,
-        description: t.description,
-        parameters: t.parameters ?? { type: 'object' as const, properties: {} }
+    const release = await this.checkRateLimit(messages, options);
+    let usage: TokenUsage | undefined;
+    try {
+      const toolDefs = options?.tools?.map(t => ({
+        type: 'function' as const,
+        function: {
+          name: t.name,
+          description: t.description,
+          parameters: t.parameters ?? { type: 'object' as const, properties: {} }
+        }
+      }));
+
+      const body: Record<string, unknown> = {
+        model: this.model,
+        messages: this.formatMessages(messages),
+        temperature: options?.temperature,
+        max_tokens: options?.maxTokens
+      };
+
+      if (toolDefs && toolDefs.length > 0) {
+        body['tools'] = toolDefs;
       }
-    }));
 
-    const body: Record<string, unknown> = {
-      model: this.model,
-      messages: messages.map(m => this.formatMessage(m)),
-      temperature: options?.temperature,
-      max_tokens: options?.maxTokens
-    };
+      if (options?.stopSequences) {
+        body['stop'] = options.stopSequences;
+      }
 
-    if (toolDefs && toolDefs.length > 0) {
-      body['tools'] = toolDefs;
-    }
+      if (options?.responseFormat && this.supportsResponseFormat) {
+        body['response_format'] = formatResponse(options.responseFormat);
+      }
 
-    if (options?.stopSequences) {
-      body['stop'] = options.stopSequences;
-    }
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.requestHeaders(),
+        body: JSON.stringify(body),
+        signal: options?.signal
+      });
 
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`
-      },
-      body: JSON.stringify(body)
-    });
+      this.checkRateLimitHeaders(response);
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unable to read error');
+        throw new Error(`OpenAI error: ${response.status} ${response.statusText} - ${errorText}`);
+      }
 
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unable to read error');
-      throw new Error(`OpenAI error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
+      const data = await response.json() as OpenAIResponse;
 
-    const data = await response.json() as OpenAIResponse;
+      const choice = data.choices[0];
+      if (!choice) {
+        throw new Error('No response from OpenAI');
+      }
 
-    const choice = data.choices[0];
-    if (!choice) {
-      throw new Error('No response from OpenAI');
+      const result: ChatResponse = {
+        content: choice.message?.content ?? ''
+      };
+    
+      if (choice.message?.tool_calls && choice.message.tool_calls.length > 0) {
+        result.toolCalls = choice.message.tool_calls.map(tc => this.parseToolCall(tc));
+      }
+    
+      if (data.usage) {
+        result.usage = {
+          promptTokens: data.usage.prompt_tokens,
+          completionTokens: data.usage.completion_tokens,
+          totalTokens: data.usage.total_tokens
+        };
+      }
+    
+      usage = result.usage;
+      return result;
+    } finally {
+      release(usage);
     }
+  }
 
-    const result: ChatResponse = {
-      content: choice.message?.content ?? ''
+  // Tool results can only be text, so their images follow in a user message
+  private formatMessages(messages: ChatMessage[]): Record<string, unknown>[] {
+    const formatted: Record<string, unknown>[] = [];
+    let forwarded: ContentPart[] = [];
+    const flush = (): void => {
+      if (forwarded.length === 0) return;
+      formatted.push({
+        role: 'user',
+        content: this.formatParts([{ type: 'text', text: 'Attachments from the tool results above:' }, ...forwarded])
+      });
+      forwarded = [];
     };
-    
-    if (choice.message?.tool_calls && choice.message.tool_calls.length > 0) {
-      result.toolCalls = choice.message.tool_calls.map(tc => this.parseToolCall(tc));
-    }
-    
-    if (data.usage) {
-      result.usage = {
-        promptTokens: data.usage.prompt_tokens,
-        completionTokens: data.usage.completion_tokens,
-        totalTokens: data.usage.total_tokens
-      };
+
+    for (const msg of messages) {
+      if (msg.role === 'tool') {
+        forwarded.push(...attachmentsOf(msg));
+      } else {
+        flush();
+      }
+      formatted.push(this.formatMessage(msg));
     }
-    
-    return result;
+    flush();
+    return formatted;
   }
 
   private formatMessage(msg: ChatMessage): Record<string, unknown> {
     const formatted: Record<string, unknown> = {
       role: msg.role === 'tool' ? 'tool' : msg.role,
-      content: msg.content
+      content: msg.role === 'user' && msg.parts ? this.formatParts(msg.parts) : msg.content
     };
     
     if (msg.toolCalls) {
@@ -250,6 +309,15 @@ export class OpenAIProvider extends BaseLLMProvider {
     return formatted;
   }
 
+  private formatParts(parts: ContentPart[]): Array<Record<string, unknown>> {
+    return parts.map(part => {
+      if (part.type === 'image' && this.supportsVision) {
+        return { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } };
+      }
+      return { type: 'text', text: describePart(part) };
+    });
+  }
+
   private parseToolCall(tc: OpenAIToolCall): ToolCall {
     return {
       id: tc.id,
@@ -259,25 +327,29 @@ export class OpenAIProvider extends BaseLLMProvider {
   }
 
   async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+    if (!embedding) throw new Error('OpenAI embedding error: empty response');
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
     const body: Record<string, unknown> = {
       model: this.model.startsWith('gpt-') ? 'text-embedding-3-small' : this.model,
-      input: text
+      input: texts
     };
 
     const response = await fetch(`${this.baseUrl}/embeddings`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`
-      },
+      headers: this.requestHeaders(),
       body: JSON.stringify(body)
     });
 
+    this.checkRateLimitHeaders(response);
     if (!response.ok) {
         throw new Error(`OpenAI embedding error: ${response.status} ${response.statusText}`);
     }
 
-    const data = await response.json() as { data: [{ embedding: number[] }] };
-    return data.data[0].embedding;
+    const data = await response.json() as { data: Array<{ index: number; embedding: number[] }> };
+    return [...data.data].sort((a, b) => a.index - b.index).map(d => d.embedding);
   }
 }
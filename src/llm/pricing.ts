@@ -0,0 +1,70 @@
+import type { TokenUsage, ModelPricing } from './types.js';
+
+export type { ModelPricing };
+
+// Keyed by model name prefix; the longest matching prefix wins.
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  // OpenAI
+  'gpt-4o-mini': { promptPerMillion: 0.15, completionPerMillion: 0.6 },
+  'gpt-4o': { promptPerMillion: 2.5, completionPerMillion: 10 },
+  'gpt-4.1-nano': { promptPerMillion: 0.1, completionPerMillion: 0.4 },
+  'gpt-4.1-mini': { promptPerMillion: 0.4, completionPerMillion: 1.6 },
+  'gpt-4.1': { promptPerMillion: 2, completionPerMillion: 8 },
+  'gpt-4-turbo': { promptPerMillion: 10, completionPerMillion: 30 },
+  'gpt-4': { promptPerMillion: 30, completionPerMillion: 60 },
+  'gpt-3.5-turbo': { promptPerMillion: 0.5, completionPerMillion: 1.5 },
+  'o1-mini': { promptPerMillion: 1.1, completionPerMillion: 4.4 },
+  'o1': { promptPerMillion: 15, completionPerMillion: 60 },
+  'o3-mini': { promptPerMillion: 1.1, completionPerMillion: 4.4 },
+  'o3': { promptPerMillion: 2, completionPerMillion: 8 },
+  // Anthropic
+  'claude-3-haiku': { promptPerMillion: 0.25, completionPerMillion: 1.25 },
+  'claude-3-5-haiku': { promptPerMillion: 0.8, completionPerMillion: 4 },
+  'claude-haiku-4': { promptPerMillion: 1, completionPerMillion: 5 },
+  'claude-3-sonnet': { promptPerMillion: 3, completionPerMillion: 15 },
+  'claude-3-5-sonnet': { promptPerMillion: 3, completionPerMillion: 15 },
+  'claude-3-7-sonnet': { promptPerMillion: 3, completionPerMillion: 15 },
+  'claude-sonnet-4': { promptPerMillion: 3, completionPerMillion: 15 },
+  'claude-3-opus': { promptPerMillion: 15, completionPerMillion: 75 },
+  'claude-opus-4': { promptPerMillion: 15, completionPerMillion: 75 },
+  // Google
+  'gemini-1.5-flash': { promptPerMillion: 0.075, completionPerMillion: 0.3 },
+  'gemini-1.5-pro': { promptPerMillion: 1.25, completionPerMillion: 5 },
+  'gemini-2.0-flash-lite': { promptPerMillion: 0.075, completionPerMillion: 0.3 },
+  'gemini-2.0-flash': { promptPerMillion: 0.1, completionPerMillion: 0.4 },
+  'gemini-2.5-flash': { promptPerMillion: 0.3, completionPerMillion: 2.5 },
+  'gemini-2.5-pro': { promptPerMillion: 1.25, completionPerMillion: 10 }
+};
+
+// Used for hosted models missing from the table so spend is never silently zero.
+export const DEFAULT_PRICING: ModelPricing = { promptPerMillion: 3, completionPerMillion: 15 };
+
+// Providers that run locally and cost nothing per token. OpenAI-compatible
+// servers are usually self-hosted; price paid gateways through `pricing`.
+const FREE_PROVIDERS = new Set(['ollama', 'openai-compatible', 'mock']);
+
+export function getModelPricing(
+  provider: string,
+  model: string,
+  overrides: Record<string, ModelPricing> = {}
+): ModelPricing {
+  const table = { ...MODEL_PRICING, ...overrides };
+
+  let best: { prefix: string; pricing: ModelPricing } | undefined;
+  for (const [prefix, pricing] of Object.entries(table)) {
+    if (model.startsWith(prefix) && (best === undefined || prefix.length > best.prefix.length)) {
+      best = { prefix, pricing };
+    }
+  }
+  if (best) return best.pricing;
+
+  if (FREE_PROVIDERS.has(provider)) {
+    return { promptPerMillion: 0, completionPerMillion: 0 };
+  }
+  return DEFAULT_PRICING;
+}
+
+export function calculateCostUSD(usage: TokenUsage, pricing: ModelPricing): number {
+  return (usage.promptTokens * pricing.promptPerMillion
+    + usage.completionTokens * pricing.completionPerMillion) / 1_000_000;
+}
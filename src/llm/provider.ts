@@ -10,6 +10,10 @@ import type {
   RateLimitConfig,
   ChatChunk
 } from './types.js';
+import { createHash } from 'crypto';
+import { LLMRateLimitError } from '../core/errors.js';
+import { tokenizerFor, countMessageTokens } from './tokenizer.js';
+import { sharedRateLimiter, retryDelayMs, quotaResetMs, type RateLimiter } from './rate-limit.js';
 
 export type {
   LLMProvider,
@@ -31,50 +35,53 @@ export abstract class BaseLLMProvider implements LLMProvider {
   
   abstract chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse>;
   
-  protected rateLimiter: RateLimiter | null = null;
+  private limiter?: RateLimiter;
   
-  constructor(config?: { rateLimit?: RateLimitConfig }) {
-    if (config?.rateLimit) {
-      this.rateLimiter = new RateLimiter(config.rateLimit);
+  constructor(private readonly limits?: { model?: string; baseUrl?: string; apiKey?: string; rateLimit?: RateLimitConfig }) {}
+  
+  /**
+   * The limiter shared by every provider instance with the same endpoint,
+   * key and model, so sub-agents fanning out throttle together.
+   */
+  protected get rateLimiter(): RateLimiter {
+    if (!this.limiter) {
+      const account = createHash('sha256').update(this.limits?.apiKey ?? '').digest('hex').slice(0, 12);
+      const key = [this.name, this.limits?.baseUrl ?? 'default', account, this.model].join('|');
+      this.limiter = sharedRateLimiter(key, this.limits?.rateLimit);
     }
+    return this.limiter;
   }
-  
-  protected async checkRateLimit(): Promise<void> {
-    if (this.rateLimiter) {
-      await this.rateLimiter.acquire();
+
+  /**
+   * Waits for room for the request. Call the returned function once the
+   * response has been read, with its usage when the provider reported one.
+   */
+  protected async checkRateLimit(messages: ChatMessage[], options?: ChatOptions): Promise<(usage?: TokenUsage) => void> {
+    const tokens = this.countMessages(messages, options?.tools) + (options?.maxTokens ?? 0);
+    const permit = await this.rateLimiter.acquire(tokens, options?.signal);
+    return (usage) => permit.release(usage ? usage.promptTokens + usage.completionTokens : undefined);
+  }
+
+  /**
+   * Feeds the provider's rate-limit headers to the limiter. A 429 pauses
+   * everyone sharing it until the retry time and throws LLMRateLimitError.
+   */
+  protected checkRateLimitHeaders(response: Response): void {
+    if (response.status === 429) {
+      const retryAfter = retryDelayMs(response.headers);
+      if (retryAfter !== undefined) this.rateLimiter.pause(retryAfter);
+      throw new LLMRateLimitError(retryAfter, this.name);
     }
+    const reset = quotaResetMs(response.headers);
+    if (reset !== undefined) this.rateLimiter.pause(reset);
   }
   
   countTokens(text: string): number {
-    return Math.ceil(text.length / 4);
+    return tokenizerFor(this.name, this.model).count(text);
   }
-}
 
-class RateLimiter {
-  private timestamps: number[] = [];
-  
-  constructor(private config: RateLimitConfig) {}
-  
-  async acquire(): Promise<void> {
-    const now = Date.now();
-    const minuteAgo = now - 60000;
-    
-    this.timestamps = this.timestamps.filter(ts => ts > minuteAgo);
-    
-    if (this.timestamps.length >= this.config.maxPerMinute) {
-      const oldestInWindow = this.timestamps[0];
-      if (oldestInWindow !== undefined) {
-        const waitTime = oldestInWindow + 60000 - now;
-        
-        if (waitTime > 0) {
-          await new Promise(resolve => setTimeout(resolve, waitTime));
-        }
-        
-        this.timestamps = this.timestamps.filter(ts => ts > Date.now() - 60000);
-      }
-    }
-    
-    this.timestamps.push(Date.now());
+  countMessages(messages: ChatMessage[], tools?: ToolDefinition[]): number {
+    return countMessageTokens(tokenizerFor(this.name, this.model), messages, tools);
   }
 }
 
@@ -96,6 +103,14 @@ export async function createLLMProvider(
       const { AnthropicProvider } = await import('./anthropic.js');
       return new AnthropicProvider(rest);
     }
+    case 'openai-compatible': {
+      const { OpenAICompatibleProvider } = await import('./openai-compatible.js');
+      return new OpenAICompatibleProvider(rest);
+    }
+    case 'gemini': {
+      const { GeminiProvider } = await import('./gemini.js');
+      return new GeminiProvider(rest);
+    }
     default:
       throw new Error(`Unknown LLM provider: ${provider}`);
   }
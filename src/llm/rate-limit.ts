@@ -0,0 +1,185 @@
+import type { RateLimitConfig } from './types.js';
+
+const WINDOW_MS = 60_000;
+
+interface WindowEntry {
+  at: number;
+  tokens: number;
+}
+
+export interface RateLimitPermit {
+  /** Frees the in-flight slot; `tokens` replaces the estimate with what the request actually used. */
+  release(tokens?: number): void;
+}
+
+/**
+ * Throttles the requests sent to one provider endpoint: requests and tokens
+ * per rolling minute, and requests in flight. Callers are admitted in arrival
+ * order. `pause` holds everyone back until the provider's retry time, so one
+ * 429 slows the whole fan-out instead of each caller discovering it alone.
+ */
+export class RateLimiter {
+  private readonly window: WindowEntry[] = [];
+  private inFlight = 0;
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+  private wake?: () => void;
+
+  constructor(private config: RateLimitConfig = {}) {}
+
+  configure(config: RateLimitConfig): void {
+    this.config = config;
+    this.wake?.();
+  }
+
+  /** Holds back new requests for `ms`. */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  /** Waits until a request of about `tokens` tokens fits within every limit. */
+  async acquire(tokens = 0, signal?: AbortSignal): Promise<RateLimitPermit> {
+    const turn = this.queue.then(() => this.admit(tokens, signal));
+    this.queue = turn.then(() => {}, () => {});
+    return turn;
+  }
+
+  private async admit(tokens: number, signal?: AbortSignal): Promise<RateLimitPermit> {
+    for (let wait = this.delayFor(tokens); wait > 0; wait = this.delayFor(tokens)) {
+      signal?.throwIfAborted();
+      await this.sleep(wait, signal);
+    }
+    signal?.throwIfAborted();
+
+    const entry: WindowEntry = { at: Date.now(), tokens };
+    this.window.push(entry);
+    this.inFlight++;
+    let released = false;
+    return {
+      release: (actual?: number): void => {
+        if (released) return;
+        released = true;
+        this.inFlight--;
+        if (actual !== undefined) entry.tokens = actual;
+        this.wake?.();
+      }
+    };
+  }
+
+  // Milliseconds until the request may start; Infinity when it waits for a release
+  private delayFor(tokens: number): number {
+    const now = Date.now();
+    while (this.window.length > 0 && (this.window[0] as WindowEntry).at <= now - WINDOW_MS) {
+      this.window.shift();
+    }
+
+    let wait = Math.max(0, this.pausedUntil - now);
+    const { maxPerMinute, tokensPerMinute, maxConcurrent } = this.config;
+
+    if (maxPerMinute !== undefined && this.window.length >= maxPerMinute) {
+      const oldest = this.window[this.window.length - maxPerMinute] as WindowEntry;
+      wait = Math.max(wait, oldest.at + WINDOW_MS - now);
+    }
+
+    if (tokensPerMinute !== undefined) {
+      // A request larger than the whole budget runs alone rather than never
+      let used = this.window.reduce((sum, e) => sum + e.tokens, 0);
+      for (const entry of this.window) {
+        if (used + tokens <= tokensPerMinute) break;
+        used -= entry.tokens;
+        wait = Math.max(wait, entry.at + WINDOW_MS - now);
+      }
+    }
+
+    if (maxConcurrent !== undefined && this.inFlight >= maxConcurrent) {
+      wait = Infinity;
+    }
+    return wait;
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const done = (): void => {
+        if (timer !== undefined) clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        this.wake = undefined;
+        if (signal?.aborted === true) reject(signal.reason);
+        else resolve();
+      };
+      const timer = Number.isFinite(ms) ? setTimeout(done, ms) : undefined;
+      this.wake = done;
+      signal?.addEventListener('abort', done);
+    });
+  }
+}
+
+const shared = new Map<string, RateLimiter>();
+
+/**
+ * The limiter for a provider endpoint, shared by every provider instance that
+ * talks to it. A given `config` replaces the limits set by earlier instances.
+ */
+export function sharedRateLimiter(key: string, config?: RateLimitConfig): RateLimiter {
+  let limiter = shared.get(key);
+  if (!limiter) {
+    limiter = new RateLimiter(config);
+    shared.set(key, limiter);
+  } else if (config) {
+    limiter.configure(config);
+  }
+  return limiter;
+}
+
+/**
+ * How long the provider asked callers to wait, in milliseconds: from
+ * `retry-after-ms`, `Retry-After` (seconds or a date), or the reset time of
+ * the quota it reports as exhausted.
+ */
+export function retryDelayMs(headers: Headers): number | undefined {
+  const ms = Number(headers.get('retry-after-ms') ?? NaN);
+  if (Number.isFinite(ms)) return Math.max(0, ms);
+
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter !== null) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  return quotaResetMs(headers);
+}
+
+/**
+ * Time until an exhausted request or token quota resets, from the
+ * rate-limit headers OpenAI (`x-ratelimit-*`) and Anthropic
+ * (`anthropic-ratelimit-*`) send with every response.
+ */
+export function quotaResetMs(headers: Headers): number | undefined {
+  let wait: number | undefined;
+  for (const quota of ['requests', 'tokens', 'input-tokens', 'output-tokens']) {
+    for (const [remaining, reset] of [
+      [`x-ratelimit-remaining-${quota}`, `x-ratelimit-reset-${quota}`],
+      [`anthropic-ratelimit-${quota}-remaining`, `anthropic-ratelimit-${quota}-reset`]
+    ] as const) {
+      if (headers.get(remaining) !== '0') continue;
+      const ms = parseReset(headers.get(reset));
+      if (ms !== undefined) wait = Math.max(wait ?? 0, ms);
+    }
+  }
+  return wait;
+}
+
+// OpenAI sends durations such as "1s", "6m0s" or "250ms"; Anthropic sends timestamps
+function parseReset(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined;
+
+  const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+  if (parts.length > 0 && parts.map(p => p[0]).join('') === value) {
+    const unit: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+    return parts.reduce((sum, p) => sum + Number(p[1]) * (unit[p[2] as string] ?? 0), 0);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
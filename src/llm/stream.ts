@@ -0,0 +1,95 @@
+import type { ToolCall, ToolCallDelta } from './types.js';
+
+interface PendingCall {
+  id?: string;
+  name?: string;
+  json: string;
+  arguments?: Record<string, unknown>;
+}
+
+/** Yields the lines of a streamed response body as they arrive. */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) yield line.replace(/\r$/, '');
+    }
+    buffer += decoder.decode();
+    if (buffer !== '') yield buffer;
+  } finally {
+    // Closes the connection when the consumer stops early
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/** Yields the `data:` payloads of a server-sent event stream. */
+export async function* readEventData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  for await (const line of readLines(body)) {
+    if (line.startsWith('data:')) yield line.slice(5).trimStart();
+  }
+}
+
+/**
+ * Assembles streamed tool calls. Deltas with the same `index` are merged and
+ * their argument fragments concatenated; deltas without one are whole calls.
+ * Arguments are parsed once, in `finish`, after the stream has ended.
+ */
+export class ToolCallAccumulator {
+  private readonly pending = new Map<number | string, PendingCall>();
+  private unindexed = 0;
+
+  get size(): number {
+    return this.pending.size;
+  }
+
+  add(delta: ToolCallDelta): void {
+    const key = delta.index ?? `whole-${this.unindexed++}`;
+    let call = this.pending.get(key);
+    if (call === undefined) {
+      call = { json: '' };
+      this.pending.set(key, call);
+    }
+    if (delta.id !== undefined && delta.id !== '') call.id = delta.id;
+    if (delta.name !== undefined && delta.name !== '') call.name = delta.name;
+    if (delta.argumentsDelta !== undefined) call.json += delta.argumentsDelta;
+    if (delta.arguments !== undefined) call.arguments = delta.arguments;
+  }
+
+  /** The assembled calls in the order they started; throws on a call without a name or with malformed arguments. */
+  finish(): ToolCall[] {
+    const calls = [...this.pending.values()].map((call, i) => {
+      if (call.name === undefined) {
+        throw new Error(`Streamed tool call ${call.id ?? i} has no name`);
+      }
+      return {
+        id: call.id ?? `tc_${Date.now()}_${i}_${Math.random().toString(36).slice(2, 8)}`,
+        name: call.name,
+        arguments: call.arguments ?? parseArguments(call.name, call.json)
+      };
+    });
+    this.pending.clear();
+    return calls;
+  }
+}
+
+function parseArguments(name: string, json: string): Record<string, unknown> {
+  if (json.trim() === '') return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error(`Streamed tool call ${name} has malformed arguments: ${json}`);
+  }
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Streamed tool call ${name} has non-object arguments: ${json}`);
+  }
+  return parsed as Record<string, unknown>;
+}
@@ -0,0 +1,209 @@
+import type {
+  LLMProvider,
+  ChatMessage,
+  ChatResponse,
+  ChatOptions,
+  ChatChunk,
+  ToolCall,
+  ToolDefinition
+} from './types.js';
+import { attachmentsOf, withAttachments } from './content.js';
+
+const TOOL_CALL_BLOCK = /<tool_call>\s*([\s\S]*?)\s*<\/tool_call>/g;
+const FENCED_JSON = /```(?:json)?\s*(\{[\s\S]*?\})\s*```/g;
+const REACT_ACTION = /^Action:\s*([\w.-]+)\s*\nAction Input:\s*([\s\S]*?)(?=\n(?:Observation|Thought|Action|Final Answer):|$)/gm;
+
+/**
+ * Describes `tools` for a model that has no native function calling, along
+ * with the `<tool_call>` block it should answer with.
+ */
+export function renderToolPrompt(tools: ToolDefinition[]): string {
+  const list = tools.map(tool => {
+    const params = tool.parameters ? `\n  parameters: ${JSON.stringify(tool.parameters)}` : '';
+    return `- ${tool.name}: ${tool.description}${params}`;
+  }).join('\n');
+
+  return `TOOLS:
+To use a tool, reply with one block per call and stop:
+<tool_call>
+{"name": "tool_name", "arguments": {"arg": "value"}}
+</tool_call>
+Several blocks in one reply run in parallel. Results come back in <tool_result> blocks.
+When you have the final answer, reply without any <tool_call> block.
+
+Available tools:
+${list}`;
+}
+
+/**
+ * Pulls tool calls out of prose. Understands `<tool_call>` blocks (what
+ * `renderToolPrompt` asks for), fenced or bare JSON objects naming a known
+ * tool, and ReAct `Action:` / `Action Input:` pairs. The returned content has
+ * the call blocks removed.
+ */
+export function parseToolCalls(content: string, toolNames: Iterable<string>): { content: string; toolCalls: ToolCall[] } {
+  const known = new Set(toolNames);
+  const toolCalls: ToolCall[] = [];
+  let rest = content;
+
+  const add = (name: unknown, args: unknown): boolean => {
+    if (typeof name !== 'string' || name === '') return false;
+    toolCalls.push({
+      id: `call_${Date.now().toString(36)}_${toolCalls.length}`,
+      name,
+      arguments: typeof args === 'object' && args !== null && !Array.isArray(args)
+        ? args as Record<string, unknown>
+        : args === undefined ? {} : { input: args }
+    });
+    return true;
+  };
+
+  rest = rest.replace(TOOL_CALL_BLOCK, (block, body: string) => {
+    const call = tryParseObject(body);
+    return call && add(call.name ?? call.tool, call.arguments ?? call.parameters ?? call.args) ? '' : block;
+  });
+
+  if (toolCalls.length === 0) {
+    rest = rest.replace(FENCED_JSON, (block, body: string) => {
+      const call = tryParseObject(body);
+      const name = call?.name ?? call?.tool;
+      return call && typeof name === 'string' && known.has(name) && add(name, call.arguments ?? call.parameters ?? call.args)
+        ? ''
+        : block;
+    });
+  }
+
+  if (toolCalls.length === 0) {
+    const call = tryParseObject(rest.trim());
+    const name = call?.name ?? call?.tool;
+    if (call && typeof name === 'string' && known.has(name) && add(name, call.arguments ?? call.parameters ?? call.args)) {
+      rest = '';
+    }
+  }
+
+  if (toolCalls.length === 0) {
+    rest = rest.replace(REACT_ACTION, (block, name: string, input: string) => {
+      if (!known.has(name)) return block;
+      const trimmed = input.trim();
+      add(name, tryParseObject(trimmed) ?? (trimmed === '' ? undefined : trimmed));
+      return '';
+    });
+  }
+
+  return { content: rest.trim(), toolCalls };
+}
+
+/**
+ * Lets models without native function calling use tools. Tool definitions
+ * are rendered into the system prompt, tool calls are parsed out of the
+ * reply text, and earlier calls and results in the transcript are replayed
+ * as the same text blocks, so the agent loop sees ordinary `toolCalls`.
+ */
+export class TextToolProvider implements LLMProvider {
+  readonly supportsTools = true;
+  stream?: (messages: ChatMessage[], options?: ChatOptions) => AsyncIterable<ChatChunk>;
+  embed?: (text: string) => Promise<number[]>;
+  embedBatch?: (texts: string[]) => Promise<number[][]>;
+  countTokens?: (text: string) => number;
+  countMessages?: (messages: ChatMessage[], tools?: ToolDefinition[]) => number;
+
+  constructor(private readonly inner: LLMProvider) {
+    if (inner.stream) this.stream = this.streamWithTools.bind(this);
+    if (inner.embed) this.embed = inner.embed.bind(inner);
+    if (inner.embedBatch) this.embedBatch = inner.embedBatch.bind(inner);
+    if (inner.countTokens) this.countTokens = inner.countTokens.bind(inner);
+    const countMessages = inner.countMessages?.bind(inner);
+    // Tools travel in the system prompt, so count them there
+    if (countMessages) this.countMessages = (messages, tools): number => countMessages(toTextMessages(messages, tools ?? []));
+  }
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  get supportsVision(): boolean | undefined {
+    return this.inner.supportsVision;
+  }
+
+  async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+    const tools = options?.tools ?? [];
+    const response = await this.inner.chat(toTextMessages(messages, tools), { ...options, tools: undefined });
+    if (tools.length === 0) return response;
+
+    const parsed = parseToolCalls(response.content, tools.map(t => t.name));
+    return parsed.toolCalls.length > 0
+      ? { ...response, content: parsed.content, toolCalls: parsed.toolCalls }
+      : response;
+  }
+
+  private async *streamWithTools(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk> {
+    const stream = this.inner.stream;
+    const tools = options?.tools ?? [];
+    if (stream && tools.length === 0) {
+      yield* stream.call(this.inner, toTextMessages(messages, tools), options);
+      return;
+    }
+
+    // Calls can only be recognised once the whole reply is in
+    const response = await this.chat(messages, options);
+    if (response.content !== '') yield { content: response.content };
+    for (const call of response.toolCalls ?? []) yield { toolCalls: call };
+    yield { done: true, usage: response.usage };
+  }
+}
+
+function toTextMessages(messages: ChatMessage[], tools: ToolDefinition[]): ChatMessage[] {
+  const names = new Map<string, string>();
+  const converted: ChatMessage[] = [];
+  let results: ChatMessage | undefined; // Results of one turn share a single user message
+
+  for (const message of messages) {
+    if (message.role === 'tool') {
+      const name = names.get(message.toolCallId ?? '') ?? 'unknown';
+      const block = `<tool_result name="${name}">\n${message.content ?? ''}\n</tool_result>`;
+      const attachments = [...(results ? attachmentsOf(results) : []), ...attachmentsOf(message)];
+      if (results) {
+        results.content = `${results.content ?? ''}\n${block}`;
+      } else {
+        results = { role: 'user', content: block };
+        converted.push(results);
+      }
+      results.parts = withAttachments(results.content ?? '', attachments);
+      continue;
+    }
+
+    results = undefined;
+    if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+      const blocks = message.toolCalls.map(call => {
+        names.set(call.id, call.name);
+        return `<tool_call>\n${JSON.stringify({ name: call.name, arguments: call.arguments })}\n</tool_call>`;
+      });
+      const text = [message.content ?? '', ...blocks].filter(part => part !== '').join('\n');
+      converted.push({ role: 'assistant', content: text });
+    } else {
+      converted.push(message);
+    }
+  }
+
+  if (tools.length === 0) return converted;
+
+  const prompt = renderToolPrompt(tools);
+  const system = converted.findIndex(m => m.role === 'system');
+  if (system === -1) return [{ role: 'system', content: prompt }, ...converted];
+  return converted.map((m, i) => i === system ? { ...m, content: `${m.content ?? ''}\n\n${prompt}` } : m);
+}
+
+function tryParseObject(text: string): Record<string, unknown> | undefined {
+  try {
+    const value: unknown = JSON.parse(text);
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+      ? value as Record<string, unknown>
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
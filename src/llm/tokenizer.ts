@@ -0,0 +1,198 @@
+import fs from 'fs/promises';
+import { createRequire } from 'module';
+import { Tiktoken, type TiktokenBPE } from 'js-tiktoken/lite';
+import type { ChatMessage, ToolDefinition } from './types.js';
+
+export interface Tokenizer {
+  readonly name: string;
+  count(text: string): number;
+}
+
+/** The cl100k_base pre-tokenizer: contractions, words, 1-3 digit groups, punctuation, whitespace. */
+export const CL100K_PATTERN = /'(?:[sSdDmMtT]|[lL][lL]|[vV][eE]|[rR][eE])|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+// Chat framing the providers add around each message and before the reply
+const MESSAGE_OVERHEAD = 3;
+const REPLY_PRIMING = 3;
+// A high-detail 1024x1024 image on OpenAI; Anthropic charges about the same
+const IMAGE_TOKENS = 765;
+
+const utf8 = new TextEncoder();
+const require = createRequire(import.meta.url);
+
+/**
+ * Byte-pair encoding with tiktoken-format merge ranks, so counts match the
+ * provider exactly. OpenAI models already count with `TiktokenTokenizer`;
+ * for other vocabularies load one with `BpeTokenizer.load('name.tiktoken')`
+ * and `registerTokenizer` it.
+ */
+export class BpeTokenizer implements Tokenizer {
+  constructor(
+    readonly name: string,
+    private readonly ranks: Map<string, number>,
+    private readonly pattern: RegExp = CL100K_PATTERN
+  ) {}
+
+  /** Parses the `<base64 token> <rank>` lines of a `.tiktoken` file. */
+  static fromTiktoken(name: string, data: string, pattern?: RegExp): BpeTokenizer {
+    const ranks = new Map<string, number>();
+    for (const line of data.split('\n')) {
+      const [token, rank] = line.trim().split(' ');
+      if (token === undefined || token === '' || rank === undefined) continue;
+      ranks.set(Buffer.from(token, 'base64').toString('latin1'), Number(rank));
+    }
+    return new BpeTokenizer(name, ranks, pattern);
+  }
+
+  static async load(file: string, pattern?: RegExp): Promise<BpeTokenizer> {
+    const name = file.split(/[\\/]/).pop()?.replace(/\.tiktoken$/, '') ?? file;
+    return BpeTokenizer.fromTiktoken(name, await fs.readFile(file, 'utf-8'), pattern);
+  }
+
+  encode(text: string): number[] {
+    const tokens: number[] = [];
+    for (const [piece] of text.matchAll(this.pattern)) {
+      const bytes = Buffer.from(utf8.encode(piece)).toString('latin1');
+      const whole = this.ranks.get(bytes);
+      if (whole !== undefined) {
+        tokens.push(whole);
+      } else {
+        tokens.push(...this.merge(bytes));
+      }
+    }
+    return tokens;
+  }
+
+  count(text: string): number {
+    return this.encode(text).length;
+  }
+
+  // Repeatedly joins the adjacent pair with the lowest rank, as tiktoken does
+  private merge(bytes: string): number[] {
+    const bounds = Array.from({ length: bytes.length + 1 }, (_, i) => i);
+    const rankAt = (i: number): number => {
+      const start = bounds[i];
+      const end = bounds[i + 2];
+      if (start === undefined || end === undefined) return Infinity;
+      return this.ranks.get(bytes.slice(start, end)) ?? Infinity;
+    };
+
+    while (bounds.length > 2) {
+      let best = Infinity;
+      let at = -1;
+      for (let i = 0; i < bounds.length - 2; i++) {
+        const rank = rankAt(i);
+        if (rank < best) {
+          best = rank;
+          at = i;
+        }
+      }
+      if (at === -1) break;
+      bounds.splice(at + 1, 1);
+    }
+
+    const tokens: number[] = [];
+    for (let i = 0; i < bounds.length - 1; i++) {
+      // Every single byte is in a complete vocabulary; a partial one still counts the byte
+      tokens.push(this.ranks.get(bytes.slice(bounds[i], bounds[i + 1])) ?? -1);
+    }
+    return tokens;
+  }
+}
+
+/**
+ * Offline approximation of a provider family's tokenizer. Text is split the
+ * way cl100k pre-tokenizes it; short words, digit groups and whitespace runs
+ * count as one token, longer words by `charsPerToken`, and non-Latin text
+ * by UTF-8 length. Typically within 10-15% of the real count for prose and code.
+ */
+export class EstimatingTokenizer implements Tokenizer {
+  constructor(
+    readonly name: string,
+    private readonly charsPerToken: number
+  ) {}
+
+  count(text: string): number {
+    let total = 0;
+    for (const [piece] of text.matchAll(CL100K_PATTERN)) {
+      const trimmed = piece.trim();
+      if (trimmed === '') {
+        total += 1;
+      } else if (/^[\x20-\x7e]+$/.test(trimmed)) {
+        const isWord = /^[^A-Za-z0-9]?[A-Za-z0-9]+$/.test(trimmed);
+        total += Math.max(1, Math.ceil(trimmed.length / (isWord ? this.charsPerToken : 2)));
+      } else {
+        total += Math.max(1, Math.ceil(utf8.encode(trimmed).length / 3));
+      }
+    }
+    return total;
+  }
+}
+
+/**
+ * OpenAI's own encodings, as shipped by js-tiktoken. Each vocabulary is a
+ * megabyte or two of merge ranks, so it is only read on first use.
+ */
+export class TiktokenTokenizer implements Tokenizer {
+  private encoder?: Tiktoken;
+
+  constructor(readonly name: 'cl100k_base' | 'o200k_base') {}
+
+  count(text: string): number {
+    this.encoder ??= new Tiktoken(require(`js-tiktoken/ranks/${this.name}`) as TiktokenBPE);
+    // Special-token markers in the text are counted as the plain text they are
+    return this.encoder.encode(text, [], []).length;
+  }
+}
+
+export const o200kTokenizer = new TiktokenTokenizer('o200k_base');
+export const cl100kTokenizer = new TiktokenTokenizer('cl100k_base');
+export const openAITokenizer = new EstimatingTokenizer('openai-estimate', 6);
+export const anthropicTokenizer = new EstimatingTokenizer('anthropic-estimate', 5);
+export const defaultTokenizer = new EstimatingTokenizer('estimate', 4.5);
+
+type TokenizerMatch = string | RegExp | ((provider: string, model: string) => boolean);
+
+const registry: Array<{ match: (provider: string, model: string) => boolean; tokenizer: Tokenizer }> = [
+  { match: (_provider, model) => /^(gpt-4o|gpt-4\.|gpt-5|chatgpt-|o\d)/.test(model), tokenizer: o200kTokenizer },
+  { match: (_provider, model) => /^(gpt-|text-embedding)/.test(model), tokenizer: cl100kTokenizer },
+  { match: provider => provider === 'openai', tokenizer: o200kTokenizer },
+  { match: (provider, model) => provider === 'anthropic' || model.startsWith('claude'), tokenizer: anthropicTokenizer }
+];
+
+/**
+ * Uses `tokenizer` for matching models: a string matches the provider name,
+ * a RegExp the model name. Later registrations take precedence.
+ */
+export function registerTokenizer(match: TokenizerMatch, tokenizer: Tokenizer): void {
+  const test = typeof match === 'string'
+    ? (provider: string): boolean => provider === match
+    : match instanceof RegExp
+      ? (_provider: string, model: string): boolean => match.test(model)
+      : match;
+  registry.unshift({ match: test, tokenizer });
+}
+
+export function tokenizerFor(provider: string, model: string): Tokenizer {
+  return registry.find(entry => entry.match(provider, model))?.tokenizer ?? defaultTokenizer;
+}
+
+/** Tokens a chat request takes up: every message with its framing, tool calls, and tool definitions. */
+export function countMessageTokens(tokenizer: Tokenizer, messages: ChatMessage[], tools?: ToolDefinition[]): number {
+  let total = REPLY_PRIMING;
+  for (const message of messages) {
+    total += MESSAGE_OVERHEAD + tokenizer.count(message.content ?? '');
+    for (const part of message.parts ?? []) {
+      if (part.type === 'image') total += IMAGE_TOKENS;
+      if (part.type === 'file') total += tokenizer.count(part.path);
+    }
+    for (const call of message.toolCalls ?? []) {
+      total += MESSAGE_OVERHEAD + tokenizer.count(call.name) + tokenizer.count(JSON.stringify(call.arguments));
+    }
+  }
+  for (const tool of tools ?? []) {
+    total += MESSAGE_OVERHEAD + tokenizer.count(`${tool.name}: ${tool.description}`);
+    if (tool.parameters) total += tokenizer.count(JSON.stringify(tool.parameters));
+  }
+  return total;
+}
@@ -2,12 +2,15 @@ export * from '../core/types.js';
 
 export interface ChatChunk {
   content?: string;
-  toolCalls?: Partial<import('../core/types.js').ToolCall>;
+  toolCalls?: import('../core/types.js').ToolCallDelta;
   done?: boolean;
+  usage?: import('../core/types.js').TokenUsage;
 }
 
 export interface RateLimitConfig {
-  maxPerMinute: number;
+  maxPerMinute?: number; // Requests per rolling minute
+  tokensPerMinute?: number; // Prompt plus max completion tokens per rolling minute
+  maxConcurrent?: number; // Requests in flight at once
   maxPerHour?: number;
 }
 
@@ -16,4 +19,8 @@ export interface LLMProviderConfig {
   baseUrl?: string;
   apiKey?: string;
   rateLimit?: RateLimitConfig;
+  supportsTools?: boolean; // false: tools are described in the prompt and parsed from the reply text
+  supportsVision?: boolean; // false: images are replaced by a text placeholder
+  supportsResponseFormat?: boolean; // false: response formats are not sent; structured output relies on validation and repair
+  headers?: Record<string, string>; // Sent with every request, e.g. for a gateway
 }
@@ -1,6 +1,7 @@
 import type { Store, Session, SubTaskInfo, ChatMessage, ScheduledTask } from '../core/types.js';
 import fs from 'fs/promises';
 import path from 'path';
+import { trimHistory } from '../core/utils.js';
 
 export type { Store, Session, SubTaskInfo, ChatMessage, ScheduledTask };
 
@@ -72,10 +73,14 @@ export class FileStore implements Store {
     this.data = {};
   }
 
+  async deleteSession(key: string): Promise<void> {
+    Reflect.deleteProperty(this.data, key);
+  }
+
   prune(key: string): void {
     const session = this.get(key);
     if (session.history.length > this.maxHistory) {
-      session.history = session.history.slice(-this.maxHistory);
+      session.history = trimHistory(session.history, this.maxHistory);
     }
   }
 
@@ -1,12 +1,45 @@
-import type { Store, LLMProvider, GraphNode, GraphEdge } from '../core/types.js';
+import { requestStructuredOutput } from '../core/json-schema.js';
+import type { Store, LLMProvider, GraphNode, GraphEdge, MemoryAccess } from '../core/types.js';
+import { readScopes, writeScope } from './scope.js';
+
+const EXTRACTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    nodes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { id: { type: 'string' }, label: { type: 'string' } },
+        required: ['id', 'label']
+      }
+    },
+    edges: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { source: { type: 'string' }, target: { type: 'string' }, relation: { type: 'string' } },
+        required: ['source', 'target', 'relation']
+      }
+    }
+  },
+  required: ['nodes', 'edges']
+};
 
 export class GraphManager {
   private readonly store: Store;
   private readonly llm?: LLMProvider;
+  private readonly access?: MemoryAccess;
 
-  constructor(store: Store, llm?: LLMProvider) {
+  /** Without `access` every scope is open, as it is to the agent itself. */
+  constructor(store: Store, llm?: LLMProvider, access?: MemoryAccess) {
     this.store = store;
     this.llm = llm;
+    this.access = access;
+  }
+
+  /** The graph as seen by one caller, confined to the scopes it may use. */
+  withAccess(access: MemoryAccess | undefined): GraphManager {
+    return new GraphManager(this.store, this.llm, access);
   }
 
   async addNode(node: Omit<GraphNode, 'createdAt' | 'updatedAt'>): Promise<void> {
@@ -14,6 +47,7 @@ export class GraphManager {
 
     await this.store.addGraphNode({
       ...node,
+      scope: writeScope(node.scope, this.access),
       createdAt: Date.now(),
       updatedAt: Date.now()
     });
@@ -24,13 +58,15 @@ export class GraphManager {
 
     await this.store.addGraphEdge({
       ...edge,
+      scope: writeScope(edge.scope, this.access),
       createdAt: Date.now()
     });
   }
 
-  async extractAndStore(text: string): Promise<void> {
+  async extractAndStore(text: string, scope?: string): Promise<void> {
     if (!this.llm) throw new Error('LLM required for extraction');
     if (!this.store.addGraphNode || !this.store.addGraphEdge) throw new Error('Store does not support graph operations');
+    const target = writeScope(scope, this.access);
 
     const prompt = `
       Extract entities and relationships from the following text.
@@ -45,22 +81,20 @@ export class GraphManager {
     `;
 
     try {
-      const response = await this.llm.chat([
+      const data = await requestStructuredOutput(this.llm, [
         { role: 'system', content: 'You are a knowledge graph extractor. Output valid JSON only.' },
         { role: 'user', content: prompt }
-      ], {
+      ], EXTRACTION_SCHEMA, {
         maxTokens: 1000,
-        temperature: 0
-      });
-
-      const jsonStr = response.content.replace(/```json\n?|\n?```/g, '').trim();
-      const data = JSON.parse(jsonStr) as {
+        temperature: 0,
+        name: 'knowledge_graph'
+      }) as {
         nodes: { id: string; label: string }[],
         edges: { source: string; target: string; relation: string }[]
       };
 
       for (const node of data.nodes) {
-        await this.addNode({ id: node.id, label: node.label });
+        await this.addNode({ id: node.id, label: node.label, scope: target });
       }
 
       for (const edge of data.edges) {
@@ -69,7 +103,8 @@ export class GraphManager {
           id,
           source: edge.source,
           target: edge.target,
-          relation: edge.relation
+          relation: edge.relation,
+          scope: target
         });
       }
     } catch (error) {
@@ -78,13 +113,18 @@ export class GraphManager {
     }
   }
 
-  async getNeighbors(nodeId: string): Promise<{ nodes: GraphNode[], edges: GraphEdge[] }> {
+  async getNeighbors(nodeId: string, scopes?: string[]): Promise<{ nodes: GraphNode[], edges: GraphEdge[] }> {
+    return this.neighborsIn(nodeId, readScopes(scopes, this.access));
+  }
+
+  // `readable` is already checked against the caller's access
+  private async neighborsIn(nodeId: string, readable: string[] | undefined): Promise<{ nodes: GraphNode[], edges: GraphEdge[] }> {
     if (!this.store.getGraphEdges || !this.store.getGraphNode) return { nodes: [], edges: [] };
 
     // Get outgoing edges
-    const outEdges = await this.store.getGraphEdges({ source: nodeId });
+    const outEdges = await this.store.getGraphEdges({ source: nodeId, scopes: readable });
     // Get incoming edges
-    const inEdges = await this.store.getGraphEdges({ target: nodeId });
+    const inEdges = await this.store.getGraphEdges({ target: nodeId, scopes: readable });
 
     const edges = [...outEdges, ...inEdges];
     const nodeIds = new Set<string>();
@@ -96,20 +136,21 @@ export class GraphManager {
 
     const nodes: GraphNode[] = [];
     for (const id of nodeIds) {
-      const node = await this.store.getGraphNode(id);
+      const node = await this.store.getGraphNode(id, readable);
       if (node) nodes.push(node);
     }
 
     return { nodes, edges };
   }
 
-  async search(query: string): Promise<GraphNode[]> {
+  async search(query: string, scopes?: string[]): Promise<GraphNode[]> {
     if (!this.store.searchGraphNodes) return [];
-    return this.store.searchGraphNodes(query);
+    return this.store.searchGraphNodes(query, readScopes(scopes, this.access));
   }
 
-  async getSubgraph(centerNodeId: string, depth: number = 1): Promise<{ nodes: GraphNode[], edges: GraphEdge[] }> {
+  async getSubgraph(centerNodeId: string, depth: number = 1, scopes?: string[]): Promise<{ nodes: GraphNode[], edges: GraphEdge[] }> {
     if (!this.store.getGraphEdges || !this.store.getGraphNode) return { nodes: [], edges: [] };
+    const readable = readScopes(scopes, this.access);
 
     const visitedNodes = new Set<string>();
     const visitedEdges = new Set<string>();
@@ -124,11 +165,11 @@ export class GraphManager {
         if (visitedNodes.has(nodeId)) continue;
         visitedNodes.add(nodeId);
 
-        const node = await this.store.getGraphNode(nodeId);
+        const node = await this.store.getGraphNode(nodeId, readable);
         if (node) nodes.push(node);
 
         // Get neighbors
-        const neighbors = await this.getNeighbors(nodeId);
+        const neighbors = await this.neighborsIn(nodeId, readable);
         for (const edge of neighbors.edges) {
             if (visitedEdges.has(edge.id)) continue;
             visitedEdges.add(edge.id);
@@ -144,11 +185,11 @@ export class GraphManager {
     // Ensure all referenced nodes in edges are included
     for (const edge of edges) {
         if (!visitedNodes.has(edge.source)) {
-            const n = await this.store.getGraphNode(edge.source);
+            const n = await this.store.getGraphNode(edge.source, readable);
             if (n) { nodes.push(n); visitedNodes.add(edge.source); }
         }
         if (!visitedNodes.has(edge.target)) {
-            const n = await this.store.getGraphNode(edge.target);
+            const n = await this.store.getGraphNode(edge.target, readable);
             if (n) { nodes.push(n); visitedNodes.add(edge.target); }
         }
     }
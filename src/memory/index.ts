@@ -4,3 +4,4 @@ export { MemoryStore } from './memory-store.js';
 export { SQLiteStore } from './sqlite.js';
 export { MemoryManager } from './manager.js';
 export { GraphManager } from './graph.js';
+export { GLOBAL_SCOPE, ALL_SCOPES, userScope, sessionScope } from './scope.js';
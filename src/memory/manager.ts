@@ -1,13 +1,30 @@
-import type { Store, MemoryEntry, MemoryQuery, LLMProvider } from '../core/types.js';
+import type { Store, MemoryEntry, MemoryQuery, MemoryAccess, LLMProvider, EmbeddingProvider } from '../core/types.js';
+import { AuthorizationError } from '../core/errors.js';
+import { GLOBAL_SCOPE, defaultScopes, readScopes, writeScope } from './scope.js';
 import { randomUUID } from 'crypto';
 
+const EMBED_BATCH_SIZE = 64;
+
 export class MemoryManager {
   private readonly store: Store;
-  private readonly llm?: LLMProvider;
+  private readonly embeddings?: EmbeddingProvider;
+  private readonly access?: MemoryAccess;
 
-  constructor(store: Store, llm?: LLMProvider) {
+  /** Without `access` every scope is open, as it is to the agent itself. */
+  constructor(store: Store, embeddings?: EmbeddingProvider | LLMProvider, access?: MemoryAccess) {
     this.store = store;
-    this.llm = llm;
+    this.embeddings = embeddings?.embed !== undefined ? embeddings as EmbeddingProvider : undefined;
+    this.access = access;
+  }
+
+  /** This memory as seen by one caller: reads and writes are confined to the scopes it may use. */
+  withAccess(access: MemoryAccess | undefined): MemoryManager {
+    return new MemoryManager(this.store, this.embeddings, access);
+  }
+
+  /** Tag stored with every vector, so vectors from different models are never compared. */
+  get embeddingModel(): string | undefined {
+    return this.embeddings ? `${this.embeddings.name}/${this.embeddings.model}` : undefined;
   }
 
   async storeMemory(
@@ -17,43 +34,39 @@ export class MemoryManager {
     importance: number = 1,
     level: number = 1,
     ttl?: number,
-    chunkOptions: { size?: number; overlap?: number } = {}
+    options: { size?: number; overlap?: number; scope?: string } = {}
   ): Promise<string> {
     if (!this.store.createMemory) {
       throw new Error('Store does not support memory operations');
     }
 
-    const chunks = this.chunkText(content, chunkOptions.size, chunkOptions.overlap);
+    const scope = writeScope(options.scope, this.access);
+    const chunks = this.chunkText(content, options.size, options.overlap);
     const now = Date.now();
     const expiresAt = ttl ? now + ttl : undefined;
 
     if (chunks.length <= 1) {
-      return this.createSingleMemory(chunks[0] || content, type, tags, importance, level, expiresAt);
+      return this.createSingleMemory(chunks[0] || content, type, tags, importance, level, scope, expiresAt);
     }
 
     const contextId = randomUUID();
+    const embeddings = await this.embedAll(chunks);
 
     // Store all chunks
     await Promise.all(chunks.map(async (chunk, index) => {
-      let embedding: number[] | undefined;
-      if (this.llm?.embed) {
-        try {
-          embedding = await this.llm.embed(chunk);
-        } catch (e) {
-          console.error('Failed to generate embedding for chunk:', e);
-        }
-      }
-
+      const embedding = embeddings[index];
       await this.store.createMemory!({
         content: chunk,
         type,
         tags,
         importance,
         embedding,
+        embeddingModel: embedding ? this.embeddingModel : undefined,
         level,
         lastAccess: now,
         expiresAt,
         contextId,
+        scope,
         metadata: {
           chunkIndex: index,
           totalChunks: chunks.length,
@@ -71,16 +84,10 @@ export class MemoryManager {
     tags: string[],
     importance: number,
     level: number,
+    scope: string,
     expiresAt?: number
   ): Promise<string> {
-    let embedding: number[] | undefined;
-    if (this.llm?.embed) {
-      try {
-        embedding = await this.llm.embed(content);
-      } catch (e) {
-        console.error('Failed to generate embedding:', e);
-      }
-    }
+    const [embedding] = await this.embedAll([content]);
 
     return this.store.createMemory!({
       content,
@@ -88,12 +95,64 @@ export class MemoryManager {
       tags,
       importance,
       embedding,
+      embeddingModel: embedding ? this.embeddingModel : undefined,
       level,
       lastAccess: Date.now(),
-      expiresAt
+      expiresAt,
+      scope
     });
   }
 
+  /**
+   * Re-embeds memories stored without a vector or with another model's, in
+   * batches. Run after changing the embedding model; returns how many
+   * memories were updated.
+   */
+  async reembed(batchSize: number = EMBED_BATCH_SIZE): Promise<number> {
+    const model = this.embeddingModel;
+    if (model === undefined || !this.store.getStaleEmbeddings || !this.store.updateMemory) return 0;
+
+    let updated = 0;
+    while (true) {
+      const stale = await this.store.getStaleEmbeddings(model, batchSize);
+      if (stale.length === 0) return updated;
+
+      const vectors = await this.embedBatches(stale.map(entry => entry.content));
+      for (const [i, entry] of stale.entries()) {
+        await this.store.updateMemory(entry.id, { embedding: vectors[i], embeddingModel: model });
+      }
+      updated += stale.length;
+    }
+  }
+
+  // Memories whose embedding failed are stored without one; `reembed` fills them in later
+  private async embedAll(texts: string[]): Promise<Array<number[] | undefined>> {
+    if (!this.embeddings) return texts.map(() => undefined);
+    try {
+      return await this.embedBatches(texts);
+    } catch (e) {
+      console.error('Failed to generate embeddings:', e);
+      return texts.map(() => undefined);
+    }
+  }
+
+  private async embedBatches(texts: string[]): Promise<number[][]> {
+    const provider = this.embeddings;
+    if (!provider) throw new Error('No embedding provider configured');
+
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+      const batch = texts.slice(i, i + EMBED_BATCH_SIZE);
+      vectors.push(...(provider.embedBatch
+        ? await provider.embedBatch(batch)
+        : await Promise.all(batch.map(text => provider.embed(text)))));
+    }
+    if (vectors.length !== texts.length) {
+      throw new Error(`Embedding provider returned ${vectors.length} vectors for ${texts.length} texts`);
+    }
+    return vectors;
+  }
+
   private chunkText(text: string, maxChunkSize: number = 1000, overlap: number = 100): string[] {
     if (text.length <= maxChunkSize) {
       return [text];
@@ -171,6 +230,7 @@ export class MemoryManager {
     if (!this.store.updateMemory) {
       throw new Error('Store does not support memory updates');
     }
+    await this.checkWritable(id);
     await this.store.updateMemory(id, updates);
   }
 
@@ -180,16 +240,14 @@ export class MemoryManager {
     }
 
     const q: MemoryQuery = typeof query === 'string' ? { content: query } : { ...query };
+    q.scopes = readScopes(q.scopes, this.access);
 
-    if (this.llm?.embed && !q.embedding) {
+    if (this.embeddings && !q.embedding) {
       const textToEmbed = q.content;
       if (textToEmbed) {
-        try {
-          q.embedding = await this.llm.embed(textToEmbed);
-        } catch (e) {
-          // Ignore embedding error, fallback to keyword search
-          console.error('Failed to generate query embedding:', e);
-        }
+        // Without an embedding, this falls back to keyword search
+        q.embedding = (await this.embedAll([textToEmbed]))[0];
+        q.embeddingModel = this.embeddingModel;
       }
     }
 
@@ -210,6 +268,7 @@ export class MemoryManager {
     if (!this.store.removeMemory) {
       throw new Error('Store does not support memory operations');
     }
+    await this.checkWritable(id);
     await this.store.removeMemory(id);
   }
 
@@ -217,7 +276,21 @@ export class MemoryManager {
     if (!this.store.exportMemories) {
         throw new Error('Store does not support memory export');
     }
-    return this.store.exportMemories();
+    const memories = await this.store.exportMemories();
+    const scopes = defaultScopes(this.access);
+    if (!scopes || this.access?.admin === true) return memories;
+    return memories.filter(m => scopes.includes(m.scope ?? GLOBAL_SCOPE));
+  }
+
+  // Callers may change memories in their own user and session scopes; admins may change any
+  private async checkWritable(id: string): Promise<void> {
+    if (!this.access || this.access.admin === true || !this.store.searchMemories) return;
+
+    const scopes = defaultScopes(this.access);
+    const [entry] = (await this.store.searchMemories({ id, scopes })).filter(m => m.id === id);
+    if (!entry || entry.scope === undefined || entry.scope === GLOBAL_SCOPE) {
+      throw new AuthorizationError(`Not authorized to change memory ${id}`);
+    }
   }
 
   async consolidate(): Promise<void> {
@@ -1,4 +1,5 @@
 import type { Store, Session, SubTaskInfo, ChatMessage, ScheduledTask } from '../core/types.js';
+import { trimHistory } from '../core/utils.js';
 
 export type { Store, Session, SubTaskInfo, ChatMessage, ScheduledTask };
 
@@ -39,10 +40,14 @@ export class MemoryStore implements Store {
     this.data = {};
   }
 
+  async deleteSession(key: string): Promise<void> {
+    Reflect.deleteProperty(this.data, key);
+  }
+
   prune(key: string): void {
     const session = this.get(key);
     if (session.history.length > this.maxHistory) {
-      session.history = session.history.slice(-this.maxHistory);
+      session.history = trimHistory(session.history, this.maxHistory);
     }
   }
 
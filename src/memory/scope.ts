@@ -0,0 +1,66 @@
+import type { MemoryAccess } from '../core/types.js';
+import { AuthorizationError } from '../core/errors.js';
+
+export const GLOBAL_SCOPE = 'global';
+
+/** Asks for every scope; admins only. */
+export const ALL_SCOPES = '*';
+
+export function userScope(identity: string): string {
+  return `user:${identity}`;
+}
+
+export function sessionScope(rootId: string): string {
+  return `session:${rootId}`;
+}
+
+/** Scopes recalled by default: global plus the caller's own. Undefined means every scope. */
+export function defaultScopes(access?: MemoryAccess): string[] | undefined {
+  if (!access) return undefined;
+  const scopes = [GLOBAL_SCOPE];
+  if (access.user !== undefined) scopes.push(userScope(access.user));
+  if (access.session !== undefined) scopes.push(sessionScope(access.session));
+  return scopes;
+}
+
+/**
+ * Scopes a read may cover. Without a request these are the defaults; asking
+ * for a scope that is not the caller's own needs an admin.
+ */
+export function readScopes(requested: string[] | undefined, access?: MemoryAccess): string[] | undefined {
+  const own = defaultScopes(access);
+  if (requested === undefined || requested.length === 0) return own;
+  if (!access || access.admin === true) return requested.includes(ALL_SCOPES) ? undefined : requested;
+
+  const denied = requested.filter(scope => !(own ?? []).includes(scope));
+  if (denied.length > 0) {
+    throw new AuthorizationError(`Not authorized to read memory scope ${denied.join(', ')}`);
+  }
+  return requested;
+}
+
+/** Where new memories go: the caller's user scope, or global when the agent itself writes. */
+export function defaultWriteScope(access?: MemoryAccess): string {
+  if (access?.user !== undefined) return userScope(access.user);
+  if (access?.session !== undefined) return sessionScope(access.session);
+  return GLOBAL_SCOPE;
+}
+
+/**
+ * The scope a tool argument names: `user`, `session` or `global`, or a full
+ * scope. Only admins write outside their own user and session scopes.
+ */
+export function writeScope(requested: string | undefined, access?: MemoryAccess): string {
+  let scope = requested ?? defaultWriteScope(access);
+  if (requested === 'user' || requested === 'session') {
+    const identity = requested === 'user' ? access?.user : access?.session;
+    if (identity === undefined) throw new AuthorizationError(`No ${requested} scope to write to`);
+    scope = requested === 'user' ? userScope(identity) : sessionScope(identity);
+  }
+
+  const own = (defaultScopes(access) ?? []).filter(s => s !== GLOBAL_SCOPE);
+  if (access && access.admin !== true && !own.includes(scope)) {
+    throw new AuthorizationError(`Not authorized to write memory scope ${scope}`);
+  }
+  return scope;
+}
@@ -3,19 +3,117 @@ import { open, type Database } from 'sqlite';
 import type {
   Store, Session, MemoryEntry, MemoryQuery,
   GraphNode, GraphEdge, GraphQuery,
-  PromptTemplate, PromptVersion, ScheduledTask
+  PromptTemplate, PromptVersion, ScheduledTask,
+  CachedResponse, VectorIndexConfig, MemoryRanking
 } from '../core/types.js';
 import { VOLTCLAW_DIR } from '../core/bootstrap.js';
+import { PersistenceError } from '../core/errors.js';
+import { VectorIndex } from './vector-index.js';
 import fs from 'fs';
 import path from 'path';
 
+// Filtered searches over fewer candidates than this scan them all instead
+const EXHAUSTIVE_SEARCH_MAX = 1000;
+const INDEX_BATCH_SIZE = 500;
+
+const DEFAULT_RANKING: Required<MemoryRanking> = {
+  text: 0.4,
+  vector: 0.4,
+  importance: 0.1,
+  recency: 0.1,
+  recencyHalfLifeMs: 30 * 24 * 60 * 60 * 1000
+};
+// Candidates each retriever contributes per result asked for
+const CANDIDATES_PER_RESULT = 4;
+
+// Columns of the memories table that are read back, plus what ranked search adds
+interface MemoryRow {
+  id: string;
+  type: string;
+  level: number | null;
+  last_access: number | null;
+  content: string;
+  embedding: string | null;
+  embedding_model: string | null;
+  tags: string | null;
+  importance: number | null;
+  timestamp: number;
+  expires_at: number | null;
+  context_id: string | null;
+  scope: string | null;
+  metadata: string | null;
+  text_rank?: number; // Negated BM25, higher is better
+  snippet?: string;
+}
+
+// Entities and relations are keyed by scope, so each user can have their own "Alice"
+const GRAPH_TABLES = `
+  CREATE TABLE IF NOT EXISTS graph_nodes (
+    scope TEXT NOT NULL DEFAULT 'global',
+    id TEXT NOT NULL,
+    label TEXT NOT NULL,
+    metadata TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (scope, id)
+  );
+  CREATE TABLE IF NOT EXISTS graph_edges (
+    scope TEXT NOT NULL DEFAULT 'global',
+    id TEXT NOT NULL,
+    source TEXT NOT NULL,
+    target TEXT NOT NULL,
+    relation TEXT NOT NULL,
+    weight REAL DEFAULT 1.0,
+    metadata TEXT,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (scope, id),
+    FOREIGN KEY(scope, source) REFERENCES graph_nodes(scope, id) ON DELETE CASCADE,
+    FOREIGN KEY(scope, target) REFERENCES graph_nodes(scope, id) ON DELETE CASCADE
+  );
+`;
+
+// Prompt templates are scoped the same way
+const PROMPT_TABLES = `
+  CREATE TABLE IF NOT EXISTS prompt_templates (
+    scope TEXT NOT NULL DEFAULT 'global',
+    id TEXT NOT NULL,
+    description TEXT NOT NULL,
+    latest_version INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (scope, id)
+  );
+  CREATE TABLE IF NOT EXISTS prompt_versions (
+    scope TEXT NOT NULL DEFAULT 'global',
+    template_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    changelog TEXT,
+    metrics TEXT,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (scope, template_id, version),
+    FOREIGN KEY(scope, template_id) REFERENCES prompt_templates(scope, id) ON DELETE CASCADE
+  );
+`;
+
+// Free text as an FTS5 query: each word a quoted prefix term, any of which may
+// match, so punctuation and FTS syntax in the text are never interpreted
+function ftsQuery(text: string): string | undefined {
+  const words = text.match(/[\p{L}\p{N}_]+/gu) ?? [];
+  return words.length > 0 ? words.map(word => `"${word}"*`).join(' OR ') : undefined;
+}
+
 export class SQLiteStore implements Store {
   private db?: Database;
   private cache: Map<string, Session> = new Map();
   private readonly dbPath: string;
+  private readonly vectorIndexOptions: VectorIndexConfig | false;
+  private vectorIndex?: Promise<VectorIndex | undefined>;
+  private vectorIndexDirty = false;
 
-  constructor(options: { path?: string } = {}) {
+  constructor(options: { path?: string; vectorIndex?: VectorIndexConfig | false } = {}) {
     this.dbPath = options.path ?? path.join(VOLTCLAW_DIR, 'voltclaw.db');
+    this.vectorIndexOptions = options.vectorIndex ?? {};
 
     // Ensure directory exists
     const dir = path.dirname(this.dbPath);
@@ -24,6 +122,12 @@ export class SQLiteStore implements Store {
     }
   }
 
+  // The open database; every query runs after load()
+  private get database(): Database {
+    if (!this.db) throw new PersistenceError(`SQLite store at ${this.dbPath} is not loaded`);
+    return this.db;
+  }
+
   async load(): Promise<void> {
     this.db = await open({
       filename: this.dbPath,
@@ -48,41 +152,8 @@ export class SQLiteStore implements Store {
         context_id TEXT,
         metadata TEXT -- JSON object
       );
-      CREATE TABLE IF NOT EXISTS graph_nodes (
-        id TEXT PRIMARY KEY,
-        label TEXT NOT NULL,
-        metadata TEXT,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL
-      );
-      CREATE TABLE IF NOT EXISTS graph_edges (
-        id TEXT PRIMARY KEY,
-        source TEXT NOT NULL,
-        target TEXT NOT NULL,
-        relation TEXT NOT NULL,
-        weight REAL DEFAULT 1.0,
-        metadata TEXT,
-        created_at INTEGER NOT NULL,
-        FOREIGN KEY(source) REFERENCES graph_nodes(id) ON DELETE CASCADE,
-        FOREIGN KEY(target) REFERENCES graph_nodes(id) ON DELETE CASCADE
-      );
-      CREATE TABLE IF NOT EXISTS prompt_templates (
-        id TEXT PRIMARY KEY,
-        description TEXT NOT NULL,
-        latest_version INTEGER NOT NULL,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL
-      );
-      CREATE TABLE IF NOT EXISTS prompt_versions (
-        template_id TEXT NOT NULL,
-        version INTEGER NOT NULL,
-        content TEXT NOT NULL,
-        changelog TEXT,
-        metrics TEXT,
-        created_at INTEGER NOT NULL,
-        PRIMARY KEY (template_id, version),
-        FOREIGN KEY(template_id) REFERENCES prompt_templates(id) ON DELETE CASCADE
-      );
+      ${GRAPH_TABLES}
+      ${PROMPT_TABLES}
       CREATE TABLE IF NOT EXISTS scheduled_tasks (
         id TEXT PRIMARY KEY,
         cron TEXT NOT NULL,
@@ -91,6 +162,13 @@ export class SQLiteStore implements Store {
         last_run INTEGER,
         target TEXT
       );
+      CREATE TABLE IF NOT EXISTS llm_cache (
+        key TEXT PRIMARY KEY,
+        response TEXT NOT NULL, -- JSON ChatResponse
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER,
+        last_used INTEGER NOT NULL
+      );
     `);
 
     try {
@@ -123,6 +201,109 @@ export class SQLiteStore implements Store {
       // Ignore if column already exists
     }
 
+    try {
+      await this.db.exec('ALTER TABLE memories ADD COLUMN embedding_model TEXT');
+    } catch {
+      // Ignore if column already exists
+    }
+
+    try {
+      await this.db.exec('ALTER TABLE memories ADD COLUMN embedding_dims INTEGER');
+    } catch {
+      // Ignore if column already exists
+    }
+
+    try {
+      await this.db.exec("ALTER TABLE memories ADD COLUMN scope TEXT NOT NULL DEFAULT 'global'");
+    } catch {
+      // Ignore if column already exists
+    }
+    await this.db.exec('CREATE INDEX IF NOT EXISTS memories_scope ON memories (scope)');
+
+    // Graph tables were keyed by id alone before scopes; copy them into the
+    // scoped layout once, as global entries
+    const graphColumns = await this.db.all('PRAGMA table_info(graph_nodes)');
+    if (!graphColumns.some(column => column.name === 'scope')) {
+      await this.db.exec(`
+        BEGIN;
+        ALTER TABLE graph_edges RENAME TO graph_edges_unscoped;
+        ALTER TABLE graph_nodes RENAME TO graph_nodes_unscoped;
+        ${GRAPH_TABLES}
+        INSERT INTO graph_nodes (id, label, metadata, created_at, updated_at)
+          SELECT id, label, metadata, created_at, updated_at FROM graph_nodes_unscoped;
+        INSERT INTO graph_edges (id, source, target, relation, weight, metadata, created_at)
+          SELECT id, source, target, relation, weight, metadata, created_at FROM graph_edges_unscoped;
+        DROP TABLE graph_edges_unscoped;
+        DROP TABLE graph_nodes_unscoped;
+        COMMIT;
+      `);
+    }
+
+    // Prompt templates likewise
+    const promptColumns = await this.db.all('PRAGMA table_info(prompt_templates)');
+    if (!promptColumns.some(column => column.name === 'scope')) {
+      await this.db.exec(`
+        BEGIN;
+        ALTER TABLE prompt_versions RENAME TO prompt_versions_unscoped;
+        ALTER TABLE prompt_templates RENAME TO prompt_templates_unscoped;
+        ${PROMPT_TABLES}
+        INSERT INTO prompt_templates (id, description, latest_version, created_at, updated_at)
+          SELECT id, description, latest_version, created_at, updated_at FROM prompt_templates_unscoped;
+        INSERT INTO prompt_versions (template_id, version, content, changelog, metrics, created_at)
+          SELECT template_id, version, content, changelog, metrics, created_at FROM prompt_versions_unscoped;
+        DROP TABLE prompt_versions_unscoped;
+        DROP TABLE prompt_templates_unscoped;
+        COMMIT;
+      `);
+    }
+
+    // Full-text index and tag table, kept in step with `memories` by triggers.
+    // Databases that predate them are filled in once.
+    const hasFts = await this.db.get("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'memories_fts'");
+    const hasTags = await this.db.get("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'memory_tags'");
+
+    await this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(
+        content,
+        content = 'memories',
+        tokenize = 'porter unicode61'
+      );
+      CREATE TRIGGER IF NOT EXISTS memories_fts_insert AFTER INSERT ON memories BEGIN
+        INSERT INTO memories_fts (rowid, content) VALUES (new.rowid, new.content);
+      END;
+      CREATE TRIGGER IF NOT EXISTS memories_fts_update AFTER UPDATE OF content ON memories BEGIN
+        INSERT INTO memories_fts (memories_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+        INSERT INTO memories_fts (rowid, content) VALUES (new.rowid, new.content);
+      END;
+      CREATE TRIGGER IF NOT EXISTS memories_fts_delete AFTER DELETE ON memories BEGIN
+        INSERT INTO memories_fts (memories_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+      END;
+
+      CREATE TABLE IF NOT EXISTS memory_tags (
+        memory_id TEXT NOT NULL,
+        tag TEXT NOT NULL,
+        PRIMARY KEY (memory_id, tag)
+      );
+      CREATE INDEX IF NOT EXISTS memory_tags_tag ON memory_tags (tag);
+      CREATE TRIGGER IF NOT EXISTS memory_tags_insert AFTER INSERT ON memories BEGIN
+        INSERT OR IGNORE INTO memory_tags (memory_id, tag) SELECT new.id, value FROM json_each(new.tags);
+      END;
+      CREATE TRIGGER IF NOT EXISTS memory_tags_update AFTER UPDATE OF tags ON memories BEGIN
+        DELETE FROM memory_tags WHERE memory_id = old.id;
+        INSERT OR IGNORE INTO memory_tags (memory_id, tag) SELECT new.id, value FROM json_each(new.tags);
+      END;
+      CREATE TRIGGER IF NOT EXISTS memory_tags_delete AFTER DELETE ON memories BEGIN
+        DELETE FROM memory_tags WHERE memory_id = old.id;
+      END;
+    `);
+
+    if (hasFts === undefined) {
+      await this.db.exec("INSERT INTO memories_fts (memories_fts) VALUES ('rebuild')");
+    }
+    if (hasTags === undefined) {
+      await this.db.exec('INSERT OR IGNORE INTO memory_tags (memory_id, tag) SELECT m.id, t.value FROM memories m, json_each(m.tags) t');
+    }
+
     const rows = await this.db.all('SELECT key, data FROM sessions');
     for (const row of rows) {
       try {
@@ -158,7 +339,7 @@ export class SQLiteStore implements Store {
   async save(): Promise<void> {
     if (!this.db) await this.load();
 
-    const stmt = await this.db!.prepare(`
+    const stmt = await this.database.prepare(`
       INSERT INTO sessions (key, data, updated_at)
       VALUES (?, ?, ?)
       ON CONFLICT(key) DO UPDATE SET
@@ -175,85 +356,78 @@ export class SQLiteStore implements Store {
       await stmt.run(key, JSON.stringify(session, replacer), Date.now());
     }
     await stmt.finalize();
+
+    if (this.vectorIndex && this.vectorIndexDirty) {
+      let index = await this.vectorIndex;
+      if (index?.fragmented === true) {
+        index = index.compacted();
+        this.vectorIndex = Promise.resolve(index);
+      }
+      this.vectorIndexDirty = false;
+      await index?.save(this.vectorIndexPath);
+    }
   }
 
   clear(): void {
     this.cache.clear();
   }
 
+  async deleteSession(key: string): Promise<void> {
+    this.cache.delete(key);
+    if (!this.db) await this.load();
+    await this.db?.run('DELETE FROM sessions WHERE key = ?', key);
+  }
+
   async createMemory(entry: Omit<MemoryEntry, 'id' | 'timestamp'>): Promise<string> {
     if (!this.db) await this.load();
 
     const id = `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
     const timestamp = Date.now();
 
-    await this.db!.run(
-      `INSERT INTO memories (id, type, level, last_access, content, embedding, tags, importance, timestamp, expires_at, context_id, metadata)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    await this.database.run(
+      `INSERT INTO memories (id, type, level, last_access, content, embedding, embedding_model, embedding_dims, tags, importance, timestamp, expires_at, context_id, scope, metadata)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       id,
       entry.type,
       entry.level ?? 1,
       entry.lastAccess ?? timestamp,
       entry.content,
       entry.embedding ? JSON.stringify(entry.embedding) : null,
+      entry.embedding ? entry.embeddingModel ?? null : null,
+      entry.embedding?.length ?? null,
       JSON.stringify(entry.tags ?? []),
       entry.importance ?? 0,
       timestamp,
       entry.expiresAt ?? null,
       entry.contextId ?? null,
+      entry.scope ?? 'global',
       JSON.stringify(entry.metadata ?? {})
     );
 
+    if (entry.embedding) {
+      await this.indexVector(id, entry.embedding, entry.embeddingModel);
+    }
+
     return id;
   }
 
   async searchMemories(query: MemoryQuery): Promise<MemoryEntry[]> {
     if (!this.db) await this.load();
 
-    let sql = 'SELECT * FROM memories WHERE 1=1';
-    const params: unknown[] = [];
-
-    if (query.id) {
-      // Find the specific memory, OR any memory belonging to the same context (chunk set)
-      sql += ' AND (id = ? OR context_id = ? OR context_id IN (SELECT context_id FROM memories WHERE id = ?))';
-      params.push(query.id, query.id, query.id);
+    if (query.content !== undefined) {
+      const ranked = await this.rankedSearch({ ...query, content: query.content });
+      if (ranked) return ranked;
     }
 
-    if (query.type) {
-      sql += ' AND type = ?';
-      params.push(query.type);
-    }
+    const filter = this.memoryFilter(query);
 
-    if (query.level !== undefined) {
-      sql += ' AND level = ?';
-      params.push(query.level);
+    if (query.embedding && query.embedding.length > 0 && query.limit !== undefined && query.limit > 0) {
+      const nearest = await this.searchVectorIndex(query.embedding, query.limit, query.embeddingModel, filter);
+      if (nearest) return nearest;
     }
 
-    if (query.content) {
-      sql += ' AND content LIKE ?';
-      params.push(`%${query.content}%`);
-    }
-
-    if (query.contextId) {
-      sql += ' AND context_id = ?';
-      params.push(query.contextId);
-    }
-
-    // Tag search in JSON array is tricky in standard sqlite without extensions
-    // Simple naive check: LIKE '%"tag"%'
-    if (query.tags && query.tags.length > 0) {
-      for (const tag of query.tags) {
-        sql += ' AND tags LIKE ?';
-        // Use JSON.stringify to ensure we match the quoted string, avoiding partial matches
-        // e.g. "apple" won't match "pineapple"
-        const jsonTag = JSON.stringify(tag);
-        // We strip the leading/trailing quotes from JSON.stringify because we're inside LIKE %...%
-        // Actually, we WANT the quotes to ensure boundary.
-        // JSON.stringify("apple") -> "apple"
-        // So we search for %"apple"%
-        params.push(`%${jsonTag}%`);
-      }
-    }
+    let sql = `SELECT * FROM memories WHERE ${filter.where}`;
+    const params = [...filter.params];
 
     // If query has embedding, we ignore default sort order and limit here,
     // because we need to fetch all candidates to compute similarity in memory
@@ -273,29 +447,19 @@ export class SQLiteStore implements Store {
       }
     }
 
-    const rows = await this.db!.all(sql, params);
+    const rows = await this.database.all<MemoryRow[]>(sql, params);
 
-    let entries = rows.map(row => ({
-      id: row.id,
-      type: row.type as MemoryEntry['type'],
-      level: row.level ?? 1,
-      lastAccess: row.last_access ?? row.timestamp,
-      content: row.content,
-      embedding: row.embedding ? JSON.parse(row.embedding) : undefined,
-      tags: JSON.parse(row.tags || '[]'),
-      importance: row.importance,
-      timestamp: row.timestamp,
-      expiresAt: row.expires_at,
-      contextId: row.context_id,
-      metadata: JSON.parse(row.metadata || '{}')
-    }));
+    let entries = rows.map(row => this.toMemoryEntry(row));
 
     if (query.embedding && query.embedding.length > 0) {
       entries = entries
-        .map(entry => ({
-          ...entry,
-          similarity: this.cosineSimilarity(query.embedding!, entry.embedding)
-        }))
+        .map(entry => {
+          // Vectors from different models are not comparable
+          const similarity = query.embeddingModel !== undefined && entry.embeddingModel !== query.embeddingModel
+            ? -1
+            : this.cosineSimilarity(query.embedding!, entry.embedding);
+          return { ...entry, similarity, score: similarity };
+        })
         .filter(e => e.similarity > -2) // Keep all, sort below
         .sort((a, b) => b.similarity - a.similarity);
 
@@ -310,6 +474,163 @@ export class SQLiteStore implements Store {
     return entries;
   }
 
+  // Full-text hits and, given an embedding, nearest neighbors, scored together
+  // by the query's ranking. Undefined when the text has no words to search for,
+  // or when nothing matches them and there is no embedding to fall back on, so
+  // the caller's LIKE filter still finds substrings such as "ell" in "hello".
+  private async rankedSearch(query: MemoryQuery & { content: string }): Promise<MemoryEntry[] | undefined> {
+    const match = ftsQuery(query.content);
+    if (match === undefined) return undefined;
+
+    const ranking = { ...DEFAULT_RANKING, ...query.ranking };
+    const embedding = query.embedding && query.embedding.length > 0 ? query.embedding : undefined;
+    const pool = query.limit !== undefined ? (query.limit + (query.offset ?? 0)) * CANDIDATES_PER_RESULT : undefined;
+    const filter = this.memoryFilter({ ...query, content: undefined });
+
+    const rows = await this.database.all<MemoryRow[]>(
+      `SELECT memories.*, -bm25(memories_fts) AS text_rank, snippet(memories_fts, 0, '**', '**', '…', 16) AS snippet
+       FROM memories_fts JOIN memories ON memories.rowid = memories_fts.rowid
+       WHERE memories_fts MATCH ? AND ${filter.where}
+       ORDER BY text_rank DESC${pool !== undefined ? ' LIMIT ?' : ''}`,
+      [match, ...filter.params, ...(pool !== undefined ? [pool] : [])]
+    );
+    if (rows.length === 0 && !embedding) return undefined;
+
+    const candidates = new Map<string, { entry: MemoryEntry; text: number }>();
+    for (const row of rows) {
+      candidates.set(row.id, { entry: { ...this.toMemoryEntry(row), snippet: row.snippet }, text: row.text_rank ?? 0 });
+    }
+
+    // Semantic matches need not share a word with the query
+    if (embedding) {
+      const nearest = await this.searchMemories({ ...query, content: undefined, limit: pool, offset: undefined });
+      for (const entry of nearest) {
+        if (!candidates.has(entry.id)) candidates.set(entry.id, { entry, text: 0 });
+      }
+    }
+
+    let bestText = 0;
+    for (const { text } of candidates.values()) bestText = Math.max(bestText, text);
+
+    const now = Date.now();
+    const ranked = [...candidates.values()]
+      .map(({ entry, text }) => {
+        const similarity = !embedding
+          ? undefined
+          : query.embeddingModel !== undefined && entry.embeddingModel !== query.embeddingModel
+            ? -1
+            : this.cosineSimilarity(embedding, entry.embedding);
+        const score =
+          ranking.text * (bestText > 0 ? text / bestText : 0) +
+          ranking.vector * Math.max(0, similarity ?? 0) +
+          ranking.importance * Math.min(1, Math.max(0, (entry.importance ?? 0) / 10)) +
+          ranking.recency * Math.pow(0.5, Math.max(0, now - entry.timestamp) / ranking.recencyHalfLifeMs);
+        return similarity !== undefined ? { ...entry, similarity, score } : { ...entry, score };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    const start = query.offset ?? 0;
+    return ranked.slice(start, query.limit !== undefined ? start + query.limit : undefined);
+  }
+
+  // WHERE clause for every criterion of a query except the embedding
+  private memoryFilter(query: MemoryQuery): { where: string; params: unknown[] } {
+    let sql = '1=1';
+    const params: unknown[] = [];
+
+    if (query.id) {
+      // Find the specific memory, OR any memory belonging to the same context (chunk set)
+      sql += ' AND (id = ? OR context_id = ? OR context_id IN (SELECT context_id FROM memories WHERE id = ?))';
+      params.push(query.id, query.id, query.id);
+    }
+
+    if (query.type) {
+      sql += ' AND type = ?';
+      params.push(query.type);
+    }
+
+    if (query.level !== undefined) {
+      sql += ' AND level = ?';
+      params.push(query.level);
+    }
+
+    if (query.content) {
+      sql += ' AND content LIKE ?';
+      params.push(`%${query.content}%`);
+    }
+
+    if (query.contextId) {
+      sql += ' AND context_id = ?';
+      params.push(query.contextId);
+    }
+
+    if (query.scopes) {
+      sql += ` AND scope IN (${query.scopes.map(() => '?').join(', ')})`;
+      params.push(...query.scopes);
+    }
+
+    for (const tag of query.tags ?? []) {
+      sql += ' AND id IN (SELECT memory_id FROM memory_tags WHERE tag = ?)';
+      params.push(tag);
+    }
+
+    return { where: sql, params };
+  }
+
+  // Nearest neighbors from the vector index, or undefined when the exhaustive
+  // scan has to answer: no usable graph, few candidates, or fewer hits than asked for
+  private async searchVectorIndex(
+    embedding: number[],
+    limit: number,
+    model: string | undefined,
+    filter: { where: string; params: unknown[] }
+  ): Promise<MemoryEntry[] | undefined> {
+    const index = await this.getVectorIndex();
+    if (!index) return undefined;
+    // Without a model the scan compares against every vector, which no single graph holds
+    if (model === undefined && index.embeddingModels().some(m => m !== '')) return undefined;
+
+    let accept: ((id: string) => boolean) | undefined;
+    if (filter.params.length > 0) {
+      const rows = await this.database.all(`SELECT id FROM memories WHERE ${filter.where}`, filter.params);
+      if (rows.length <= EXHAUSTIVE_SEARCH_MAX) return undefined;
+      const allowed = new Set(rows.map(row => row.id as string));
+      accept = (id: string): boolean => allowed.has(id);
+    }
+
+    const matches = index.search(embedding, limit, { model: model ?? '', accept });
+    if (matches.length < limit) return undefined;
+
+    const rows = await this.database.all<MemoryRow[]>(
+      `SELECT * FROM memories WHERE id IN (${matches.map(() => '?').join(', ')})`,
+      matches.map(m => m.id)
+    );
+    const entries = new Map(rows.map(row => [row.id as string, this.toMemoryEntry(row)]));
+    return matches.flatMap(m => {
+      const entry = entries.get(m.id);
+      return entry ? [{ ...entry, similarity: m.similarity, score: m.similarity }] : [];
+    });
+  }
+
+  private toMemoryEntry(row: MemoryRow): MemoryEntry {
+    return {
+      id: row.id,
+      type: row.type as MemoryEntry['type'],
+      level: row.level ?? 1,
+      lastAccess: row.last_access ?? row.timestamp,
+      content: row.content,
+      embedding: typeof row.embedding === 'string' ? JSON.parse(row.embedding) as number[] : undefined,
+      embeddingModel: row.embedding_model ?? undefined,
+      tags: JSON.parse(row.tags ?? '[]') as string[],
+      importance: row.importance ?? undefined,
+      timestamp: row.timestamp,
+      expiresAt: row.expires_at ?? undefined,
+      contextId: row.context_id ?? undefined,
+      scope: row.scope ?? 'global',
+      metadata: JSON.parse(row.metadata ?? '{}') as Record<string, unknown>
+    };
+  }
+
   private cosineSimilarity(a: number[], b?: number[]): number {
     const vecB = b;
     if (!vecB || a.length !== vecB.length) return -1;
@@ -335,7 +656,10 @@ export class SQLiteStore implements Store {
     if (updates.level !== undefined) { fields.push('level = ?'); values.push(updates.level); }
     if (updates.lastAccess !== undefined) { fields.push('last_access = ?'); values.push(updates.lastAccess); }
     if (updates.content) { fields.push('content = ?'); values.push(updates.content); }
-    if (updates.embedding) { fields.push('embedding = ?'); values.push(JSON.stringify(updates.embedding)); }
+    if (updates.embedding) {
+      fields.push('embedding = ?', 'embedding_model = ?', 'embedding_dims = ?');
+      values.push(JSON.stringify(updates.embedding), updates.embeddingModel ?? null, updates.embedding.length);
+    }
     if (updates.tags) { fields.push('tags = ?'); values.push(JSON.stringify(updates.tags)); }
     if (updates.importance !== undefined) { fields.push('importance = ?'); values.push(updates.importance); }
     if (updates.metadata) { fields.push('metadata = ?'); values.push(JSON.stringify(updates.metadata)); }
@@ -343,30 +667,45 @@ export class SQLiteStore implements Store {
     if (fields.length === 0) return;
 
     values.push(id);
-    await this.db!.run(`UPDATE memories SET ${fields.join(', ')} WHERE id = ?`, values);
+    await this.database.run(`UPDATE memories SET ${fields.join(', ')} WHERE id = ?`, values);
+
+    if (updates.embedding) {
+      await this.indexVector(id, updates.embedding, updates.embeddingModel);
+    }
   }
 
   async removeMemory(id: string): Promise<void> {
     if (!this.db) await this.load();
-    await this.db!.run('DELETE FROM memories WHERE id = ?', id);
+    await this.database.run('DELETE FROM memories WHERE id = ?', id);
+
+    // An index that was never loaded catches up when it is
+    const index = await this.vectorIndex;
+    if (index?.has(id) === true) {
+      index.remove(id);
+      this.vectorIndexDirty = true;
+    }
   }
 
   async exportMemories(): Promise<MemoryEntry[]> {
     if (!this.db) await this.load();
-    const rows = await this.db!.all('SELECT * FROM memories ORDER BY timestamp ASC');
+    const rows = await this.database.all<MemoryRow[]>('SELECT * FROM memories ORDER BY timestamp ASC');
+    return rows.map(row => this.toMemoryEntry(row));
+  }
+
+  async getStaleEmbeddings(model: string, limit: number): Promise<MemoryEntry[]> {
+    if (!this.db) await this.load();
+    const rows = await this.database.all<MemoryRow[]>(
+      'SELECT * FROM memories WHERE embedding_model IS NULL OR embedding_model != ? ORDER BY timestamp ASC LIMIT ?',
+      model,
+      limit
+    );
     return rows.map(row => ({
       id: row.id,
       type: row.type as MemoryEntry['type'],
       level: row.level ?? 1,
       lastAccess: row.last_access ?? row.timestamp,
       content: row.content,
-      embedding: row.embedding ? JSON.parse(row.embedding) : undefined,
-      tags: JSON.parse(row.tags || '[]'),
-      importance: row.importance,
-      timestamp: row.timestamp,
-      expiresAt: row.expires_at,
-      contextId: row.context_id,
-      metadata: JSON.parse(row.metadata || '{}')
+      timestamp: row.timestamp
     }));
   }
 
@@ -380,51 +719,128 @@ export class SQLiteStore implements Store {
     const ninetyDays = 90 * oneDay;
 
     // Delete expired memories
-    await this.db!.run('DELETE FROM memories WHERE expires_at IS NOT NULL AND expires_at < ?', now);
+    await this.database.run('DELETE FROM memories WHERE expires_at IS NOT NULL AND expires_at < ?', now);
 
     // Level 1 (Recent) -> Level 2 (Working) if older than 24h
-    await this.db!.run(
+    await this.database.run(
       'UPDATE memories SET level = 2 WHERE level = 1 AND timestamp < ?',
       now - oneDay
     );
 
     // Level 2 (Working) -> Level 4 (Archived) if not accessed in 7 days and importance < 3
-    await this.db!.run(
+    await this.database.run(
       'UPDATE memories SET level = 4 WHERE level = 2 AND last_access < ? AND importance < 3',
       now - sevenDays
     );
 
     // Level 3 (Long-term) -> Level 4 (Archived) if not accessed in 30 days and importance < 5
-    await this.db!.run(
+    await this.database.run(
       'UPDATE memories SET level = 4 WHERE level = 3 AND last_access < ? AND importance < 5',
       now - thirtyDays
     );
 
     // Prune Level 4 (Archived) older than 90 days
-    await this.db!.run(
+    await this.database.run(
       'DELETE FROM memories WHERE level = 4 AND last_access < ?',
       now - ninetyDays
     );
 
     // Also keep the original size constraint as a fallback
-    const countResult = await this.db!.get('SELECT COUNT(*) as count FROM memories');
+    const countResult = await this.database.get('SELECT COUNT(*) as count FROM memories');
     if (countResult.count > 5000) {
         // Delete oldest lowest importance items regardless of level (except maybe level 3?)
-        await this.db!.run('DELETE FROM memories WHERE importance < 2 AND id NOT IN (SELECT id FROM memories ORDER BY timestamp DESC LIMIT 2000)');
+        await this.database.run('DELETE FROM memories WHERE importance < 2 AND id NOT IN (SELECT id FROM memories ORDER BY timestamp DESC LIMIT 2000)');
+    }
+
+    const index = await this.vectorIndex;
+    if (index) {
+      const rows = await this.database.all('SELECT id FROM memories WHERE embedding IS NOT NULL');
+      const kept = new Set(rows.map(row => row.id as string));
+      for (const id of index.ids()) {
+        if (!kept.has(id)) {
+          index.remove(id);
+          this.vectorIndexDirty = true;
+        }
+      }
     }
   }
 
+  // Vector index
+
+  /** Rebuilds the vector index from the stored embeddings and saves it. */
+  async rebuildVectorIndex(): Promise<number> {
+    if (this.vectorIndexOptions === false) return 0;
+    const index = await this.syncVectorIndex(new VectorIndex(this.vectorIndexOptions));
+    this.vectorIndex = Promise.resolve(index);
+    this.vectorIndexDirty = false;
+    await index.save(this.vectorIndexPath);
+    return index.size;
+  }
+
+  private get vectorIndexPath(): string {
+    return `${this.dbPath}.hnsw`;
+  }
+
+  // Loaded once, on first use, so stores that never search by vector never read it
+  private getVectorIndex(): Promise<VectorIndex | undefined> {
+    const options = this.vectorIndexOptions;
+    if (options === false) return Promise.resolve(undefined);
+    this.vectorIndex ??= VectorIndex.load(this.vectorIndexPath, options)
+      .then(saved => this.syncVectorIndex(saved ?? new VectorIndex(options)));
+    return this.vectorIndex;
+  }
+
+  // Brings a saved index in line with the table, which may have been written
+  // without it: by an older version, another process, or with the index disabled
+  private async syncVectorIndex(index: VectorIndex): Promise<VectorIndex> {
+    if (!this.db) await this.load();
+
+    const rows = await this.database.all('SELECT id, embedding_model FROM memories WHERE embedding IS NOT NULL');
+    const models = new Map(rows.map(row => [row.id as string, (row.embedding_model ?? '') as string]));
+
+    for (const id of index.ids()) {
+      if (index.modelOf(id) !== models.get(id)) {
+        index.remove(id);
+        this.vectorIndexDirty = true;
+      }
+    }
+
+    const missing = [...models.keys()].filter(id => !index.has(id));
+    for (let i = 0; i < missing.length; i += INDEX_BATCH_SIZE) {
+      const batch = missing.slice(i, i + INDEX_BATCH_SIZE);
+      const vectors = await this.database.all(
+        `SELECT id, embedding, embedding_model FROM memories WHERE id IN (${batch.map(() => '?').join(', ')})`,
+        batch
+      );
+      for (const row of vectors) {
+        if (index.add(row.id, JSON.parse(row.embedding), row.embedding_model ?? '')) {
+          this.vectorIndexDirty = true;
+        }
+      }
+    }
+
+    return index;
+  }
+
+  private async indexVector(id: string, embedding: number[], model?: string): Promise<void> {
+    const index = await this.getVectorIndex();
+    if (!index) return;
+    index.add(id, embedding, model ?? '');
+    this.vectorIndexDirty = true;
+  }
+
   // Graph Methods
 
   async addGraphNode(node: GraphNode): Promise<void> {
     if (!this.db) await this.load();
-    await this.db!.run(
-      `INSERT INTO graph_nodes (id, label, metadata, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?)
-       ON CONFLICT(id) DO UPDATE SET
+    await this.database.run(
+      `INSERT INTO graph_nodes (scope, id, label, metadata, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(scope, id) DO UPDATE SET
          label = excluded.label,
          metadata = excluded.metadata,
          updated_at = excluded.updated_at`,
+      node.scope ?? 'global',
       node.id,
       node.label,
       JSON.stringify(node.metadata ?? {}),
@@ -435,12 +851,13 @@ export class SQLiteStore implements Store {
 
   async addGraphEdge(edge: GraphEdge): Promise<void> {
     if (!this.db) await this.load();
-    await this.db!.run(
-      `INSERT INTO graph_edges (id, source, target, relation, weight, metadata, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?)
-       ON CONFLICT(id) DO UPDATE SET
+    await this.database.run(
+      `INSERT INTO graph_edges (scope, id, source, target, relation, weight, metadata, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(scope, id) DO UPDATE SET
          weight = excluded.weight,
          metadata = excluded.metadata`,
+      edge.scope ?? 'global',
       edge.id,
       edge.source,
       edge.target,
@@ -451,14 +868,20 @@ export class SQLiteStore implements Store {
     );
   }
 
-  async getGraphNode(id: string): Promise<GraphNode | undefined> {
+  async getGraphNode(id: string, scopes?: string[]): Promise<GraphNode | undefined> {
     if (!this.db) await this.load();
-    const row = await this.db!.get('SELECT * FROM graph_nodes WHERE id = ?', id);
+    const scoped = scopes ? ` AND scope IN (${scopes.map(() => '?').join(', ')})` : '';
+    const row = await this.database.get(
+      `SELECT * FROM graph_nodes WHERE id = ?${scoped} ORDER BY scope = 'global' LIMIT 1`,
+      id,
+      ...(scopes ?? [])
+    );
     if (!row) return undefined;
 
     return {
       id: row.id,
       label: row.label,
+      scope: row.scope,
       metadata: JSON.parse(row.metadata || '{}'),
       createdAt: row.created_at,
       updatedAt: row.updated_at
@@ -483,13 +906,17 @@ export class SQLiteStore implements Store {
       sql += ' AND relation = ?';
       params.push(query.relation);
     }
+    if (query.scopes) {
+      sql += ` AND scope IN (${query.scopes.map(() => '?').join(', ')})`;
+      params.push(...query.scopes);
+    }
 
     if (query.limit) {
       sql += ' LIMIT ?';
       params.push(query.limit);
     }
 
-    const rows = await this.db!.all(sql, params);
+    const rows = await this.database.all(sql, params);
 
     return rows.map(row => ({
       id: row.id,
@@ -497,25 +924,27 @@ export class SQLiteStore implements Store {
       target: row.target,
       relation: row.relation,
       weight: row.weight,
+      scope: row.scope,
       metadata: JSON.parse(row.metadata || '{}'),
       createdAt: row.created_at
     }));
   }
 
-  async searchGraphNodes(query: string): Promise<GraphNode[]> {
+  async searchGraphNodes(query: string, scopes?: string[]): Promise<GraphNode[]> {
     if (!this.db) await this.load();
     // Simple substring search on ID or Label
     const sql = `
       SELECT * FROM graph_nodes
-      WHERE id LIKE ? OR label LIKE ?
+      WHERE (id LIKE ? OR label LIKE ?)${scopes ? ` AND scope IN (${scopes.map(() => '?').join(', ')})` : ''}
       LIMIT 20
     `;
     const pattern = `%${query}%`;
-    const rows = await this.db!.all(sql, pattern, pattern);
+    const rows = await this.database.all(sql, pattern, pattern, ...(scopes ?? []));
 
     return rows.map(row => ({
       id: row.id,
       label: row.label,
+      scope: row.scope,
       metadata: JSON.parse(row.metadata || '{}'),
       createdAt: row.created_at,
       updatedAt: row.updated_at
@@ -524,14 +953,20 @@ export class SQLiteStore implements Store {
 
   // Prompt Methods
 
-  async getPromptTemplate(id: string): Promise<PromptTemplate | undefined> {
+  async getPromptTemplate(id: string, scopes?: string[]): Promise<PromptTemplate | undefined> {
     if (!this.db) await this.load();
-    const row = await this.db!.get('SELECT * FROM prompt_templates WHERE id = ?', id);
+    const scoped = scopes ? ` AND scope IN (${scopes.map(() => '?').join(', ')})` : '';
+    const row = await this.database.get(
+      `SELECT * FROM prompt_templates WHERE id = ?${scoped} ORDER BY scope = 'global' LIMIT 1`,
+      id,
+      ...(scopes ?? [])
+    );
     if (!row) return undefined;
     return {
       id: row.id,
       description: row.description,
       latestVersion: row.latest_version,
+      scope: row.scope,
       createdAt: row.created_at,
       updatedAt: row.updated_at
     };
@@ -539,13 +974,14 @@ export class SQLiteStore implements Store {
 
   async savePromptTemplate(template: PromptTemplate): Promise<void> {
     if (!this.db) await this.load();
-    await this.db!.run(
-      `INSERT INTO prompt_templates (id, description, latest_version, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?)
-       ON CONFLICT(id) DO UPDATE SET
+    await this.database.run(
+      `INSERT INTO prompt_templates (scope, id, description, latest_version, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(scope, id) DO UPDATE SET
          description = excluded.description,
          latest_version = excluded.latest_version,
          updated_at = excluded.updated_at`,
+      template.scope ?? 'global',
       template.id,
       template.description,
       template.latestVersion,
@@ -554,16 +990,17 @@ export class SQLiteStore implements Store {
     );
   }
 
-  async getPromptVersion(templateId: string, version: number): Promise<PromptVersion | undefined> {
+  async getPromptVersion(templateId: string, version: number, scope = 'global'): Promise<PromptVersion | undefined> {
     if (!this.db) await this.load();
-    const row = await this.db!.get(
-      'SELECT * FROM prompt_versions WHERE template_id = ? AND version = ?',
-      templateId, version
+    const row = await this.database.get(
+      'SELECT * FROM prompt_versions WHERE scope = ? AND template_id = ? AND version = ?',
+      scope, templateId, version
     );
     if (!row) return undefined;
     return {
       templateId: row.template_id,
       version: row.version,
+      scope: row.scope,
       content: row.content,
       changelog: row.changelog,
       metrics: JSON.parse(row.metrics || '{}'),
@@ -573,13 +1010,14 @@ export class SQLiteStore implements Store {
 
   async savePromptVersion(version: PromptVersion): Promise<void> {
     if (!this.db) await this.load();
-    await this.db!.run(
-      `INSERT INTO prompt_versions (template_id, version, content, changelog, metrics, created_at)
-       VALUES (?, ?, ?, ?, ?, ?)
-       ON CONFLICT(template_id, version) DO UPDATE SET
+    await this.database.run(
+      `INSERT INTO prompt_versions (scope, template_id, version, content, changelog, metrics, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(scope, template_id, version) DO UPDATE SET
          content = excluded.content,
          changelog = excluded.changelog,
          metrics = excluded.metrics`,
+      version.scope ?? 'global',
       version.templateId,
       version.version,
       version.content,
@@ -589,13 +1027,17 @@ export class SQLiteStore implements Store {
     );
   }
 
-  async listPromptTemplates(): Promise<PromptTemplate[]> {
+  async listPromptTemplates(scopes?: string[]): Promise<PromptTemplate[]> {
     if (!this.db) await this.load();
-    const rows = await this.db!.all('SELECT * FROM prompt_templates ORDER BY updated_at DESC');
+    const rows = await this.database.all(
+      `SELECT * FROM prompt_templates${scopes ? ` WHERE scope IN (${scopes.map(() => '?').join(', ')})` : ''} ORDER BY updated_at DESC`,
+      ...(scopes ?? [])
+    );
     return rows.map(row => ({
       id: row.id,
       description: row.description,
       latestVersion: row.latest_version,
+      scope: row.scope,
       createdAt: row.created_at,
       updatedAt: row.updated_at
     }));
@@ -605,7 +1047,7 @@ export class SQLiteStore implements Store {
 
   async scheduleTask(task: ScheduledTask): Promise<void> {
     if (!this.db) await this.load();
-    await this.db!.run(
+    await this.database.run(
       `INSERT INTO scheduled_tasks (id, cron, task, created_at, last_run, target)
        VALUES (?, ?, ?, ?, ?, ?)
        ON CONFLICT(id) DO UPDATE SET
@@ -624,7 +1066,7 @@ export class SQLiteStore implements Store {
 
   async getScheduledTasks(): Promise<ScheduledTask[]> {
     if (!this.db) await this.load();
-    const rows = await this.db!.all('SELECT * FROM scheduled_tasks ORDER BY created_at ASC');
+    const rows = await this.database.all('SELECT * FROM scheduled_tasks ORDER BY created_at ASC');
     return rows.map(row => ({
       id: row.id,
       cron: row.cron,
@@ -637,6 +1079,59 @@ export class SQLiteStore implements Store {
 
   async deleteScheduledTask(id: string): Promise<void> {
     if (!this.db) await this.load();
-    await this.db!.run('DELETE FROM scheduled_tasks WHERE id = ?', id);
+    await this.database.run('DELETE FROM scheduled_tasks WHERE id = ?', id);
+  }
+
+  // LLM Response Cache Methods
+
+  async getCachedResponse(key: string): Promise<CachedResponse | undefined> {
+    if (!this.db) await this.load();
+    const row = await this.database.get('SELECT * FROM llm_cache WHERE key = ?', key);
+    if (row === undefined) return undefined;
+
+    const now = Date.now();
+    if (row.expires_at !== null && row.expires_at <= now) {
+      await this.database.run('DELETE FROM llm_cache WHERE key = ?', key);
+      return undefined;
+    }
+
+    await this.database.run('UPDATE llm_cache SET last_used = ? WHERE key = ?', now, key);
+    return {
+      key: row.key,
+      response: JSON.parse(row.response),
+      createdAt: row.created_at,
+      expiresAt: row.expires_at ?? undefined
+    };
+  }
+
+  async putCachedResponse(entry: CachedResponse, maxEntries?: number): Promise<void> {
+    if (!this.db) await this.load();
+    await this.database.run(
+      `INSERT INTO llm_cache (key, response, created_at, expires_at, last_used)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET
+         response = excluded.response,
+         created_at = excluded.created_at,
+         expires_at = excluded.expires_at,
+         last_used = excluded.last_used`,
+      entry.key,
+      JSON.stringify(entry.response),
+      entry.createdAt,
+      entry.expiresAt ?? null,
+      entry.createdAt
+    );
+
+    if (maxEntries !== undefined) {
+      await this.database.run(
+        'DELETE FROM llm_cache WHERE key NOT IN (SELECT key FROM llm_cache ORDER BY last_used DESC LIMIT ?)',
+        maxEntries
+      );
+    }
+  }
+
+  async clearCachedResponses(): Promise<number> {
+    if (!this.db) await this.load();
+    const result = await this.database.run('DELETE FROM llm_cache');
+    return result.changes ?? 0;
   }
 }
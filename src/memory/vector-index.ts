@@ -0,0 +1,433 @@
+import fs from 'fs/promises';
+import type { VectorIndexConfig } from '../core/types.js';
+
+export interface VectorMatch {
+  id: string;
+  similarity: number; // Cosine similarity
+}
+
+interface Node {
+  id: string;
+  vector: Float32Array; // Unit length, so similarity is a dot product
+  level: number;
+  links: number[][]; // Neighbor node numbers, per layer
+  deleted: boolean;
+}
+
+interface Candidate {
+  node: number;
+  similarity: number;
+}
+
+interface SerializedGraph {
+  model: string;
+  dims: number;
+  entry: number;
+  nodes: Array<{ id: string; level: number; links: number[][]; deleted: boolean }>;
+}
+
+const FORMAT_VERSION = 1;
+
+/** Binary heap ordered by `before`: the top is the element that sorts first. */
+class Heap<T> {
+  private readonly items: T[] = [];
+
+  constructor(private readonly before: (a: T, b: T) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i] as T, items[parent] as T)) break;
+      [items[i], items[parent]] = [items[parent] as T, items[i] as T];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let first = i;
+        if (left < items.length && this.before(items[left] as T, items[first] as T)) first = left;
+        if (right < items.length && this.before(items[right] as T, items[first] as T)) first = right;
+        if (first === i) break;
+        [items[i], items[first]] = [items[first] as T, items[i] as T];
+        i = first;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+function normalize(vector: number[] | Float32Array): Float32Array {
+  const unit = Float32Array.from(vector);
+  let norm = 0;
+  for (const x of unit) norm += x * x;
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < unit.length; i++) unit[i] = (unit[i] as number) / norm;
+  return unit;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] as number) * (b[i] as number);
+  return sum;
+}
+
+/**
+ * Hierarchical navigable small world graph over vectors of one model. Removed
+ * nodes stay in the graph as waypoints until the index is rebuilt.
+ */
+class HnswGraph {
+  readonly nodes: Node[] = [];
+  readonly byId = new Map<string, number>();
+  entry = -1;
+  comparisons = 0;
+  private readonly levelFactor: number;
+
+  constructor(readonly dims: number, private readonly m: number, private readonly efConstruction: number) {
+    this.levelFactor = 1 / Math.log(m);
+  }
+
+  get deletedCount(): number {
+    return this.nodes.length - this.byId.size;
+  }
+
+  add(id: string, vector: Float32Array, level = Math.floor(-Math.log(1 - Math.random()) * this.levelFactor)): void {
+    const node = this.nodes.length;
+    this.nodes.push({ id, vector, level, links: Array.from({ length: level + 1 }, () => []), deleted: false });
+    this.byId.set(id, node);
+
+    if (this.entry === -1) {
+      this.entry = node;
+      return;
+    }
+
+    const top = (this.nodes[this.entry] as Node).level;
+    let nearest: Candidate = { node: this.entry, similarity: this.compare(vector, this.entry) };
+    for (let layer = top; layer > level; layer--) {
+      nearest = this.greedy(vector, nearest, layer);
+    }
+
+    let entries = [nearest];
+    for (let layer = Math.min(level, top); layer >= 0; layer--) {
+      const found = this.searchLayer(vector, entries, this.efConstruction, layer);
+      const maxLinks = layer === 0 ? this.m * 2 : this.m;
+      const neighbors = this.selectNeighbors(found, this.m);
+      (this.nodes[node] as Node).links[layer] = neighbors.map(c => c.node);
+
+      for (const neighbor of neighbors) {
+        const other = this.nodes[neighbor.node] as Node;
+        const links = other.links[layer] as number[];
+        links.push(node);
+        if (links.length > maxLinks) {
+          const ranked = links
+            .map(n => ({ node: n, similarity: dot(other.vector, (this.nodes[n] as Node).vector) }))
+            .sort((a, b) => b.similarity - a.similarity);
+          other.links[layer] = this.selectNeighbors(ranked, maxLinks).map(c => c.node);
+        }
+      }
+      entries = found;
+    }
+
+    if (level > top) this.entry = node;
+  }
+
+  remove(id: string): void {
+    const node = this.byId.get(id);
+    if (node === undefined) return;
+    (this.nodes[node] as Node).deleted = true;
+    this.byId.delete(id);
+  }
+
+  search(vector: Float32Array, k: number, ef: number, accept: (id: string) => boolean): VectorMatch[] {
+    if (this.entry === -1) return [];
+
+    let nearest: Candidate = { node: this.entry, similarity: this.compare(vector, this.entry) };
+    for (let layer = (this.nodes[this.entry] as Node).level; layer > 0; layer--) {
+      nearest = this.greedy(vector, nearest, layer);
+    }
+
+    const isMatch = (node: number): boolean => {
+      const n = this.nodes[node] as Node;
+      return !n.deleted && accept(n.id);
+    };
+    return this.searchLayer(vector, [nearest], Math.max(ef, k), 0, isMatch)
+      .slice(0, k)
+      .map(c => ({ id: (this.nodes[c.node] as Node).id, similarity: c.similarity }));
+  }
+
+  private compare(vector: Float32Array, node: number): number {
+    this.comparisons++;
+    return dot(vector, (this.nodes[node] as Node).vector);
+  }
+
+  private greedy(vector: Float32Array, start: Candidate, layer: number): Candidate {
+    let best = start;
+    for (let improved = true; improved;) {
+      improved = false;
+      for (const n of (this.nodes[best.node] as Node).links[layer] ?? []) {
+        const similarity = this.compare(vector, n);
+        if (similarity > best.similarity) {
+          best = { node: n, similarity };
+          improved = true;
+        }
+      }
+    }
+    return best;
+  }
+
+  // Best-first search of one layer. Only nodes passing `isMatch` are results,
+  // but every node is a waypoint, so a selective filter widens the search
+  // instead of starving it.
+  private searchLayer(
+    vector: Float32Array,
+    entries: Candidate[],
+    ef: number,
+    layer: number,
+    isMatch: (node: number) => boolean = () => true
+  ): Candidate[] {
+    const visited = new Set<number>();
+    const candidates = new Heap<Candidate>((a, b) => a.similarity > b.similarity);
+    const results = new Heap<Candidate>((a, b) => a.similarity < b.similarity);
+
+    for (const entry of entries) {
+      visited.add(entry.node);
+      candidates.push(entry);
+      if (isMatch(entry.node)) results.push(entry);
+    }
+    while (results.size > ef) results.pop();
+
+    while (candidates.size > 0) {
+      const current = candidates.pop() as Candidate;
+      const worst = results.peek();
+      if (results.size >= ef && worst !== undefined && current.similarity < worst.similarity) break;
+
+      for (const n of (this.nodes[current.node] as Node).links[layer] ?? []) {
+        if (visited.has(n)) continue;
+        visited.add(n);
+
+        const similarity = this.compare(vector, n);
+        const bound = results.peek();
+        if (results.size < ef || bound === undefined || similarity > bound.similarity) {
+          candidates.push({ node: n, similarity });
+          if (isMatch(n)) {
+            results.push({ node: n, similarity });
+            if (results.size > ef) results.pop();
+          }
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => b.similarity - a.similarity);
+  }
+
+  // Keeps candidates that are closer to the base than to any neighbor already
+  // kept, so links spread across clusters; tops up with the closest of the rest.
+  private selectNeighbors(ranked: Candidate[], max: number): Candidate[] {
+    const kept: Candidate[] = [];
+    const skipped: Candidate[] = [];
+    for (const candidate of ranked) {
+      if (kept.length >= max) break;
+      const vector = (this.nodes[candidate.node] as Node).vector;
+      if (kept.every(k => dot(vector, (this.nodes[k.node] as Node).vector) < candidate.similarity)) {
+        kept.push(candidate);
+      } else {
+        skipped.push(candidate);
+      }
+    }
+    for (const candidate of skipped) {
+      if (kept.length >= max) break;
+      kept.push(candidate);
+    }
+    return kept;
+  }
+}
+
+/**
+ * Approximate nearest-neighbor index over memory embeddings, with one HNSW
+ * graph per embedding model so vectors of different models are never
+ * compared. Saved as a single binary file: a JSON header with the graphs,
+ * then every vector as float32.
+ */
+export class VectorIndex {
+  private readonly graphs = new Map<string, HnswGraph>();
+  private readonly models = new Map<string, string>(); // Memory id -> model
+  private readonly m: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+
+  constructor(options: VectorIndexConfig = {}) {
+    this.m = options.m ?? 16;
+    this.efConstruction = options.efConstruction ?? 200;
+    this.efSearch = options.efSearch ?? 64;
+  }
+
+  get size(): number {
+    return this.models.size;
+  }
+
+  has(id: string): boolean {
+    return this.models.has(id);
+  }
+
+  /** The model a memory's vector is indexed under, `''` when it has none. */
+  modelOf(id: string): string | undefined {
+    return this.models.get(id);
+  }
+
+  ids(): string[] {
+    return [...this.models.keys()];
+  }
+
+  /** Embedding models that have a graph, `''` standing for unlabelled vectors. */
+  embeddingModels(): string[] {
+    return [...this.graphs.keys()];
+  }
+
+  /** Indexes or replaces a memory's vector. Vectors whose length differs from the model's are skipped. */
+  add(id: string, vector: number[], model = ''): boolean {
+    this.remove(id);
+    if (vector.length === 0) return false;
+
+    let graph = this.graphs.get(model);
+    if (!graph) {
+      graph = new HnswGraph(vector.length, this.m, this.efConstruction);
+      this.graphs.set(model, graph);
+    }
+    if (graph.dims !== vector.length) return false;
+
+    graph.add(id, normalize(vector));
+    this.models.set(id, model);
+    return true;
+  }
+
+  remove(id: string): void {
+    const model = this.models.get(id);
+    if (model === undefined) return;
+    this.graphs.get(model)?.remove(id);
+    this.models.delete(id);
+  }
+
+  /** The `k` memories most similar to `vector` among those `accept` lets through. */
+  search(vector: number[], k: number, options: { model?: string; accept?: (id: string) => boolean } = {}): VectorMatch[] {
+    const graph = this.graphs.get(options.model ?? '');
+    if (!graph || graph.dims !== vector.length || k <= 0) return [];
+    return graph.search(normalize(vector), k, this.efSearch, options.accept ?? ((): boolean => true));
+  }
+
+  /**
+   * Vectors compared with a query or an inserted vector so far. A full scan
+   * compares every vector once per query; a search should need far fewer.
+   */
+  get comparisons(): number {
+    let total = 0;
+    for (const graph of this.graphs.values()) total += graph.comparisons;
+    return total;
+  }
+
+  /** Whether so many removed nodes linger that rebuilding would pay off. */
+  get fragmented(): boolean {
+    let deleted = 0;
+    for (const graph of this.graphs.values()) deleted += graph.deletedCount;
+    return deleted > this.size;
+  }
+
+  /** A fresh index over the live vectors, without removed waypoints. */
+  compacted(): VectorIndex {
+    const index = new VectorIndex({ m: this.m, efConstruction: this.efConstruction, efSearch: this.efSearch });
+    for (const [model, graph] of this.graphs) {
+      for (const [id, node] of graph.byId) {
+        index.add(id, Array.from((graph.nodes[node] as Node).vector), model);
+      }
+    }
+    return index;
+  }
+
+  async save(file: string): Promise<void> {
+    const graphs: SerializedGraph[] = [];
+    const vectors: Float32Array[] = [];
+    for (const [model, graph] of this.graphs) {
+      graphs.push({
+        model,
+        dims: graph.dims,
+        entry: graph.entry,
+        nodes: graph.nodes.map(n => ({ id: n.id, level: n.level, links: n.links, deleted: n.deleted }))
+      });
+      vectors.push(...graph.nodes.map(n => n.vector));
+    }
+
+    const header = Buffer.from(JSON.stringify({ version: FORMAT_VERSION, m: this.m, efConstruction: this.efConstruction, graphs }));
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(header.length);
+    const body = vectors.map(v => Buffer.from(v.buffer, v.byteOffset, v.byteLength));
+
+    // Written aside and renamed, so a crash never leaves half an index
+    const temp = `${file}.tmp`;
+    await fs.writeFile(temp, Buffer.concat([length, header, ...body]));
+    await fs.rename(temp, file);
+  }
+
+  /** Reads an index saved by `save`; undefined when the file is missing or unreadable. */
+  static async load(file: string, options: VectorIndexConfig = {}): Promise<VectorIndex | undefined> {
+    let data: Buffer;
+    try {
+      data = await fs.readFile(file);
+    } catch {
+      return undefined;
+    }
+
+    try {
+      const headerLength = data.readUInt32LE(0);
+      const header = JSON.parse(data.subarray(4, 4 + headerLength).toString()) as {
+        version: number;
+        m: number;
+        efConstruction: number;
+        graphs: SerializedGraph[];
+      };
+      if (header.version !== FORMAT_VERSION) return undefined;
+
+      const index = new VectorIndex({ ...options, m: header.m, efConstruction: header.efConstruction });
+      let offset = 4 + headerLength;
+      for (const saved of header.graphs) {
+        const graph = new HnswGraph(saved.dims, header.m, header.efConstruction);
+        graph.entry = saved.entry;
+        for (const node of saved.nodes) {
+          const bytes = data.subarray(offset, offset + saved.dims * 4);
+          offset += saved.dims * 4;
+          const vector = new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+          graph.nodes.push({ ...node, vector });
+          if (!node.deleted) {
+            graph.byId.set(node.id, graph.nodes.length - 1);
+            index.models.set(node.id, saved.model);
+          }
+        }
+        index.graphs.set(saved.model, graph);
+      }
+      return index;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -169,7 +169,9 @@ function createMemoryStore(): Store {
           topLevelStartedAt: 0
         };
       }
-      return data[key];
+      const session = data[key];
+      session.id = key;
+      return session;
     },
     getAll() {
       return { ...data };
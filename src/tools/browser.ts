@@ -36,7 +36,7 @@ const ExtractSchema = z.object({
 });
 
 const ScreenshotSchema = z.object({
-  path: z.string().optional().describe('Path to save the screenshot (optional, returns base64 if not provided)'),
+  path: z.string().optional().describe('Path to save the screenshot (optional, returns the image to the model if not provided)'),
   fullPage: z.boolean().optional().default(false).describe('Capture full page')
 });
 
@@ -59,6 +59,7 @@ import os from 'os';
 
 const USER_DATA_DIR = path.join(os.homedir(), '.voltclaw', 'browser_data');
 
+// Every browser_* tool drives this single page, so they share one concurrencyKey
 async function getPage(): Promise<Page> {
   if (!browserInstance) {
     browserInstance = await chromium.launchPersistentContext(USER_DATA_DIR, {
@@ -79,6 +80,7 @@ async function getPage(): Promise<Page> {
 
 export const browserNavigateTool: Tool = {
   name: 'browser_navigate',
+  concurrencyKey: 'browser',
   description: 'Navigate the browser to a URL',
   parameters: {
     type: 'object',
@@ -102,6 +104,7 @@ export const browserNavigateTool: Tool = {
 
 export const browserClickTool: Tool = {
   name: 'browser_click',
+  concurrencyKey: 'browser',
   description: 'Click an element on the current page',
   parameters: {
     type: 'object',
@@ -124,6 +127,7 @@ export const browserClickTool: Tool = {
 
 export const browserTypeTool: Tool = {
   name: 'browser_type',
+  concurrencyKey: 'browser',
   description: 'Type text into an element on the current page',
   parameters: {
     type: 'object',
@@ -147,6 +151,7 @@ export const browserTypeTool: Tool = {
 
 export const browserExtractTool: Tool = {
   name: 'browser_extract',
+  concurrencyKey: 'browser',
   description: 'Extract text or attribute from an element',
   parameters: {
     type: 'object',
@@ -177,6 +182,7 @@ export const browserExtractTool: Tool = {
 
 export const browserScreenshotTool: Tool = {
   name: 'browser_screenshot',
+  concurrencyKey: 'browser',
   description: 'Take a screenshot of the current page',
   parameters: {
     type: 'object',
@@ -195,7 +201,8 @@ export const browserScreenshotTool: Tool = {
         return { status: 'success', path };
       }
 
-      return { status: 'success', base64: buffer.toString('base64').slice(0, 100) + '...' }; // Truncate for log
+      // Vision-capable models see the screenshot itself
+      return { status: 'success', parts: [{ type: 'image', mimeType: 'image/png', data: buffer.toString('base64') }] };
     } catch (error) {
       return { error: formatToolError('browser_screenshot', error, args) };
     }
@@ -204,6 +211,7 @@ export const browserScreenshotTool: Tool = {
 
 export const browserScrollTool: Tool = {
   name: 'browser_scroll',
+  concurrencyKey: 'browser',
   description: 'Scroll the page',
   parameters: {
     type: 'object',
@@ -241,6 +249,7 @@ export const browserScrollTool: Tool = {
 
 export const browserWaitTool: Tool = {
   name: 'browser_wait',
+  concurrencyKey: 'browser',
   description: 'Wait for an element or timeout',
   parameters: {
     type: 'object',
@@ -269,6 +278,7 @@ export const browserWaitTool: Tool = {
 
 export const browserEvalTool: Tool = {
   name: 'browser_eval',
+  concurrencyKey: 'browser',
   description: 'Evaluate JavaScript in the page context',
   parameters: {
     type: 'object',
@@ -294,6 +304,7 @@ export const browserEvalTool: Tool = {
 
 export const browserCloseTool: Tool = {
   name: 'browser_close',
+  concurrencyKey: 'browser',
   description: 'Close the browser instance',
   parameters: { type: 'object', properties: {} },
   execute: async (args: Record<string, unknown>): Promise<ToolCallResult> => {
@@ -312,6 +323,7 @@ export const browserCloseTool: Tool = {
 
 export const browserLoginTool: Tool = {
   name: 'browser_login',
+  concurrencyKey: 'browser',
   description: 'Open browser in non-headless mode for manual login. Waits for you to close the window.',
   parameters: {
     type: 'object',
@@ -1,10 +1,13 @@
 import type { Tool, ToolCallResult } from './types.js';
+import { tokenizerFor } from '../llm/tokenizer.js';
 
 export interface CallToolConfig {
   onCall: (args: {
     task: string;
     summary?: string;
     schema?: Record<string, unknown> | string;
+    budgetUSD?: number;
+    model?: string;
     depth: number;
   }) => Promise<ToolCallResult>;
   currentDepth: number;
@@ -28,8 +31,16 @@ export function createCallTool(config: CallToolConfig): Tool {
         },
         schema: {
           type: 'object',
-          description: 'Optional JSON schema or description of the required output structure',
+          description: 'Optional JSON schema for the output; the result is validated and returned parsed',
           properties: {} // Allow any object
+        },
+        budgetUSD: {
+          type: 'number',
+          description: 'Optional spend cap in USD for the child agent and everything it calls'
+        },
+        model: {
+          type: 'string',
+          description: 'Optional name of a router model to run the child agent on'
         }
       },
       required: ['task']
@@ -40,6 +51,8 @@ export function createCallTool(config: CallToolConfig): Tool {
       const task = String(args['task'] ?? '');
       const summary = args['summary'] !== undefined ? String(args['summary']) : undefined;
       const schema = args['schema'] as Record<string, unknown> | string | undefined;
+      const budgetUSD = typeof args['budgetUSD'] === 'number' ? args['budgetUSD'] : undefined;
+      const model = typeof args['model'] === 'string' ? args['model'] : undefined;
 
       if (!task) {
         return { error: 'Task is required for call' };
@@ -49,6 +62,8 @@ export function createCallTool(config: CallToolConfig): Tool {
         task,
         summary,
         schema,
+        budgetUSD,
+        model,
         depth: config.currentDepth + 1
       });
     }
@@ -69,7 +84,9 @@ export function createCallParallelTool(config: CallToolConfig): Tool {
             properties: {
               task: { type: 'string' },
               summary: { type: 'string' },
-              schema: { type: 'object', description: 'Optional JSON schema' }
+              schema: { type: 'object', description: 'Optional JSON schema' },
+              budgetUSD: { type: 'number', description: 'Optional spend cap in USD' },
+              model: { type: 'string', description: 'Optional router model name' }
             },
             required: ['task']
           },
@@ -89,26 +106,36 @@ export function createCallParallelTool(config: CallToolConfig): Tool {
   };
 }
 
-export function estimateTokens(text: string): number {
-  return Math.ceil((text?.length ?? 0) / 4);
+export function estimateTokens(text: string, provider = '', model = ''): number {
+  return tokenizerFor(provider, model).count(text ?? '');
 }
 
 export const estimateTokensTool: Tool = {
   name: 'estimate_tokens',
-  description: 'Estimate the number of tokens in a text string (rough approximation)',
+  description: 'Count the tokens in a text string with the tokenizer for a provider or model',
   parameters: {
     type: 'object',
     properties: {
       text: {
         type: 'string',
-        description: 'The text to estimate token count for'
+        description: 'The text to count tokens for'
+      },
+      provider: {
+        type: 'string',
+        description: 'Optional provider name, e.g. openai or anthropic'
+      },
+      model: {
+        type: 'string',
+        description: 'Optional model name, e.g. gpt-4o'
       }
     },
     required: ['text']
   },
   execute: async (args: Record<string, unknown>): Promise<ToolCallResult> => {
     const text = String(args['text'] ?? '');
-    const tokens = estimateTokens(text);
-    return { tokens, characters: text.length };
+    const provider = String(args['provider'] ?? '');
+    const model = String(args['model'] ?? '');
+    const tokenizer = tokenizerFor(provider, model);
+    return { tokens: tokenizer.count(text), characters: text.length, tokenizer: tokenizer.name };
   }
 };
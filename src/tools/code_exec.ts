@@ -1,6 +1,7 @@
 import vm from 'vm';
 import { Tool } from '../core/types.js';
-import { createRLMGlobals } from './rlm-helpers.js';
+import { createRLMGlobals, callerMemory } from './rlm-helpers.js';
+import { abortable } from '../core/utils.js';
 
 export interface CodeExecConfig {
   rlmTimeoutMs?: number;
@@ -8,6 +9,8 @@ export interface CodeExecConfig {
 }
 
 const replContexts = new Map<string, vm.Context>();
+// Signal of the execution currently running in each REPL session
+const replSignals = new Map<string, AbortSignal>();
 
 export function createCodeExecTool(config: CodeExecConfig = {}): Tool {
   const RLM_CALL_TIMEOUT_MS = config.rlmTimeoutMs ?? 60000;
@@ -29,7 +32,7 @@ export function createCodeExecTool(config: CodeExecConfig = {}): Tool {
       },
       required: ['code']
     },
-    async execute(args: Record<string, unknown>, agent: any, session: any, from?: string) {
+    async execute(args: Record<string, unknown>, agent: any, session: any, from?: string, signal?: AbortSignal) {
       const code = args.code as string;
       const userSessionId = (args.sessionId as string) || 'default';
       // Scope the REPL session to the current agent session (e.g. subtask) to prevent collisions in RLM
@@ -37,7 +40,11 @@ export function createCodeExecTool(config: CodeExecConfig = {}): Tool {
       const contextKeys = (args.contextKeys as string[]) || [];
 
       if (!replContexts.has(internalSessionId)) {
-        const execTool = (name: string, args: any) => agent.executeTool(name, args, session, from || 'unknown');
+        // The context outlives a single execution, so read the signal of the current one
+        const currentSignal = (): AbortSignal | undefined => replSignals.get(internalSessionId);
+        // Without a caller, the agent itself is running the code
+        const caller = from ?? 'self';
+        const execTool = (name: string, args: any) => agent.executeTool(name, args, session, caller, currentSignal());
 
         // Helpers
         const fs = {
@@ -83,7 +90,8 @@ export function createCodeExecTool(config: CodeExecConfig = {}): Tool {
                         const messages = [];
                         if (system) messages.push({ role: 'system', content: system });
                         messages.push({ role: 'user', content: prompt });
-                        const res = await agent.llm.chat(messages);
+                        const llmSignal = currentSignal();
+                        const res = llmSignal ? await agent.llm.chat(messages, { signal: llmSignal }) : await agent.llm.chat(messages);
                         return res.content;
                     }
                 }
@@ -134,6 +142,7 @@ export function createCodeExecTool(config: CodeExecConfig = {}): Tool {
                           type: 'subtask_log',
                           subId: session.id,
                           taskId: session.id,
+                          rootId: session.rootId,
                           message: msg,
                           level: 'info'
                       });
@@ -152,6 +161,7 @@ export function createCodeExecTool(config: CodeExecConfig = {}): Tool {
                           type: 'subtask_log',
                           subId: session.id,
                           taskId: session.id,
+                          rootId: session.rootId,
                           message: msg,
                           level: 'error'
                       });
@@ -165,10 +175,11 @@ export function createCodeExecTool(config: CodeExecConfig = {}): Tool {
         const resolveRLMRef = async (result: any) => {
               let output = result;
               // Transparently resolve RLM Reference
-              if (typeof output === 'string' && output.startsWith('[RLM_REF:') && agent.memory) {
+              const memory = callerMemory(agent, session, caller);
+              if (typeof output === 'string' && output.startsWith('[RLM_REF:') && memory) {
                    const refId = output.slice(9, -1);
                    try {
-                       const entries = await agent.memory.recall({ id: refId });
+                       const entries = await memory.recall({ id: refId });
                        if (entries && entries.length > 0) {
                            entries.sort((a: any, b: any) => {
                                const idxA = (a.metadata as any)?.chunkIndex ?? 0;
@@ -196,12 +207,14 @@ export function createCodeExecTool(config: CodeExecConfig = {}): Tool {
         const rlmGlobals = createRLMGlobals(
             agent,
             session,
+            caller,
             internalSessionId,
             contextKeys,
             resolveRLMRef,
             RLM_CALL_TIMEOUT_MS,
             CONTEXT_SIZE_THRESHOLD,
-            replContexts
+            replContexts,
+            currentSignal
         );
         Object.assign(ctxObj, rlmGlobals);
 
@@ -212,6 +225,11 @@ export function createCodeExecTool(config: CodeExecConfig = {}): Tool {
       const logs: string[] = [];
       const ctx = replContexts.get(internalSessionId)!;
       (ctx as any).__log_collector = logs;
+      if (signal) {
+        replSignals.set(internalSessionId, signal);
+      } else {
+        replSignals.delete(internalSessionId);
+      }
 
       try {
         const result = vm.runInContext(code, ctx, {
@@ -220,7 +238,7 @@ export function createCodeExecTool(config: CodeExecConfig = {}): Tool {
 
         let output = result;
         if (result && typeof result.then === 'function') {
-            output = await result;
+            output = await abortable(result, signal);
         }
 
         return {
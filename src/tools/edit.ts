@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { readFile, writeFile } from 'fs/promises';
 import type { Tool, ToolCallResult } from './types.js';
+import { fileConcurrencyKey } from './files.js';
 
 const EditSchema = z.object({
   path: z.string().describe('File to edit'),
@@ -11,6 +12,7 @@ const EditSchema = z.object({
 
 export const editTool: Tool = {
   name: 'edit',
+  concurrencyKey: fileConcurrencyKey,
   description: 'Edit a file by replacing specific text. Use for targeted modifications without rewriting entire file.',
   parameters: {
     type: 'object',
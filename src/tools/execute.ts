@@ -32,7 +32,7 @@ export const executeTool: Tool = {
     },
     required: ['command']
   },
-  execute: async (args: Record<string, unknown>): Promise<ToolCallResult> => {
+  execute: async (args: Record<string, unknown>, _agent?: unknown, _session?: unknown, _from?: string, signal?: AbortSignal): Promise<ToolCallResult> => {
     const parsed = ExecuteSchema.safeParse(args);
     if (!parsed.success) {
       return { error: `Invalid arguments: ${parsed.error.issues[0]?.message}` };
@@ -51,6 +51,7 @@ export const executeTool: Tool = {
       const { stdout, stderr } = await execAsync(command, {
         timeout,
         cwd,
+        signal,
         maxBuffer: 1024 * 1024 * 10  // 10MB buffer
       });
 
@@ -61,6 +62,9 @@ export const executeTool: Tool = {
         truncated: stdout.length > 50000
       };
     } catch (error: any) {
+      if (error.name === 'AbortError') {
+        return { error: 'Command cancelled' };
+      }
       if (error.killed) {
         return { error: `Command timed out after ${timeout}ms` };
       }
@@ -1,6 +1,6 @@
 import { z } from 'zod';
 import { readFile, writeFile } from 'fs/promises';
-import { join } from 'path';
+import { join, resolve } from 'path';
 
 import type { Tool, ToolCallResult } from './types.js';
 import { formatToolError } from './errors.js';
@@ -13,8 +13,14 @@ const WriteFileSchema = FileSchema.extend({
   content: z.string().describe('The content to write to the file')
 });
 
+// Reads and writes of the same file from one turn run in the order they were requested
+export function fileConcurrencyKey(args: Record<string, unknown>): string | undefined {
+  return typeof args.path === 'string' ? `file:${resolve(args.path)}` : undefined;
+}
+
 export const readFileTool: Tool = {
   name: 'read_file',
+  concurrencyKey: fileConcurrencyKey,
   description: 'Read the contents of a file',
   parameters: {
     type: 'object',
@@ -36,6 +42,7 @@ export const readFileTool: Tool = {
 
 export const writeFileTool: Tool = {
   name: 'write_file',
+  concurrencyKey: fileConcurrencyKey,
   description: 'Write content to a file',
   parameters: {
     type: 'object',
@@ -1,7 +1,17 @@
-import type { Tool, ToolCallResult } from '../core/types.js';
+import type { Tool, ToolCallResult, ToolParameterProperty, Session } from '../core/types.js';
 import type { GraphManager } from '../memory/graph.js';
+import type { MemoryAccessResolver } from './memory.js';
+
+const SCOPES_PARAMETER: ToolParameterProperty = {
+  type: 'array',
+  items: { type: 'string' },
+  description: "Scopes to read. Defaults to global plus your user and session scopes; admins may name others, or '*' for all"
+};
+
+export function createGraphTools(manager: GraphManager, resolveAccess?: MemoryAccessResolver): Tool[] {
+  const forCaller = (from?: string, session?: Session): GraphManager =>
+    from !== undefined && resolveAccess ? manager.withAccess(resolveAccess(from, session)) : manager;
 
-export function createGraphTools(manager: GraphManager): Tool[] {
   return [
     {
       name: 'graph_extract',
@@ -12,14 +22,18 @@ export function createGraphTools(manager: GraphManager): Tool[] {
           text: {
             type: 'string',
             description: 'The text to analyze'
+          },
+          scope: {
+            type: 'string',
+            description: "Who may read the entities: 'user' (default), 'session' or 'global' (admins only)"
           }
         },
         required: ['text']
       },
-      execute: async (args: Record<string, unknown>) => {
+      execute: async (args: Record<string, unknown>, _agent, session, from) => {
         const text = args.text as string;
         try {
-          await manager.extractAndStore(text);
+          await forCaller(from, session).extractAndStore(text, args.scope as string | undefined);
           return { result: 'Graph extraction successful' };
         } catch (error) {
           return { error: String(error) };
@@ -35,13 +49,14 @@ export function createGraphTools(manager: GraphManager): Tool[] {
           nodeId: {
             type: 'string',
             description: 'The ID (name) of the node to query'
-          }
+          },
+          scopes: SCOPES_PARAMETER
         },
         required: ['nodeId']
       },
-      execute: async (args: Record<string, unknown>) => {
+      execute: async (args: Record<string, unknown>, _agent, session, from) => {
         const nodeId = args.nodeId as string;
-        const result = await manager.getNeighbors(nodeId);
+        const result = await forCaller(from, session).getNeighbors(nodeId, args.scopes as string[] | undefined);
         return {
           nodes: result.nodes.map(n => `${n.id} (${n.label})`),
           edges: result.edges.map(e => `${e.source} --[${e.relation}]--> ${e.target}`)
@@ -57,13 +72,14 @@ export function createGraphTools(manager: GraphManager): Tool[] {
           query: {
             type: 'string',
             description: 'Search term'
-          }
+          },
+          scopes: SCOPES_PARAMETER
         },
         required: ['query']
       },
-      execute: async (args: Record<string, unknown>) => {
+      execute: async (args: Record<string, unknown>, _agent, session, from) => {
         const query = args.query as string;
-        const nodes = await manager.search(query);
+        const nodes = await forCaller(from, session).search(query, args.scopes as string[] | undefined);
         return {
           matches: nodes.map(n => ({ id: n.id, label: n.label }))
         };
@@ -82,14 +98,15 @@ export function createGraphTools(manager: GraphManager): Tool[] {
           depth: {
             type: 'number',
             description: 'Traversal depth (default 1)'
-          }
+          },
+          scopes: SCOPES_PARAMETER
         },
         required: ['nodeId']
       },
-      execute: async (args: Record<string, unknown>) => {
+      execute: async (args: Record<string, unknown>, _agent, session, from) => {
         const nodeId = args.nodeId as string;
         const depth = (args.depth as number) ?? 1;
-        const { nodes, edges } = await manager.getSubgraph(nodeId, depth);
+        const { nodes, edges } = await forCaller(from, session).getSubgraph(nodeId, depth, args.scopes as string[] | undefined);
 
         let mermaid = 'graph TD\n';
         for (const node of nodes) {
@@ -1,7 +1,19 @@
-import type { Tool, MemoryEntry } from '../core/types.js';
+import type { Tool, ToolParameterProperty, MemoryEntry, MemoryAccess, Session } from '../core/types.js';
 import type { MemoryManager } from '../memory/manager.js';
 
-export function createMemoryTools(manager: MemoryManager): Tool[] {
+/** Maps the caller of a tool to the memory it may use; undefined leaves every scope open. */
+export type MemoryAccessResolver = (from: string, session?: Session) => MemoryAccess | undefined;
+
+const SCOPES_PARAMETER: ToolParameterProperty = {
+  type: 'array',
+  items: { type: 'string' },
+  description: "Scopes to search. Defaults to global plus your user and session scopes; admins may name others, or '*' for all"
+};
+
+export function createMemoryTools(manager: MemoryManager, resolveAccess?: MemoryAccessResolver): Tool[] {
+  const forCaller = (from?: string, session?: Session): MemoryManager =>
+    from !== undefined && resolveAccess ? manager.withAccess(resolveAccess(from, session)) : manager;
+
   return [
     {
       name: 'memory_store',
@@ -12,40 +24,64 @@ export function createMemoryTools(manager: MemoryManager): Tool[] {
           content: { type: 'string', description: 'The content of the memory' },
           type: { type: 'string', enum: ['working', 'long_term', 'episodic'], description: 'Type of memory' },
           tags: { type: 'array', items: { type: 'string' }, description: 'Tags for retrieval' },
-          importance: { type: 'number', description: 'Importance score (1-10)' }
+          importance: { type: 'number', description: 'Importance score (1-10)' },
+          scope: {
+            type: 'string',
+            description: "Who may recall it: 'user' (default, only this user), 'session' (only this conversation) or 'global' (everyone; admins only)"
+          }
         },
         required: ['content']
       },
-      execute: async (args) => {
-        const id = await manager.storeMemory(
-          args.content as string,
-          (args.type as MemoryEntry['type']) ?? 'working',
-          (args.tags as string[]) ?? [],
-          (args.importance as number) ?? 1
-        );
+      execute: async (args, _agent, session, from) => {
+        const memory = forCaller(from, session);
+        const type = (args.type as MemoryEntry['type']) ?? 'working';
+        const tags = (args.tags as string[]) ?? [];
+        const importance = (args.importance as number) ?? 1;
+        const id = args.scope !== undefined
+          ? await memory.storeMemory(args.content as string, type, tags, importance, 1, undefined, { scope: args.scope as string })
+          : await memory.storeMemory(args.content as string, type, tags, importance);
         return { status: 'stored', id };
       }
     },
     {
       name: 'memory_recall',
-      description: 'Retrieve memories by semantic search or tags.',
+      description: 'Search memories by words and meaning, best first. Results are ranked by relevance, importance and recency; each has a score and, for text matches, a snippet with the matched words in **bold**.',
       parameters: {
         type: 'object',
         properties: {
           id: { type: 'string', description: 'Query by specific memory ID' },
           query: { type: 'string', description: 'Text to search for' },
-          tags: { type: 'array', items: { type: 'string' }, description: 'Filter by tags' },
+          tags: { type: 'array', items: { type: 'string' }, description: 'Only memories with all of these tags' },
+          scopes: SCOPES_PARAMETER,
           limit: { type: 'number', description: 'Max results' }
         }
       },
-      execute: async (args) => {
-        const results = await manager.recall({
+      execute: async (args, _agent, session, from) => {
+        const results = await forCaller(from, session).recall({
           id: args.id as string | undefined,
           content: args.query as string | undefined,
           tags: args.tags as string[] | undefined,
+          ...(args.scopes !== undefined ? { scopes: args.scopes as string[] } : {}),
           limit: (args.limit as number) ?? 5
         });
-        return { status: 'found', count: results.length, results };
+        return {
+          status: 'found',
+          count: results.length,
+          // Embeddings are left out: they mean nothing to the model and crowd its context
+          results: results.map(m => ({
+            id: m.id,
+            score: m.score,
+            snippet: m.snippet,
+            content: m.content,
+            type: m.type,
+            tags: m.tags,
+            importance: m.importance,
+            timestamp: m.timestamp,
+            contextId: m.contextId,
+            scope: m.scope,
+            metadata: m.metadata
+          }))
+        };
       }
     },
     {
@@ -58,8 +94,8 @@ export function createMemoryTools(manager: MemoryManager): Tool[] {
         },
         required: ['id']
       },
-      execute: async (args) => {
-        await manager.forget(args.id as string);
+      execute: async (args, _agent, session, from) => {
+        await forCaller(from, session).forget(args.id as string);
         return { status: 'removed', id: args.id };
       }
     },
@@ -71,8 +107,8 @@ export function createMemoryTools(manager: MemoryManager): Tool[] {
         properties: {},
         required: []
       },
-      execute: async () => {
-        const memories = await manager.export();
+      execute: async (_args, _agent, session, from) => {
+        const memories = await forCaller(from, session).export();
         return { status: 'exported', count: memories.length, memories };
       }
     },
@@ -88,12 +124,12 @@ export function createMemoryTools(manager: MemoryManager): Tool[] {
         },
         required: ['contextId']
       },
-      execute: async (args) => {
+      execute: async (args, _agent, session, from) => {
         const contextId = args.contextId as string;
         const limit = (args.limit as number) ?? 10;
         const offset = (args.offset as number) ?? 0;
 
-        const results = await manager.recall({
+        const results = await forCaller(from, session).recall({
           contextId,
           limit,
           offset
@@ -123,9 +159,11 @@ export function createMemoryTools(manager: MemoryManager): Tool[] {
         properties: {},
         required: []
       },
-      execute: async (_args, agent) => {
+      execute: async (_args, agent, session, from) => {
+        const memory = forCaller(from, session);
+
         // 1. Retrieve recent working memories
-        const recentMemories = await manager.recall({ type: 'working', limit: 50 });
+        const recentMemories = await memory.recall({ type: 'working', limit: 50 });
 
         // Cast agent to allow calling query (avoiding circular type import)
         const voltclaw = agent as any;
@@ -137,10 +175,11 @@ export function createMemoryTools(manager: MemoryManager): Tool[] {
              try {
                  // Use a specialized query or just standard query.
                  // Note: querying might trigger recursive calls or tools, which is fine but we want a direct answer.
-                 const summary = await voltclaw.query(prompt);
+                 // Own session: this tool usually runs inside a turn on 'self'
+                 const summary = await voltclaw.query(prompt, { sessionId: 'memory:consolidate' });
 
                  // Store summary
-                 await manager.storeMemory(
+                 await memory.storeMemory(
                      summary,
                      'long_term',
                      ['summary', 'consolidation'],
@@ -1,7 +1,11 @@
-import type { Tool } from '../core/types.js';
+import type { Tool, Session } from '../core/types.js';
 import type { PromptManager } from '../core/prompt-manager.js';
+import type { MemoryAccessResolver } from './memory.js';
+
+export function createPromptTools(manager: PromptManager, resolveAccess?: MemoryAccessResolver): Tool[] {
+  const forCaller = (from?: string, session?: Session): PromptManager =>
+    from !== undefined && resolveAccess ? manager.withAccess(resolveAccess(from, session)) : manager;
 
-export function createPromptTools(manager: PromptManager): Tool[] {
   return [
     {
       name: 'prompt_get',
@@ -10,15 +14,20 @@ export function createPromptTools(manager: PromptManager): Tool[] {
         type: 'object',
         properties: {
           id: { type: 'string', description: 'Template ID' },
-          version: { type: 'number', description: 'Version number (optional, defaults to latest)' }
+          version: { type: 'number', description: 'Version number (optional, defaults to latest)' },
+          scopes: {
+            type: 'array',
+            items: { type: 'string' },
+            description: "Scopes to look in. Defaults to global plus your user and session scopes; admins may name others, or '*' for all"
+          }
         },
         required: ['id']
       },
-      execute: async (args: Record<string, unknown>) => {
+      execute: async (args: Record<string, unknown>, _agent, session, from) => {
         const id = args.id as string;
         const version = args.version as number | undefined;
         try {
-          const content = await manager.getPrompt(id, version);
+          const content = await forCaller(from, session).getPrompt(id, version, args.scopes as string[] | undefined);
           return { result: content };
         } catch (error) {
           return { error: String(error) };
@@ -33,16 +42,20 @@ export function createPromptTools(manager: PromptManager): Tool[] {
         properties: {
           id: { type: 'string', description: 'Unique Template ID' },
           description: { type: 'string', description: 'Description of the prompt purpose' },
-          content: { type: 'string', description: 'Initial prompt content' }
+          content: { type: 'string', description: 'Initial prompt content' },
+          scope: {
+            type: 'string',
+            description: "Who may use it: 'user' (default), 'session' or 'global' (admins only)"
+          }
         },
         required: ['id', 'description', 'content']
       },
-      execute: async (args: Record<string, unknown>) => {
+      execute: async (args: Record<string, unknown>, _agent, session, from) => {
         const id = args.id as string;
         const description = args.description as string;
         const content = args.content as string;
         try {
-          await manager.createTemplate(id, description, content);
+          await forCaller(from, session).createTemplate(id, description, content, args.scope as string | undefined);
           return { result: `Prompt template ${id} created successfully.` };
         } catch (error) {
           return { error: String(error) };
@@ -61,12 +74,12 @@ export function createPromptTools(manager: PromptManager): Tool[] {
         },
         required: ['id', 'content', 'changelog']
       },
-      execute: async (args: Record<string, unknown>) => {
+      execute: async (args: Record<string, unknown>, _agent, session, from) => {
         const id = args.id as string;
         const content = args.content as string;
         const changelog = args.changelog as string;
         try {
-          await manager.updatePrompt(id, content, changelog);
+          await forCaller(from, session).updatePrompt(id, content, changelog);
           return { result: `Prompt ${id} updated successfully.` };
         } catch (error) {
           return { error: String(error) };
@@ -84,11 +97,11 @@ export function createPromptTools(manager: PromptManager): Tool[] {
         },
         required: ['id', 'feedback']
       },
-      execute: async (args: Record<string, unknown>) => {
+      execute: async (args: Record<string, unknown>, _agent, session, from) => {
         const id = args.id as string;
         const feedback = args.feedback as string;
         try {
-          const optimized = await manager.optimizePrompt(id, feedback);
+          const optimized = await forCaller(from, session).optimizePrompt(id, feedback);
           return { result: optimized };
         } catch (error) {
           return { error: String(error) };
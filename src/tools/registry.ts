@@ -6,7 +6,8 @@ export type ToolExecutor = (
   args: Record<string, unknown>,
   agent?: any,
   session?: any,
-  from?: string
+  from?: string,
+  signal?: AbortSignal
 ) => Promise<ToolCallResult> | ToolCallResult;
 
 interface RegisteredTool {
@@ -1,6 +1,18 @@
 
-export function createRLMGlobals(agent: any, session: any, internalSessionId: string, contextKeys: string[], resolveRLMRef: (r: any) => Promise<any>, RLM_CALL_TIMEOUT_MS: number, CONTEXT_SIZE_THRESHOLD: number, replContexts: Map<string, any>) {
+import { sessionScope } from '../memory/scope.js';
+import type { VoltClawAgent } from '../core/agent.js';
+import type { Session } from '../core/types.js';
+import type { MemoryManager } from '../memory/manager.js';
+
+/** The agent's memory as `from` may see it in `session`; agents without scopes share it whole. */
+export function callerMemory(agent: VoltClawAgent | undefined, session: Session | undefined, from: string): MemoryManager | undefined {
+    if (agent?.memory === undefined || typeof agent.memoryAccess !== 'function') return agent?.memory;
+    return agent.memory.withAccess(agent.memoryAccess(from, session));
+}
+
+export function createRLMGlobals(agent: any, session: any, from: string, internalSessionId: string, contextKeys: string[], resolveRLMRef: (r: any) => Promise<any>, RLM_CALL_TIMEOUT_MS: number, CONTEXT_SIZE_THRESHOLD: number, replContexts: Map<string, any>, currentSignal: () => AbortSignal | undefined) {
     const ctxObj: any = {};
+    const treeId: string | undefined = session.rootId ?? session.id;
 
     ctxObj.rlm_shared_set = async (key: string, value: any) => {
          const rootId = session.rootId || session.id;
@@ -104,10 +116,13 @@ export function createRLMGlobals(agent: any, session: any, internalSessionId: st
 
          while (currentId && store) {
              const sess = store.get(currentId);
+             // Sub-agent sessions have a call-tree node with task, status and cost
+             const node = agent.callTree?.nodeForSession(sess);
              trace.push({
                  id: currentId,
                  depth: sess.depth,
-                 role: sess.parentId ? 'subagent' : 'root'
+                 role: sess.parentId ? 'subagent' : 'root',
+                 ...(node !== undefined ? { task: node.task, status: node.status, costUSD: node.costUSD } : {})
              });
              currentId = sess.parentId;
              if (trace.length > 50) break;
@@ -115,6 +130,12 @@ export function createRLMGlobals(agent: any, session: any, internalSessionId: st
          return trace;
     };
 
+    // RLM Global: every sub-agent call made in this recursion tree
+    ctxObj.rlm_tree = async (): Promise<unknown[]> => {
+         if (treeId === undefined || agent.callTree === undefined) return [];
+         return agent.callTree.nodes(treeId);
+    };
+
     // RLM Global: Map
     ctxObj.rlm_map = async (items: any[], mapper: (item: any, index: number) => any) => {
         if (!Array.isArray(items)) throw new Error('rlm_map expects an array');
@@ -153,15 +174,8 @@ export function createRLMGlobals(agent: any, session: any, internalSessionId: st
 
         const results = await ctxObj.rlm_call_parallel(tasks);
 
-        // Filter items where result is true
-        return items.filter((_, i) => {
-            const res = results[i];
-            try {
-                return JSON.parse(res.result) === true;
-            } catch {
-                return false;
-            }
-        });
+        // Filter items where result is true (results come back parsed against the boolean schema)
+        return items.filter((_, i) => results[i]?.result === true);
     };
 
     // RLM Global: Reduce
@@ -185,8 +199,9 @@ export function createRLMGlobals(agent: any, session: any, internalSessionId: st
 
     // Helper to load context by ID easily
     ctxObj.load_context = async (id: string) => {
-         if (agent.memory) {
-             const entries = await agent.memory.recall({ id });
+         const memory = callerMemory(agent, session, from);
+         if (memory !== undefined) {
+             const entries = await memory.recall({ id });
              if (entries && entries.length > 0) {
                  entries.sort((a: any, b: any) => {
                      const idxA = (a.metadata as any)?.chunkIndex ?? 0;
@@ -223,12 +238,17 @@ export function createRLMGlobals(agent: any, session: any, internalSessionId: st
 
            try {
               const contextStr = JSON.stringify(extracted);
-              if (contextStr.length > CONTEXT_SIZE_THRESHOLD && agent.memory) {
-                const memoryId = await agent.memory.storeMemory(
+              const memory = callerMemory(agent, session, from);
+              if (contextStr.length > CONTEXT_SIZE_THRESHOLD && memory !== undefined) {
+                const memoryId = await memory.storeMemory(
                   contextStr,
                   'working',
                   ['rlm_context', `session:${internalSessionId}`],
-                  10 // High importance
+                  10, // High importance
+                  1,
+                  undefined,
+                  // Readable by the sub-agent, which runs in the same call tree
+                  { scope: treeId !== undefined ? sessionScope(treeId) : undefined }
                 );
                 summary = `RLM Context stored in memory. Use memory_recall(id='${memoryId}') to retrieve it.`;
               } else {
@@ -243,7 +263,7 @@ export function createRLMGlobals(agent: any, session: any, internalSessionId: st
           task: subtask,
           summary,
           schema
-        }, session, 'unknown');
+        }, session, from, currentSignal());
 
         // Timeout logic
         let timeoutId: NodeJS.Timeout;
@@ -255,8 +275,10 @@ export function createRLMGlobals(agent: any, session: any, internalSessionId: st
           const result: any = await Promise.race([callPromise, timeoutPromise]);
           clearTimeout(timeoutId!);
 
-          // Return the inner result if available (standard success), otherwise the whole object (error/mock)
-          return resolveRLMRef(result?.result ?? result);
+          // Return the inner result if available (standard success), otherwise the whole object (error/mock).
+          // With a schema the inner result is already parsed and may be falsy.
+          const inner = result !== null && typeof result === 'object' && 'result' in result ? result.result : result;
+          return resolveRLMRef(inner);
         } catch (e) {
            clearTimeout(timeoutId!);
            throw e; // Propagate error
@@ -266,7 +288,7 @@ export function createRLMGlobals(agent: any, session: any, internalSessionId: st
     ctxObj.rlm_call_parallel = async (tasks: Array<{ task: string, summary?: string, schema?: any }>) => {
          const callPromise = agent.executeTool('call_parallel', {
               tasks
-         }, session, 'unknown');
+         }, session, from, currentSignal());
 
          // Timeout logic
         let timeoutId: NodeJS.Timeout;
@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import { UsageTracker } from '../../src/core/accounting.js';
+import { VoltClawAgent } from '../../src/core/agent.js';
+import { BudgetExceededError } from '../../src/core/errors.js';
+import { getModelPricing, calculateCostUSD } from '../../src/llm/pricing.js';
+import { MemoryStore } from '../../src/memory/index.js';
+import type { Channel, ChatMessage, ChatResponse, LLMProvider, MessageHandler, Unsubscribe } from '../../src/core/types.js';
+
+const channel: Channel = {
+  type: 'memory',
+  identity: { publicKey: 'test' },
+  start: async () => {},
+  stop: async () => {},
+  send: async () => {},
+  subscribe: () => () => {},
+  on: () => {}
+};
+
+class LoopbackChannel implements Channel {
+  readonly type = 'memory';
+  readonly identity = { publicKey: 'loopback' };
+  private handlers: MessageHandler[] = [];
+
+  async start(): Promise<void> {}
+  async stop(): Promise<void> {}
+  async send(to: string, content: string): Promise<void> {
+    if (to !== this.identity.publicKey) return;
+    setTimeout(() => {
+      for (const h of this.handlers) void h(to, content, { timestamp: Date.now() });
+    }, 0);
+  }
+  subscribe(handler: MessageHandler): Unsubscribe {
+    this.handlers.push(handler);
+    return () => {};
+  }
+  on(): void {}
+}
+
+// gpt-4o prompt tokens cost $2.50 per million, so 400k tokens is $1
+const ONE_DOLLAR = { promptTokens: 400_000, completionTokens: 0 };
+
+/** Root and child answers keyed off the depth in the system prompt. */
+function createTreeProvider(root: (last?: ChatMessage) => ChatResponse, child: (last?: ChatMessage) => ChatResponse): LLMProvider {
+  return {
+    name: 'openai',
+    model: 'gpt-4o',
+    chat: async (messages) => {
+      const system = messages.find(m => m.role === 'system')?.content ?? '';
+      const last = messages[messages.length - 1];
+      return system.includes('Depth: 1') ? child(last) : root(last);
+    }
+  };
+}
+
+const callChild = (args: Record<string, unknown> = {}) => (last?: ChatMessage): ChatResponse =>
+  last?.role === 'tool'
+    ? { content: last.content ?? '' }
+    : { content: '', toolCalls: [{ id: 'c1', name: 'call', arguments: { task: 'child work', ...args } }] };
+
+function createProvider(responses: ChatResponse[]): LLMProvider {
+  let i = 0;
+  return {
+    name: 'openai',
+    model: 'gpt-4o',
+    chat: async () => responses[Math.min(i++, responses.length - 1)]!
+  };
+}
+
+describe('pricing', () => {
+  it('matches the longest model prefix', () => {
+    expect(getModelPricing('openai', 'gpt-4o-mini-2024-07-18').promptPerMillion).toBe(0.15);
+    expect(getModelPricing('openai', 'gpt-4o-2024-08-06').promptPerMillion).toBe(2.5);
+  });
+
+  it('treats local providers as free and honours overrides', () => {
+    expect(getModelPricing('ollama', 'llama3.2')).toEqual({ promptPerMillion: 0, completionPerMillion: 0 });
+    expect(getModelPricing('openai', 'my-model', { 'my-model': { promptPerMillion: 1, completionPerMillion: 2 } }))
+      .toEqual({ promptPerMillion: 1, completionPerMillion: 2 });
+  });
+
+  it('calculates cost from token usage', () => {
+    const cost = calculateCostUSD(
+      { promptTokens: 1_000_000, completionTokens: 500_000 },
+      { promptPerMillion: 2, completionPerMillion: 8 }
+    );
+    expect(cost).toBeCloseTo(6);
+  });
+});
+
+describe('UsageTracker', () => {
+  it('rolls usage up from a subtask session to its ancestors', async () => {
+    const store = new MemoryStore();
+    const root = store.get('self', true);
+    root.rootId = 'self';
+    const child = store.get('subtask:a');
+    child.parentId = 'self';
+    child.rootId = 'self';
+
+    const tracker = new UsageTracker(store);
+    const llm = tracker.meter(createProvider([
+      { content: 'ok', usage: { promptTokens: 1000, completionTokens: 100 } }
+    ]));
+
+    await tracker.run(child, () => llm.chat([{ role: 'user', content: 'hi' }]));
+
+    expect(child.actualTokensUsed).toBe(1100);
+    expect(root.actualTokensUsed).toBe(1100);
+    expect(root.tokenUsage).toEqual({ promptTokens: 1000, completionTokens: 100 });
+    expect(root.estCostUSD).toBeCloseTo((1000 * 2.5 + 100 * 10) / 1_000_000);
+    expect(tracker.getTotals().promptTokens).toBe(1000);
+  });
+
+  it('ignores usage outside of a session scope', async () => {
+    const store = new MemoryStore();
+    const tracker = new UsageTracker(store);
+    const llm = tracker.meter(createProvider([{ content: 'ok', usage: { promptTokens: 10, completionTokens: 5 } }]));
+
+    await llm.chat([{ role: 'user', content: 'hi' }]);
+    expect(store.get('self', true).actualTokensUsed).toBe(0);
+    expect(tracker.getTotals().completionTokens).toBe(5);
+  });
+});
+
+describe('budget enforcement', () => {
+  it('stops the agent loop once real spend exceeds budgetUSD', async () => {
+    const store = new MemoryStore();
+    const agent = new VoltClawAgent({
+      llm: createProvider([{
+        content: '',
+        toolCalls: [{ id: 'tc', name: 'noop', arguments: {} }],
+        usage: { promptTokens: 1_000_000, completionTokens: 0 }
+      }]),
+      channel,
+      persistence: store,
+      call: { budgetUSD: 1 },
+      tools: [{ name: 'noop', description: 'Does nothing', execute: async () => ({ ok: true }) }]
+    });
+
+    await expect(agent.query('spend')).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(store.get('self', true).estCostUSD).toBeCloseTo(2.5);
+  });
+
+  it('caps a child at its allocated budget and charges its spend to the root', async () => {
+    const store = new MemoryStore();
+    const agent = new VoltClawAgent({
+      llm: createTreeProvider(callChild({ budgetUSD: 1 }), () => ({
+        content: '',
+        toolCalls: [{ id: 'n1', name: 'noop', arguments: {} }],
+        usage: ONE_DOLLAR
+      })),
+      channel: new LoopbackChannel(),
+      persistence: store,
+      call: { budgetUSD: 10, timeoutMs: 5000 },
+      tools: [{ name: 'noop', description: 'Does nothing', execute: async () => ({ ok: true }) }]
+    });
+    await agent.start();
+
+    try {
+      const reply = JSON.parse(await agent.query('delegate')) as Record<string, unknown>;
+      expect(reply.error).toContain('Budget exceeded');
+      expect(store.get('self', true).estCostUSD).toBeCloseTo(1);
+      expect(agent.callTree.nodes('self')[0]).toMatchObject({ budgetUSD: 1, status: 'failed' });
+    } finally {
+      await agent.stop();
+    }
+  });
+
+  it('surfaces a tree-wide overrun at the root with a per-node breakdown', async () => {
+    let childCalls = 0;
+    const agent = new VoltClawAgent({
+      llm: createTreeProvider(callChild(), () => childCalls++ === 0
+        ? { content: '', toolCalls: [{ id: 'n1', name: 'noop', arguments: {} }], usage: ONE_DOLLAR }
+        : { content: 'child done', usage: ONE_DOLLAR }),
+      channel: new LoopbackChannel(),
+      persistence: new MemoryStore(),
+      call: { budgetUSD: 1.5, timeoutMs: 5000 },
+      tools: [{ name: 'noop', description: 'Does nothing', execute: async () => ({ ok: true }) }]
+    });
+    await agent.start();
+
+    try {
+      const error = await agent.query('delegate').catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(BudgetExceededError);
+      const budgetError = error as BudgetExceededError;
+      expect(budgetError.sessionId).toBe('self');
+      expect(budgetError.breakdown).toHaveLength(2);
+      expect(budgetError.breakdown[0]).toMatchObject({ sessionId: 'self', budgetUSD: 1.5, calls: 1 });
+      // The root's own (estimated) usage is taken off before the child's share
+      expect(budgetError.breakdown[1]).toMatchObject({ task: 'child work', depth: 1 });
+      expect(budgetError.breakdown[1]?.budgetUSD).toBeCloseTo(1.5, 2);
+      expect(budgetError.breakdown[1]?.costUSD).toBeCloseTo(2);
+    } finally {
+      await agent.stop();
+    }
+  });
+
+  it('applies maxCalls to the whole tree rather than per node', async () => {
+    const agent = new VoltClawAgent({
+      llm: createTreeProvider(callChild(), callChild()),
+      channel: new LoopbackChannel(),
+      persistence: new MemoryStore(),
+      call: { maxCalls: 1, timeoutMs: 5000 }
+    });
+    await agent.start();
+
+    try {
+      expect(await agent.query('delegate')).toContain('Max calls exceeded');
+      expect(agent.callTree.nodes('self')).toHaveLength(1);
+    } finally {
+      await agent.stop();
+    }
+  });
+});
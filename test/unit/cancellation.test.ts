@@ -0,0 +1,124 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { VoltClawAgent } from '../../src/core/agent.js';
+import { CancelledError } from '../../src/core/errors.js';
+import { MemoryStore } from '../../src/memory/index.js';
+import { MockLLM } from '../../src/testing/index.js';
+import type { Channel, MessageHandler, Tool, Unsubscribe } from '../../src/core/types.js';
+
+class LoopbackChannel implements Channel {
+  readonly type = 'memory';
+  readonly identity = { publicKey: 'loopback' };
+  private handlers: MessageHandler[] = [];
+
+  async start(): Promise<void> {}
+  async stop(): Promise<void> {}
+  async send(to: string, content: string): Promise<void> {
+    if (to !== this.identity.publicKey) return;
+    setTimeout(() => {
+      for (const h of this.handlers) void h(to, content, { timestamp: Date.now() });
+    }, 0);
+  }
+  subscribe(handler: MessageHandler): Unsubscribe {
+    this.handlers.push(handler);
+    return () => {};
+  }
+  on(): void {}
+}
+
+// Blocks until the signal it is given aborts
+function createHangingTool(seen: AbortSignal[]): Tool {
+  return {
+    name: 'hang',
+    description: 'Never finishes on its own',
+    execute: (_args, _agent, _session, _from, signal) => new Promise((_resolve, reject) => {
+      if (signal) seen.push(signal);
+      signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    })
+  };
+}
+
+function createLLM(): MockLLM {
+  return new MockLLM({
+    handler: async (messages) => {
+      const system = messages.find(m => m.role === 'system')?.content ?? '';
+      const last = messages[messages.length - 1];
+      if (last?.role === 'user' && last.content?.includes('delegate') === true && !system.includes('Depth: 1')) {
+        return { content: '', toolCalls: [{ id: 'c1', name: 'call', arguments: { task: 'hang please' } }] };
+      }
+      if (last?.role === 'user') {
+        return { content: 'working', toolCalls: [{ id: 'h1', name: 'hang', arguments: {} }] };
+      }
+      return { content: 'done' };
+    }
+  });
+}
+
+async function waitFor(predicate: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !predicate(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('Cancellation', () => {
+  let agent: VoltClawAgent | undefined;
+
+  afterEach(async () => {
+    await agent?.stop();
+    agent = undefined;
+  });
+
+  it('aborts a query through its signal and reports the partial transcript', async () => {
+    const seen: AbortSignal[] = [];
+    agent = new VoltClawAgent({
+      llm: createLLM(),
+      channel: new LoopbackChannel(),
+      persistence: new MemoryStore(),
+      tools: [createHangingTool(seen)]
+    });
+
+    const controller = new AbortController();
+    const pending = agent.query('start', { signal: controller.signal });
+    await waitFor(() => seen.length > 0);
+    controller.abort(new CancelledError('user pressed stop'));
+
+    const error = await pending.catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(CancelledError);
+    expect((error as CancelledError).message).toBe('user pressed stop');
+    expect((error as CancelledError).partial?.transcript.map(m => m.role)).toEqual(['user', 'assistant', 'tool']);
+    expect(seen[0]?.aborted).toBe(true);
+  });
+
+  it('honours QueryOptions.timeout', async () => {
+    agent = new VoltClawAgent({
+      llm: createLLM(),
+      channel: new LoopbackChannel(),
+      persistence: new MemoryStore(),
+      tools: [createHangingTool([])]
+    });
+
+    await expect(agent.query('start', { timeout: 50 })).rejects.toThrow('Timed out after 50ms');
+  });
+
+  it('cancels the whole call tree from the root session', async () => {
+    const seen: AbortSignal[] = [];
+    agent = new VoltClawAgent({
+      llm: createLLM(),
+      channel: new LoopbackChannel(),
+      persistence: new MemoryStore(),
+      tools: [createHangingTool(seen)],
+      call: { timeoutMs: 5000 }
+    });
+    await agent.start();
+
+    const pending = agent.query('delegate');
+    await waitFor(() => seen.length > 0);
+    expect(agent.cancel('self')).toBe(true);
+
+    const error = await pending.catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(CancelledError);
+    expect((error as CancelledError).partial?.subTasks[0]?.error).toBe('Cancelled');
+    // The sub-agent's tool saw the cancellation too
+    expect(seen[0]?.aborted).toBe(true);
+    expect(agent.cancel('self')).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { VoltClawAgent } from '../../src/core/agent.js';
+import { VoltClawError } from '../../src/core/errors.js';
+import { MemoryStore } from '../../src/memory/index.js';
+import { MockLLM } from '../../src/testing/index.js';
+import type { Channel, RunCheckpoint, Session, Tool } from '../../src/core/types.js';
+
+const sent: Array<{ to: string; content: string }> = [];
+
+const channel: Channel = {
+  type: 'memory',
+  identity: { publicKey: 'test' },
+  start: async () => {},
+  stop: async () => {},
+  send: async (to, content) => { sent.push({ to, content }); },
+  subscribe: () => () => {},
+  on: () => {}
+};
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// A session as a crashed process would have left it: the model asked for a
+// tool, a sub-agent was in flight, and no tool result was recorded yet.
+function interruptedSession(store: MemoryStore, id: string, from: string): Session {
+  const session = store.get(id);
+  const turnId = 'turn-crashed';
+  const user = { role: 'user' as const, content: 'count the files', turnId };
+  const assistant = {
+    role: 'assistant' as const,
+    content: '',
+    toolCalls: [{ id: 't1', name: 'count', arguments: {} }],
+    turnId
+  };
+  session.rootId = id;
+  session.history.push(user, assistant);
+  session.subTasks = { lost: { createdAt: Date.now(), task: 'lost child', arrived: false } };
+  session.callTree = {
+    lost: {
+      subId: 'lost', parentId: id, rootId: id, depth: 1, task: 'lost child',
+      status: 'running', createdAt: Date.now(), costUSD: 0, tokens: 0
+    }
+  };
+  const checkpoint: RunCheckpoint = {
+    turnId,
+    from,
+    depth: 0,
+    messages: [{ role: 'system', content: 'You are a test agent.' }, user, assistant],
+    pendingToolCalls: assistant.toolCalls,
+    updatedAt: Date.now()
+  };
+  session.checkpoint = checkpoint;
+  return session;
+}
+
+const countTool: Tool = {
+  name: 'count',
+  description: 'Counts files',
+  execute: async () => ({ files: 3 })
+};
+
+function finishingLLM(): MockLLM {
+  return new MockLLM({
+    handler: async (messages) => {
+      const last = messages[messages.length - 1];
+      return last?.role === 'tool' ? { content: `there are ${JSON.parse(last.content ?? '{}').files} files` } : { content: 'no tool' };
+    }
+  });
+}
+
+describe('Checkpoints', () => {
+  let agent: VoltClawAgent | undefined;
+
+  afterEach(async () => {
+    await agent?.stop();
+    agent = undefined;
+    sent.length = 0;
+  });
+
+  it('checkpoints pending tool calls and clears the checkpoint when the turn ends', async () => {
+    const store = new MemoryStore();
+    let seen: RunCheckpoint | undefined;
+    agent = new VoltClawAgent({
+      llm: new MockLLM({
+        handler: async (messages) => messages[messages.length - 1]?.role === 'user'
+          ? { content: '', toolCalls: [{ id: 'p1', name: 'peek', arguments: {} }] }
+          : { content: 'done' }
+      }),
+      channel,
+      persistence: store,
+      tools: [{
+        name: 'peek',
+        description: 'Looks at the checkpoint',
+        execute: async () => {
+          seen = structuredClone(store.get('work').checkpoint);
+          return { ok: true };
+        }
+      }]
+    });
+
+    await agent.query('go', { sessionId: 'work' });
+
+    expect(seen?.pendingToolCalls?.map(c => c.id)).toEqual(['p1']);
+    expect(seen?.messages.at(-1)?.toolCalls?.[0]?.name).toBe('peek');
+    expect(store.get('work').checkpoint).toBeUndefined();
+  });
+
+  it('fails in-flight sub-agents on start and resumes the turn on request', async () => {
+    const store = new MemoryStore();
+    const session = interruptedSession(store, 'crashed', 'self');
+    agent = new VoltClawAgent({ llm: finishingLLM(), channel, persistence: store, tools: [countTool] });
+
+    await agent.start();
+    expect(agent.callTree.get('lost')).toMatchObject({ status: 'failed', error: 'Interrupted by restart' });
+    expect(session.subTasks.lost).toMatchObject({ arrived: true, error: 'Interrupted by restart' });
+    expect(session.checkpoint).toBeDefined();
+
+    const reply = await agent.resumeSession('crashed');
+    expect(reply).toBe('there are 3 files');
+    expect(session.history.map(m => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+    expect(session.history.every(m => m.turnId === 'turn-crashed')).toBe(true);
+    expect(session.checkpoint).toBeUndefined();
+
+    await expect(agent.resumeSession('crashed')).rejects.toThrow(VoltClawError);
+  });
+
+  it('resumes on start when configured and replies to the original peer', async () => {
+    const store = new MemoryStore();
+    const session = interruptedSession(store, 'npub-peer', 'npub-peer');
+    agent = new VoltClawAgent({
+      llm: finishingLLM(),
+      channel,
+      persistence: store,
+      tools: [countTool],
+      call: { resumeInterrupted: true }
+    });
+
+    await agent.start();
+    for (let i = 0; i < 50 && session.checkpoint; i++) await delay(10);
+
+    expect(session.checkpoint).toBeUndefined();
+    expect(sent).toEqual([{ to: 'npub-peer', content: 'there are 3 files' }]);
+  });
+});
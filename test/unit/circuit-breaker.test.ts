@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { CircuitBreaker, CircuitState } from '../../src/core/circuit-breaker.js';
-import { CircuitOpenError } from '../../src/core/errors.js';
+import { CircuitOpenError, LLMRateLimitError } from '../../src/core/errors.js';
 
 describe('CircuitBreaker', () => {
   let breaker: CircuitBreaker;
@@ -36,6 +36,16 @@ describe('CircuitBreaker', () => {
     expect(breaker.getState()).toBe(CircuitState.OPEN);
   });
 
+  it('stays closed when the provider is only rate limiting', async () => {
+    const fn = vi.fn().mockRejectedValue(new LLMRateLimitError(1000));
+
+    for (let i = 0; i < 5; i++) {
+      await expect(breaker.execute(fn)).rejects.toThrow(LLMRateLimitError);
+    }
+
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+  });
+
   it('should fail fast when open', async () => {
     const fn = vi.fn().mockRejectedValue(new Error('fail'));
 
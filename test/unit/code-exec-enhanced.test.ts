@@ -28,7 +28,7 @@ describe('code_exec tool enhanced', () => {
     }, agent, session);
 
     expect(result.output).toEqual(['Line1\n', 'Line2\n', 'Line3']);
-    expect(agent.executeTool).toHaveBeenCalledWith('read_file', { filepath: 'test.txt' }, session, 'unknown');
+    expect(agent.executeTool).toHaveBeenCalledWith('read_file', { filepath: 'test.txt' }, session, 'self', undefined);
   });
 
   it('should support direct llm access', async () => {
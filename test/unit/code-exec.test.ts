@@ -55,7 +55,7 @@ describe('code_exec tool', () => {
         storeMemory: vi.fn().mockResolvedValue('test-memory-id')
       }
     };
-    const session = {};
+    const session = { rootId: 'root-session' };
     const sessionId = 'rlm-session-large';
 
     // Setup large context > 2000 chars
@@ -75,7 +75,10 @@ describe('code_exec tool', () => {
         expect.stringContaining(largeString),
         'working',
         ['rlm_context', `session:${sessionId}`],
-        10
+        10,
+        1,
+        undefined,
+        { scope: 'session:root-session' }
     );
 
     expect(result.output).toEqual({
@@ -99,7 +102,7 @@ describe('code_exec tool', () => {
       sessionId
     }, agent, session);
 
-    expect(agent.executeTool).toHaveBeenCalledWith('read_file', { filepath: 'test.txt' }, session, 'unknown');
+    expect(agent.executeTool).toHaveBeenCalledWith('read_file', { filepath: 'test.txt' }, session, 'self', undefined);
   });
 
   it('should support legacy voltclaw.fs namespace', async () => {
@@ -114,6 +117,6 @@ describe('code_exec tool', () => {
       sessionId
     }, agent, session);
 
-    expect(agent.executeTool).toHaveBeenCalledWith('read_file', { filepath: 'test.txt' }, session, 'unknown');
+    expect(agent.executeTool).toHaveBeenCalledWith('read_file', { filepath: 'test.txt' }, session, 'self', undefined);
   });
 });
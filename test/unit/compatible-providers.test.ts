@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { OpenAICompatibleProvider, GeminiProvider, createLLMProvider } from '../../src/llm/index.js';
+import { VoltClawAgent } from '../../src/core/agent.js';
+import { MemoryStore } from '../../src/memory/index.js';
+import type { Channel, ChatChunk, LLMProvider, Tool } from '../../src/core/types.js';
+
+const channel: Channel = {
+  type: 'memory',
+  identity: { publicKey: 'test' },
+  start: async () => {},
+  stop: async () => {},
+  send: async () => {},
+  subscribe: () => () => {},
+  on: () => {}
+};
+
+interface Recorded {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+// A local server that answers with queued replies and records every request
+let server: http.Server;
+let baseUrl: string;
+let requests: Recorded[];
+let replies: Array<{ json?: unknown; sse?: unknown[] }>;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk: Buffer) => { raw += chunk.toString(); });
+    req.on('end', () => {
+      requests.push({ url: req.url ?? '', headers: req.headers, body: JSON.parse(raw) as Record<string, unknown> });
+      const reply = replies.shift() ?? { json: {} };
+      if (reply.sse) {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        for (const event of reply.sse) res.write(`data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`);
+        res.end();
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.json));
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  replies = [];
+});
+
+async function collect(llm: LLMProvider): Promise<ChatChunk[]> {
+  const chunks: ChatChunk[] = [];
+  for await (const chunk of llm.stream?.([{ role: 'user', content: 'hi' }]) ?? []) chunks.push(chunk);
+  return chunks;
+}
+
+describe('OpenAICompatibleProvider', () => {
+  it('needs no API key and sends the configured headers', async () => {
+    replies.push({ json: { choices: [{ message: { content: 'hello' } }] } });
+    const llm = new OpenAICompatibleProvider({ model: 'qwen2.5', baseUrl: `${baseUrl}/v1`, headers: { 'X-Tenant': 'lab' } });
+
+    const response = await llm.chat([{ role: 'user', content: 'hi' }]);
+
+    expect(response.content).toBe('hello');
+    expect(requests[0]?.url).toBe('/v1/chat/completions');
+    expect(requests[0]?.headers['authorization']).toBeUndefined();
+    expect(requests[0]?.headers['x-tenant']).toBe('lab');
+  });
+
+  it('leaves out response formats the server does not support', async () => {
+    replies.push({ json: { choices: [{ message: { content: '{}' } }] } });
+    const llm = await createLLMProvider({
+      provider: 'openai-compatible',
+      model: 'llama',
+      baseUrl: `${baseUrl}/v1`,
+      apiKey: 'secret',
+      supportsResponseFormat: false
+    });
+
+    await llm.chat([{ role: 'user', content: 'hi' }], { responseFormat: { type: 'json' } });
+
+    expect(requests[0]?.headers['authorization']).toBe('Bearer secret');
+    expect(requests[0]?.body['response_format']).toBeUndefined();
+  });
+
+  it('requires a baseUrl', () => {
+    expect(() => new OpenAICompatibleProvider({ model: 'llama' })).toThrow(/baseUrl/);
+  });
+});
+
+describe('GeminiProvider', () => {
+  it('runs a tool call round trip with function responses matched by name', async () => {
+    replies.push(
+      { json: { candidates: [{ content: { role: 'model', parts: [{ functionCall: { name: 'lookup', args: { city: 'Oslo' } } }] } }] } },
+      {
+        json: {
+          candidates: [{ content: { role: 'model', parts: [{ text: 'It is 4°C in Oslo.' }] } }],
+          usageMetadata: { promptTokenCount: 40, candidatesTokenCount: 8, totalTokenCount: 48 }
+        }
+      }
+    );
+    const lookup: Tool = {
+      name: 'lookup',
+      description: 'Looks up the weather',
+      parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+      execute: async (args) => ({ city: args['city'], temperature: 4 })
+    };
+    const llm = new GeminiProvider({ model: 'gemini-2.0-flash', apiKey: 'g-key', baseUrl });
+    const agent = new VoltClawAgent({ llm, channel, persistence: new MemoryStore(), tools: [lookup] });
+
+    expect(await agent.query('weather in Oslo?')).toBe('It is 4°C in Oslo.');
+
+    expect(requests[0]?.url).toBe('/models/gemini-2.0-flash:generateContent');
+    expect(requests[0]?.headers['x-goog-api-key']).toBe('g-key');
+    expect(requests[0]?.body['systemInstruction']).toBeDefined();
+    const declarations = (requests[0]?.body['tools'] as Array<{ functionDeclarations: Array<{ name: string }> }>)[0]?.functionDeclarations;
+    expect(declarations?.map(d => d.name)).toContain('lookup');
+
+    const contents = requests[1]?.body['contents'] as Array<{ role: string; parts: Array<Record<string, unknown>> }>;
+    expect(contents.map(c => c.role)).toEqual(['user', 'model', 'user']);
+    expect(contents[1]?.parts).toEqual([{ functionCall: { name: 'lookup', args: { city: 'Oslo' } } }]);
+    expect(contents[2]?.parts).toEqual([{ functionResponse: { name: 'lookup', response: { city: 'Oslo', temperature: 4 } } }]);
+  });
+
+  it('streams text and function calls with usage', async () => {
+    replies.push({
+      sse: [
+        { candidates: [{ content: { parts: [{ text: 'Let me ' }] } }] },
+        { candidates: [{ content: { parts: [{ text: 'check.' }, { functionCall: { name: 'lookup', args: { city: 'Oslo' } } }] } }] },
+        { candidates: [{ content: { parts: [] }, finishReason: 'STOP' }], usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 6, totalTokenCount: 18 } }
+      ]
+    });
+    const llm = new GeminiProvider({ model: 'gemini-2.0-flash', apiKey: 'g-key', baseUrl });
+
+    const chunks = await collect(llm);
+
+    expect(requests[0]?.url).toBe('/models/gemini-2.0-flash:streamGenerateContent?alt=sse');
+    expect(chunks.map(c => c.content ?? '').join('')).toBe('Let me check.');
+    expect(chunks.find(c => c.toolCalls)?.toolCalls).toMatchObject({ name: 'lookup', arguments: { city: 'Oslo' } });
+    expect(chunks[chunks.length - 1]).toEqual({ done: true, usage: { promptTokens: 12, completionTokens: 6, totalTokens: 18 } });
+  });
+
+  it('asks for JSON matching a schema without keys Gemini rejects', async () => {
+    replies.push({ json: { candidates: [{ content: { parts: [{ text: '{"ok":true}' }] } }] } });
+    const llm = new GeminiProvider({ model: 'gemini-2.0-flash', apiKey: 'g-key', baseUrl });
+
+    await llm.chat([{ role: 'user', content: 'hi' }], {
+      responseFormat: { type: 'json_schema', schema: { type: 'object', properties: { ok: { type: 'boolean' } }, additionalProperties: false } }
+    });
+
+    expect(requests[0]?.body['generationConfig']).toMatchObject({
+      responseMimeType: 'application/json',
+      responseSchema: { type: 'object', properties: { ok: { type: 'boolean' } } }
+    });
+    expect(JSON.stringify(requests[0]?.body)).not.toContain('additionalProperties');
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { VoltClawAgent } from '../../src/core/agent.js';
+import { mapConcurrent } from '../../src/core/utils.js';
+import { MemoryStore } from '../../src/memory/index.js';
+import { MockLLM } from '../../src/testing/index.js';
+import type { Channel, Tool } from '../../src/core/types.js';
+
+const channel: Channel = {
+  type: 'memory',
+  identity: { publicKey: 'test' },
+  start: async () => {},
+  stop: async () => {},
+  send: async () => {},
+  subscribe: () => () => {},
+  on: () => {}
+};
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('mapConcurrent', () => {
+  it('bounds concurrency and keeps input order', async () => {
+    let active = 0;
+    let peak = 0;
+    const results = await mapConcurrent([30, 10, 20, 5], 2, async (ms) => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(ms);
+      active--;
+      return ms;
+    });
+
+    expect(results).toEqual([30, 10, 20, 5]);
+    expect(peak).toBe(2);
+  });
+
+  it('runs items sharing a key one after another', async () => {
+    const order: string[] = [];
+    await mapConcurrent(['a1', 'b1', 'a2'], 3, async (item) => {
+      order.push(`start:${item}`);
+      await delay(item === 'a1' ? 20 : 1);
+      order.push(`end:${item}`);
+    }, item => item.startsWith('a') ? 'a' : undefined);
+
+    expect(order.indexOf('end:a1')).toBeLessThan(order.indexOf('start:a2'));
+    expect(order.indexOf('start:b1')).toBeLessThan(order.indexOf('end:a1'));
+  });
+});
+
+describe('concurrent tool calls', () => {
+  it('runs calls from one turn in parallel and returns results in order', async () => {
+    let active = 0;
+    let peak = 0;
+    const slow: Tool = {
+      name: 'slow',
+      description: 'Waits',
+      execute: async (args) => {
+        active++;
+        peak = Math.max(peak, active);
+        await delay(args.ms as number);
+        active--;
+        return { ms: args.ms };
+      }
+    };
+
+    const llm = new MockLLM({
+      handler: async (messages) => {
+        const last = messages[messages.length - 1];
+        if (last?.role === 'user') {
+          return {
+            content: '',
+            toolCalls: [
+              { id: 't1', name: 'slow', arguments: { ms: 30 } },
+              { id: 't2', name: 'slow', arguments: { ms: 1 } },
+              { id: 't3', name: 'slow', arguments: { ms: 10 } }
+            ]
+          };
+        }
+        return { content: 'done' };
+      }
+    });
+
+    const store = new MemoryStore();
+    const agent = new VoltClawAgent({ llm, channel, persistence: store, tools: [slow] });
+    await agent.query('go');
+
+    const toolMessages = store.get('self', true).history.filter(m => m.role === 'tool');
+    expect(toolMessages.map(m => m.toolCallId)).toEqual(['t1', 't2', 't3']);
+    expect(toolMessages.map(m => JSON.parse(m.content ?? '{}').ms)).toEqual([30, 1, 10]);
+    expect(peak).toBe(3);
+  });
+
+  it('serializes tools that share a concurrency key', async () => {
+    let active = 0;
+    let peak = 0;
+    const exclusive: Tool = {
+      name: 'exclusive',
+      description: 'One at a time',
+      concurrencyKey: 'page',
+      execute: async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await delay(5);
+        active--;
+        return { ok: true };
+      }
+    };
+
+    const llm = new MockLLM({
+      handler: async (messages) => messages[messages.length - 1]?.role === 'user'
+        ? {
+            content: '',
+            toolCalls: [
+              { id: 'e1', name: 'exclusive', arguments: {} },
+              { id: 'e2', name: 'exclusive', arguments: {} }
+            ]
+          }
+        : { content: 'done' }
+    });
+
+    const agent = new VoltClawAgent({ llm, channel, persistence: new MemoryStore(), tools: [exclusive] });
+    await agent.query('go');
+    expect(peak).toBe(1);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { OpenAIProvider, AnthropicProvider, OllamaProvider } from '../../src/llm/index.js';
+import { VoltClawAgent } from '../../src/core/agent.js';
+import { MemoryStore } from '../../src/memory/index.js';
+import type { Channel, ChatMessage, LLMProvider, Tool } from '../../src/core/types.js';
+
+const channel: Channel = {
+  type: 'memory',
+  identity: { publicKey: 'test' },
+  start: async () => {},
+  stop: async () => {},
+  send: async () => {},
+  subscribe: () => () => {},
+  on: () => {}
+};
+
+const image = { type: 'image' as const, mimeType: 'image/png', data: 'iVBORw0KGgo=' };
+
+// A turn whose tool returned a screenshot
+const transcript: ChatMessage[] = [
+  { role: 'user', content: 'what is on the page?' },
+  { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'browser_screenshot', arguments: {} }] },
+  {
+    role: 'tool',
+    toolCallId: 'call_1',
+    content: '{"status":"success"}',
+    parts: [{ type: 'text', text: '{"status":"success"}' }, image]
+  }
+];
+
+function captureRequests(reply: unknown): Array<Record<string, unknown>> {
+  const bodies: Array<Record<string, unknown>> = [];
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: { body: string }) => {
+    bodies.push(JSON.parse(init.body) as Record<string, unknown>);
+    return new Response(JSON.stringify(reply), { status: 200 });
+  }));
+  return bodies;
+}
+
+describe('content parts', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('forwards tool images to OpenAI in a user message after the results', async () => {
+    const bodies = captureRequests({ choices: [{ message: { content: 'a login form' } }] });
+    await new OpenAIProvider({ model: 'gpt-4o', apiKey: 'k' }).chat(transcript);
+
+    const messages = bodies[0]?.['messages'] as Array<Record<string, unknown>>;
+    expect(messages.map(m => m['role'])).toEqual(['user', 'assistant', 'tool', 'user']);
+    expect(messages[2]?.['content']).toBe('{"status":"success"}');
+    expect(messages[3]?.['content']).toContainEqual({ type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } });
+  });
+
+  it('puts images inside Anthropic tool results', async () => {
+    const bodies = captureRequests({ content: [{ type: 'text', text: 'a login form' }] });
+    await new AnthropicProvider({ model: 'claude-3-5-sonnet', apiKey: 'k' }).chat(transcript);
+
+    const messages = bodies[0]?.['messages'] as Array<{ content: Array<Record<string, unknown>> }>;
+    expect(messages[2]?.content[0]).toEqual({
+      type: 'tool_result',
+      tool_use_id: 'call_1',
+      content: [
+        { type: 'text', text: '{"status":"success"}' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } }
+      ]
+    });
+  });
+
+  it('sends Ollama images as base64 and describes them to text-only models', async () => {
+    const bodies = captureRequests({ message: { content: 'a login form' } });
+    await new OllamaProvider({ model: 'llava' }).chat(transcript);
+    await new OllamaProvider({ model: 'llama3.1', supportsVision: false }).chat(transcript);
+
+    const vision = bodies[0]?.['messages'] as Array<Record<string, unknown>>;
+    const textOnly = bodies[1]?.['messages'] as Array<Record<string, unknown>>;
+    expect(vision[2]).toMatchObject({ content: '{"status":"success"}', images: ['iVBORw0KGgo='] });
+    expect(textOnly[2]?.['images']).toBeUndefined();
+    expect(textOnly[2]?.['content']).toContain('[image (image/png) omitted');
+  });
+
+  it('passes images returned by tools on to the model', async () => {
+    const screenshot: Tool = {
+      name: 'screenshot',
+      description: 'Captures the screen',
+      execute: async () => ({ status: 'success', parts: [image] })
+    };
+    const requests: ChatMessage[][] = [];
+    const llm: LLMProvider = {
+      name: 'vision',
+      model: 'test',
+      chat: async (messages) => {
+        requests.push(messages);
+        return messages.some(m => m.role === 'tool')
+          ? { content: 'a login form' }
+          : { content: '', toolCalls: [{ id: 'c1', name: 'screenshot', arguments: {} }] };
+      }
+    };
+    const agent = new VoltClawAgent({ llm, channel, persistence: new MemoryStore(), tools: [screenshot] });
+
+    expect(await agent.query('what is on screen?')).toBe('a login form');
+    const result = requests[1]?.find(m => m.role === 'tool');
+    expect(result?.content).toBe('{"status":"success"}');
+    expect(result?.parts).toEqual([{ type: 'text', text: '{"status":"success"}' }, image]);
+  });
+});
@@ -65,4 +65,51 @@ describe('ContextManager', () => {
     // Should return original because filtering non-system yields 0, which is <= maxMessages
     expect(result).toHaveLength(3);
   });
+
+  it('should summarize when messages exceed maxTokens, keeping only what fits', async () => {
+    const manager = new ContextManager(mockLLM, { maxMessages: 50, maxTokens: 30, preserveLast: 4 });
+    const long = 'word '.repeat(20);
+    const messages: ChatMessage[] = [
+      { role: 'system', content: 'sys' },
+      { role: 'user', content: long },
+      { role: 'assistant', content: long },
+      { role: 'user', content: 'short question' }
+    ];
+
+    const result = await manager.manageContext(messages);
+
+    expect(result.map(m => m.content)).toEqual([
+      'sys',
+      'Previous conversation summary:\nThis is a summary.',
+      'short question'
+    ]);
+  });
+
+  it('never keeps a tool result without the call that produced it', async () => {
+    const long = 'word '.repeat(20);
+    const call = (id: string): ChatMessage => ({ role: 'assistant', content: '', toolCalls: [{ id, name: 'lookup', arguments: {} }] });
+    const result = (id: string): ChatMessage => ({ role: 'tool', content: 'found', toolCallId: id });
+
+    // The cut falls between a call and its result: the result is summarized with its call
+    const answered = await new ContextManager(mockLLM, { maxTokens: 30, preserveLast: 3 }).manageContext([
+      { role: 'system', content: 'sys' },
+      { role: 'user', content: long },
+      call('a'),
+      result('a'),
+      { role: 'assistant', content: 'done' },
+      { role: 'user', content: 'thanks' }
+    ]);
+    expect(answered.map(m => m.role)).toEqual(['system', 'system', 'assistant', 'user']);
+
+    // Only results would be kept: the call comes along with them
+    const pending = await new ContextManager(mockLLM, { maxTokens: 30, preserveLast: 2 }).manageContext([
+      { role: 'system', content: 'sys' },
+      { role: 'user', content: long },
+      { ...call('a'), toolCalls: [{ id: 'a', name: 'lookup', arguments: {} }, { id: 'b', name: 'lookup', arguments: {} }] },
+      result('a'),
+      result('b')
+    ]);
+    expect(pending.map(m => m.role)).toEqual(['system', 'system', 'assistant', 'tool', 'tool']);
+    expect(pending[2]?.toolCalls).toHaveLength(2);
+  });
 });
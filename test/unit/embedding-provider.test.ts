@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { VoltClawAgent } from '../../src/core/agent.js';
+import { ConfigurationError } from '../../src/core/errors.js';
+import { MemoryManager } from '../../src/memory/manager.js';
+import { MemoryStore } from '../../src/memory/index.js';
+import { SQLiteStore } from '../../src/memory/sqlite.js';
+import { MockLLM } from '../../src/testing/index.js';
+import type { Channel, EmbeddingProvider } from '../../src/core/types.js';
+
+const channel: Channel = {
+  type: 'memory',
+  identity: { publicKey: 'test' },
+  start: async () => {},
+  stop: async () => {},
+  send: async () => {},
+  subscribe: () => () => {},
+  on: () => {}
+};
+
+// Embeds each text as [length, model marker] so vectors show which model made them
+function embedder(model: string, marker: number): EmbeddingProvider & { embedBatch: ReturnType<typeof vi.fn> } {
+  return {
+    name: 'test',
+    model,
+    embed: vi.fn(async (text: string) => [text.length, marker]),
+    embedBatch: vi.fn(async (texts: string[]) => texts.map(text => [text.length, marker]))
+  };
+}
+
+describe('embedding provider', () => {
+  let dir: string;
+  let store: SQLiteStore;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'voltclaw-embed-'));
+    store = new SQLiteStore({ path: path.join(dir, 'memory.db') });
+    await store.load();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('embeds all chunks of a memory in one batch and tags the model', async () => {
+    const provider = embedder('small', 1);
+    const memory = new MemoryManager(store, provider);
+
+    await memory.storeMemory('x'.repeat(2500));
+
+    expect(provider.embedBatch).toHaveBeenCalledTimes(1);
+    expect(provider.embedBatch.mock.calls[0]?.[0]).toHaveLength(3);
+    expect(provider.embed).not.toHaveBeenCalled();
+    const stored = await store.searchMemories({ limit: 10 });
+    expect(stored).toHaveLength(3);
+    expect(stored.every(entry => entry.embeddingModel === 'test/small')).toBe(true);
+  });
+
+  it('re-embeds memories stored with another model', async () => {
+    await new MemoryManager(store, embedder('small', 1)).storeMemory('first memory');
+    await new MemoryManager(store).storeMemory('second memory');
+
+    const upgraded = embedder('large', 2);
+    const memory = new MemoryManager(store, upgraded);
+    expect(await memory.reembed()).toBe(2);
+    expect(await memory.reembed()).toBe(0);
+
+    const stored = await store.searchMemories({ limit: 10 });
+    expect(stored.map(entry => entry.embeddingModel)).toEqual(['test/large', 'test/large']);
+    expect(stored.every(entry => entry.embedding?.[1] === 2)).toBe(true);
+  });
+
+  it('does not compare vectors from different models', async () => {
+    await new MemoryManager(store, embedder('small', 1)).storeMemory('cats');
+    const memory = new MemoryManager(store, embedder('large', 2));
+    await memory.storeMemory('cats and dogs');
+
+    const results = await memory.recall('cats');
+
+    // The closer text ranks last: its vector came from the other model
+    expect(results.map(entry => entry.content)).toEqual(['cats and dogs', 'cats']);
+  });
+
+  it('uses a separately configured provider for agent memory', async () => {
+    const provider = embedder('small', 1);
+    const agent = new VoltClawAgent({
+      llm: new MockLLM({ defaultResponse: 'ok' }),
+      channel,
+      persistence: store,
+      embeddings: provider
+    });
+
+    await agent.memory.storeMemory('remember this');
+
+    expect(provider.embedBatch).toHaveBeenCalledWith(['remember this']);
+    expect(agent.memory.embeddingModel).toBe('test/small');
+  });
+
+  it('rejects an embeddings provider that cannot embed', () => {
+    expect(() => new VoltClawAgent({
+      llm: new MockLLM({ defaultResponse: 'ok' }),
+      channel,
+      persistence: new MemoryStore(),
+      embeddings: new MockLLM({ defaultResponse: 'ok' })
+    })).toThrow(ConfigurationError);
+  });
+});
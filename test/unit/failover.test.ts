@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { VoltClawAgent } from '../../src/core/agent.js';
+import { LLMFailoverError } from '../../src/core/errors.js';
+import { FailoverProvider, translateToolHistory } from '../../src/core/failover.js';
+import { Retrier } from '../../src/core/retry.js';
+import { MemoryStore } from '../../src/memory/index.js';
+import { MockLLM } from '../../src/testing/index.js';
+import type { AgentStreamEvent, Channel, ChatMessage, LLMProvider } from '../../src/core/types.js';
+
+const channel: Channel = {
+  type: 'memory',
+  identity: { publicKey: 'test' },
+  start: async () => {},
+  stop: async () => {},
+  send: async () => {},
+  subscribe: () => () => {},
+  on: () => {}
+};
+
+const down = (): MockLLM => new MockLLM({ failureRate: 1 });
+
+function agentWith(llm: MockLLM, failover: MockLLM[]): VoltClawAgent {
+  return new VoltClawAgent({
+    llm,
+    failover,
+    channel,
+    persistence: new MemoryStore(),
+    circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 60_000 }
+  });
+}
+
+describe('translateToolHistory', () => {
+  it('makes tool-call ids portable and drops unmatched calls and results', () => {
+    const messages: ChatMessage[] = [
+      { role: 'user', content: 'go' },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [
+          { id: 'urn:call/1', name: 'read', arguments: {} },
+          { id: 'never-answered', name: 'read', arguments: {} }
+        ]
+      },
+      { role: 'tool', content: 'a', toolCallId: 'urn:call/1' },
+      { role: 'tool', content: 'b', toolCallId: 'trimmed-away' }
+    ];
+
+    const translated = translateToolHistory(messages);
+
+    const id = translated[1]?.toolCalls?.[0]?.id;
+    expect(id).toMatch(/^[A-Za-z0-9_-]{1,40}$/);
+    expect(translated[1]?.toolCalls).toHaveLength(1);
+    expect(translated[2]).toMatchObject({ role: 'tool', toolCallId: id });
+    expect(translated[3]).toEqual({ role: 'user', content: '[tool result]\nb', turnId: undefined, timestamp: undefined });
+    expect(messages[1]?.toolCalls).toHaveLength(2);
+  });
+});
+
+describe('LLM failover', () => {
+  it('serves turns from the next provider and skips one whose circuit is open', async () => {
+    const primary = down();
+    const backup = new MockLLM({ defaultResponse: 'from backup' });
+    const agent = agentWith(primary, [backup]);
+    const events: AgentStreamEvent[] = [];
+    agent.on('event', (event) => events.push(event as AgentStreamEvent));
+
+    expect(await agent.query('first')).toBe('from backup');
+    expect(await agent.query('second')).toBe('from backup');
+
+    expect(primary.getCallCount()).toBe(1);
+    expect(backup.getCallCount()).toBe(2);
+    const served = events.filter(e => e.type === 'provider');
+    expect(served).toHaveLength(2);
+    expect(served[0]).toMatchObject({ provider: 'mock', failedOver: [{ error: 'Mock LLM failure (simulated)' }] });
+    expect(served[1]).toMatchObject({ failedOver: [{ error: 'Circuit breaker is open' }] });
+    expect(agent.getLLMHealth().map(h => [h.state, h.served, h.failures])).toEqual([
+      ['OPEN', 0, 2],
+      ['CLOSED', 2, 0]
+    ]);
+  });
+
+  it('fails over a stream before its first chunk', async () => {
+    const agent = agentWith(down(), [new MockLLM({ defaultResponse: 'streamed reply' })]);
+
+    const events: AgentStreamEvent[] = [];
+    for await (const event of agent.queryEvents('hello')) events.push(event);
+
+    const final = events.at(-1);
+    expect(final?.type === 'final' ? final.content.trim() : undefined).toBe('streamed reply');
+    expect(events.some(e => e.type === 'provider' && e.failedOver.length === 1)).toBe(true);
+  });
+
+  it('closes the member stream when the consumer stops early', async () => {
+    let closed = false;
+    const streaming: LLMProvider = {
+      name: 'streaming',
+      model: 'm',
+      chat: async () => ({ content: '' }),
+      stream: async function* () {
+        try {
+          yield { content: 'one' };
+          yield { content: 'two' };
+        } finally {
+          closed = true;
+        }
+      }
+    };
+    const llm = new FailoverProvider([streaming], {
+      circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 60_000 },
+      retrier: new Retrier({ maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 })
+    });
+
+    for await (const chunk of llm.stream?.([{ role: 'user', content: 'hi' }]) ?? []) {
+      expect(chunk.content).toBe('one');
+      break;
+    }
+    expect(closed).toBe(true);
+  });
+
+  it('reports every provider once all of them fail', async () => {
+    const agent = agentWith(down(), [down()]);
+
+    await expect(agent.query('hello')).rejects.toThrow(LLMFailoverError);
+  });
+
+  it('leaves circuit breaking to each provider rather than the whole chain', async () => {
+    const agent = agentWith(down(), [down()]);
+
+    await expect(agent.query('hello')).rejects.toThrow(LLMFailoverError);
+    await expect(agent.query('again')).rejects.toThrow(LLMFailoverError);
+  });
+});
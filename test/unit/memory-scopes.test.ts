@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { open } from 'sqlite';
+import sqlite3 from 'sqlite3';
+import { SQLiteStore } from '../../src/memory/sqlite.js';
+import { MemoryManager } from '../../src/memory/manager.js';
+import { GraphManager } from '../../src/memory/graph.js';
+import { createMemoryTools, type MemoryAccessResolver } from '../../src/tools/memory.js';
+import { createGraphTools } from '../../src/tools/graph.js';
+import { createCodeExecTool } from '../../src/tools/code_exec.js';
+import { createPromptTools } from '../../src/tools/prompt.js';
+import { PromptManager } from '../../src/core/prompt-manager.js';
+import { VoltClawAgent } from '../../src/core/agent.js';
+import { AuthorizationError } from '../../src/core/errors.js';
+import { MockLLM } from '../../src/testing/index.js';
+import type { Channel, Session, Tool } from '../../src/core/types.js';
+
+const channel: Channel = {
+  type: 'memory',
+  identity: { publicKey: 'agent-key' },
+  start: async () => {},
+  stop: async () => {},
+  send: async () => {},
+  subscribe: () => () => {},
+  on: () => {}
+};
+
+const resolve: MemoryAccessResolver = (from, session) => ({ user: from, session: session?.rootId, admin: from === 'root' });
+
+function session(rootId: string): Session {
+  return { rootId } as Session;
+}
+
+describe('memory scopes', () => {
+  let dir: string;
+  let store: SQLiteStore;
+  let tools: Tool[];
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'voltclaw-scopes-'));
+    store = new SQLiteStore({ path: path.join(dir, 'memory.db') });
+    await store.load();
+    tools = [
+      ...createMemoryTools(new MemoryManager(store), resolve),
+      ...createGraphTools(new GraphManager(store), resolve),
+      ...createPromptTools(new PromptManager(store), resolve)
+    ];
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function run(name: string, args: Record<string, unknown>, from: string, rootId = `${from}-chat`): Promise<any> {
+    const tool = tools.find(t => t.name === name);
+    return tool?.execute(args, undefined, session(rootId), from);
+  }
+
+  async function recalled(from: string, args: Record<string, unknown>, rootId?: string): Promise<string[]> {
+    const result = await run('memory_recall', args, from, rootId);
+    return result.results.map((m: { content: string }) => m.content);
+  }
+
+  it('keeps each user\'s memories to themselves, and shares global ones', async () => {
+    await run('memory_store', { content: 'alice keeps her keys under the mat' }, 'alice');
+    await run('memory_store', { content: 'bob keeps his keys in the car' }, 'bob');
+    await new MemoryManager(store).storeMemory('spare keys hang by the door');
+
+    expect(await recalled('bob', { query: 'keys' })).toEqual(expect.arrayContaining(['bob keeps his keys in the car', 'spare keys hang by the door']));
+    expect(await recalled('bob', { query: 'keys' })).not.toContain('alice keeps her keys under the mat');
+    expect(await recalled('alice', { query: 'keys', scopes: ['user:alice'] })).toEqual(['alice keeps her keys under the mat']);
+  });
+
+  it('confines session memories to the conversation that stored them', async () => {
+    await run('memory_store', { content: 'draft reply for this thread', scope: 'session' }, 'alice', 'thread-1');
+
+    expect(await recalled('alice', { query: 'draft' }, 'thread-1')).toEqual(['draft reply for this thread']);
+    expect(await recalled('alice', { query: 'draft' }, 'thread-2')).toEqual([]);
+  });
+
+  it('lets only admins reach across scopes', async () => {
+    await run('memory_store', { content: 'alice diary entry' }, 'alice');
+
+    await expect(run('memory_recall', { query: 'diary', scopes: ['user:alice'] }, 'bob')).rejects.toThrow(AuthorizationError);
+    await expect(run('memory_store', { content: 'announcement', scope: 'global' }, 'bob')).rejects.toThrow(AuthorizationError);
+
+    expect(await recalled('root', { query: 'diary' })).toEqual([]);
+    expect(await recalled('root', { query: 'diary', scopes: ['*'] })).toEqual(['alice diary entry']);
+    expect(await recalled('root', { query: 'diary', scopes: ['user:alice'] })).toEqual(['alice diary entry']);
+  });
+
+  it('stops users from forgetting memories that are not theirs', async () => {
+    const { id } = await run('memory_store', { content: 'alice secret' }, 'alice');
+    const shared = await new MemoryManager(store).storeMemory('shared fact');
+
+    await expect(run('memory_forget', { id }, 'bob')).rejects.toThrow(AuthorizationError);
+    await expect(run('memory_forget', { id: shared }, 'alice')).rejects.toThrow(AuthorizationError);
+
+    await run('memory_forget', { id }, 'alice');
+    expect(await recalled('alice', { query: 'secret' })).toEqual([]);
+  });
+
+  it('keeps graph entities apart per user', async () => {
+    await new GraphManager(store, undefined, { user: 'alice' }).addNode({ id: 'Project Falcon', label: 'Project' });
+    await new GraphManager(store).addNode({ id: 'Acme', label: 'Company' });
+
+    const found = async (from: string): Promise<string[]> =>
+      (await run('graph_search', { query: 'a' }, from)).matches.map((n: { id: string }) => n.id).sort();
+
+    expect(await found('alice')).toEqual(['Acme', 'Project Falcon']);
+    expect(await found('bob')).toEqual(['Acme']);
+  });
+
+  it('gives each user their own prompt templates', async () => {
+    await run('prompt_create', { id: 'greeting', description: 'Greeting', content: 'Hi, I am Alice' }, 'alice');
+    await run('prompt_create', { id: 'greeting', description: 'Greeting', content: 'Hello from Bob' }, 'bob');
+    await new PromptManager(store).createTemplate('shared', 'Shared', 'For everyone');
+
+    expect(await run('prompt_get', { id: 'greeting' }, 'alice')).toEqual({ result: 'Hi, I am Alice' });
+    expect(await run('prompt_get', { id: 'greeting' }, 'carol')).toMatchObject({ error: expect.stringContaining('not found') });
+    expect(await run('prompt_get', { id: 'shared' }, 'carol')).toEqual({ result: 'For everyone' });
+
+    expect(await run('prompt_update', { id: 'shared', content: 'Hijacked', changelog: 'x' }, 'carol')).toMatchObject({ error: expect.stringContaining('Not authorized') });
+    await run('prompt_update', { id: 'greeting', content: 'Hi again', changelog: 'Friendlier' }, 'bob');
+    expect(await run('prompt_get', { id: 'greeting' }, 'bob')).toEqual({ result: 'Hi again' });
+    expect(await run('prompt_get', { id: 'greeting' }, 'alice')).toEqual({ result: 'Hi, I am Alice' });
+    expect(await run('prompt_get', { id: 'shared' }, 'root')).toEqual({ result: 'For everyone' });
+  });
+
+  it('moves graph and prompt tables from before scopes into the global scope', async () => {
+    const legacyPath = path.join(dir, 'legacy.db');
+    const db = await open({ filename: legacyPath, driver: sqlite3.Database });
+    await db.exec(`
+      CREATE TABLE graph_nodes (id TEXT PRIMARY KEY, label TEXT NOT NULL, metadata TEXT, created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL);
+      CREATE TABLE graph_edges (id TEXT PRIMARY KEY, source TEXT NOT NULL, target TEXT NOT NULL, relation TEXT NOT NULL,
+        weight REAL DEFAULT 1.0, metadata TEXT, created_at INTEGER NOT NULL);
+      INSERT INTO graph_nodes VALUES ('Ada', 'Person', NULL, 1, 1), ('Engine', 'Machine', NULL, 1, 1);
+      INSERT INTO graph_edges VALUES ('Ada_DESIGNED_Engine', 'Ada', 'Engine', 'DESIGNED', 1.0, NULL, 1);
+      CREATE TABLE prompt_templates (id TEXT PRIMARY KEY, description TEXT NOT NULL, latest_version INTEGER NOT NULL,
+        created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL);
+      CREATE TABLE prompt_versions (template_id TEXT NOT NULL, version INTEGER NOT NULL, content TEXT NOT NULL, changelog TEXT,
+        metrics TEXT, created_at INTEGER NOT NULL, PRIMARY KEY (template_id, version));
+      INSERT INTO prompt_templates VALUES ('intro', 'Intro', 1, 1, 1);
+      INSERT INTO prompt_versions VALUES ('intro', 1, 'Old prompt', NULL, NULL, 1);
+    `);
+    await db.close();
+
+    const legacy = new SQLiteStore({ path: legacyPath });
+    await legacy.load();
+
+    expect(await legacy.getGraphNode('Ada')).toMatchObject({ label: 'Person', scope: 'global' });
+    expect(await new PromptManager(legacy).withAccess({ user: 'alice' }).getPrompt('intro')).toBe('Old prompt');
+    const { nodes, edges } = await new GraphManager(legacy).withAccess({ user: 'alice' }).getNeighbors('Ada');
+    expect(nodes.map(n => n.id).sort()).toEqual(['Ada', 'Engine']);
+    expect(edges).toHaveLength(1);
+  });
+
+  it('resolves tool calls to the user who started the call tree', async () => {
+    const agent = new VoltClawAgent({
+      llm: new MockLLM({ defaultResponse: 'ok' }),
+      channel,
+      persistence: store,
+      permissions: { admins: ['root'] }
+    });
+    const subtask = { rootId: 'chat-1', caller: 'alice' } as Session;
+
+    expect(agent.memoryAccess('self', subtask)).toEqual({ user: 'alice', session: 'chat-1', admin: false });
+    expect(agent.memoryAccess('root', subtask)).toMatchObject({ user: 'root', admin: true });
+    expect(agent.memoryAccess('self', session('chat-2'))).toBeUndefined();
+    expect(agent.memoryAccess('agent-key')).toBeUndefined();
+
+    await agent.executeTool('memory_store', { content: 'alice likes tea' }, subtask, 'self');
+    const asBob = await agent.executeTool('memory_recall', { query: 'tea' }, session('chat-3'), 'bob') as { count: number };
+    expect(asBob.count).toBe(0);
+    const asAlice = await agent.executeTool('memory_recall', { query: 'tea' }, session('chat-4'), 'alice') as { count: number };
+    expect(asAlice.count).toBe(1);
+  });
+
+  it('confines memory loaded from code_exec to the caller', async () => {
+    const agent = new VoltClawAgent({ llm: new MockLLM({ defaultResponse: 'ok' }), channel, persistence: store });
+    const { id } = await agent.executeTool('memory_store', { content: 'alice notes' }, session('chat-1'), 'alice') as { id: string };
+    const codeExec = createCodeExecTool();
+    const load = async (from: string): Promise<unknown> =>
+      (await codeExec.execute({ code: `load_context('${id}')`, sessionId: from }, agent, session('chat-2'), from) as { output: unknown }).output;
+
+    expect(await load('bob')).toBeNull();
+    expect(await load('alice')).toBe('alice notes');
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { open } from 'sqlite';
+import sqlite3 from 'sqlite3';
+import { SQLiteStore } from '../../src/memory/sqlite.js';
+import { MemoryManager } from '../../src/memory/manager.js';
+import { createMemoryTools } from '../../src/tools/memory.js';
+
+describe('SQLiteStore ranked memory search', () => {
+  let dir: string;
+  let dbPath: string;
+  let store: SQLiteStore;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'voltclaw-search-'));
+    dbPath = path.join(dir, 'memory.db');
+    store = new SQLiteStore({ path: dbPath });
+    await store.load();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('ranks text matches by BM25 with highlighted snippets', async () => {
+    await store.createMemory({ type: 'working', content: 'Bought flour, and maybe pasta, at the market' });
+    await store.createMemory({ type: 'working', content: 'Pasta recipes: fresh pasta needs only flour and eggs' });
+    await store.createMemory({ type: 'working', content: 'Watered the garden' });
+
+    const results = await store.searchMemories({ content: 'pasta' });
+
+    expect(results.map(m => m.content)).toEqual([
+      'Pasta recipes: fresh pasta needs only flour and eggs',
+      'Bought flour, and maybe pasta, at the market'
+    ]);
+    expect(results[0]?.snippet).toContain('**pasta**');
+    expect(results[0]?.score).toBeGreaterThan(results[1]?.score ?? 0);
+  });
+
+  it('matches word forms and treats query syntax as plain words', async () => {
+    await store.createMemory({ type: 'working', content: 'The runners ran along the river' });
+
+    expect(await store.searchMemories({ content: 'running' })).toHaveLength(1);
+    expect(await store.searchMemories({ content: 'river" OR (NEAR' })).toHaveLength(1);
+    expect(await store.searchMemories({ content: 'mountains' })).toHaveLength(0);
+  });
+
+  it('falls back to substring matching when no word matches', async () => {
+    await store.createMemory({ type: 'working', content: 'hello world' });
+
+    expect((await store.searchMemories({ content: 'ell' })).map(m => m.content)).toEqual(['hello world']);
+    expect(await store.searchMemories({ content: 'xyz' })).toHaveLength(0);
+  });
+
+  it('blends in vector matches that share no words with the query', async () => {
+    await store.createMemory({ type: 'working', content: 'The cat sleeps on the sofa', embedding: [0, 1], embeddingModel: 'test' });
+    await store.createMemory({ type: 'working', content: 'Kittens love warm places', embedding: [1, 0.1], embeddingModel: 'test' });
+
+    const results = await store.searchMemories({ content: 'feline', embedding: [1, 0], embeddingModel: 'test', limit: 5 });
+
+    expect(results[0]?.content).toBe('Kittens love warm places');
+    expect(results[0]?.snippet).toBeUndefined();
+  });
+
+  it('breaks ties with importance and recency', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01'));
+    await store.createMemory({ type: 'working', content: 'standup notes', importance: 2 });
+    vi.setSystemTime(new Date('2026-03-01'));
+    await store.createMemory({ type: 'working', content: 'standup notes', importance: 2 });
+    await store.createMemory({ type: 'working', content: 'standup notes', importance: 9 });
+
+    const results = await store.searchMemories({ content: 'standup' });
+    expect(results.map(m => [m.importance, new Date(m.timestamp).getMonth()])).toEqual([[9, 2], [2, 2], [2, 0]]);
+
+    const byAge = await store.searchMemories({ content: 'standup', ranking: { importance: 0 } });
+    expect(byAge[2]?.timestamp).toBe(new Date('2026-01-01').getTime());
+  });
+
+  it('filters by exact tags, following updates and removals', async () => {
+    const apple = await store.createMemory({ type: 'working', content: 'apple pie', tags: ['apple', 'dessert'] });
+    await store.createMemory({ type: 'working', content: 'pineapple pizza', tags: ['pineapple'] });
+
+    expect((await store.searchMemories({ tags: ['apple'] })).map(m => m.id)).toEqual([apple]);
+    expect(await store.searchMemories({ tags: ['apple', 'savory'] })).toHaveLength(0);
+
+    await store.updateMemory(apple, { tags: ['savory'] });
+    expect(await store.searchMemories({ tags: ['apple'] })).toHaveLength(0);
+    expect((await store.searchMemories({ content: 'pie', tags: ['savory'] })).map(m => m.id)).toEqual([apple]);
+
+    await store.removeMemory(apple);
+    expect(await store.searchMemories({ tags: ['savory'] })).toHaveLength(0);
+    expect(await store.searchMemories({ content: 'pie' })).toHaveLength(0);
+  });
+
+  it('indexes memories stored before full-text search existed', async () => {
+    const legacyPath = path.join(dir, 'legacy.db');
+    const db = await open({ filename: legacyPath, driver: sqlite3.Database });
+    await db.exec(`
+      CREATE TABLE memories (id TEXT PRIMARY KEY, type TEXT NOT NULL, content TEXT NOT NULL, embedding TEXT,
+        tags TEXT, importance INTEGER, timestamp INTEGER NOT NULL, expires_at INTEGER, context_id TEXT, metadata TEXT);
+      INSERT INTO memories (id, type, content, tags, importance, timestamp) VALUES ('old', 'working', 'legacy harbor notes', '["docs"]', 1, 1);
+    `);
+    await db.close();
+
+    const legacy = new SQLiteStore({ path: legacyPath });
+    await legacy.load();
+
+    expect((await legacy.searchMemories({ content: 'harbor' })).map(m => m.id)).toEqual(['old']);
+    expect((await legacy.searchMemories({ tags: ['docs'] })).map(m => m.id)).toEqual(['old']);
+  });
+
+  it('finishes a migration that stopped between two new columns', async () => {
+    const partialPath = path.join(dir, 'partial.db');
+    const db = await open({ filename: partialPath, driver: sqlite3.Database });
+    await db.exec(`
+      CREATE TABLE memories (id TEXT PRIMARY KEY, type TEXT NOT NULL, content TEXT NOT NULL, embedding TEXT,
+        tags TEXT, importance INTEGER, timestamp INTEGER NOT NULL, expires_at INTEGER, context_id TEXT, metadata TEXT,
+        embedding_model TEXT);
+    `);
+    await db.close();
+
+    const partial = new SQLiteStore({ path: partialPath });
+    await partial.load();
+    await partial.createMemory({ type: 'working', content: 'vector note', embedding: [1, 0], embeddingModel: 'test' });
+
+    const [found] = await partial.searchMemories({ embedding: [1, 0], embeddingModel: 'test', limit: 1 });
+    expect(found?.content).toBe('vector note');
+  });
+
+  it('returns scores and snippets, without embeddings, from memory_recall', async () => {
+    const manager = new MemoryManager(store);
+    await manager.storeMemory('The deploy key lives in the vault', 'long_term', ['ops'], 5);
+    const recall = createMemoryTools(manager).find(t => t.name === 'memory_recall');
+
+    const result = await recall?.execute({ query: 'deploy vault' }) as { results: Array<Record<string, unknown>> };
+
+    expect(result.results[0]).toMatchObject({ snippet: 'The **deploy** key lives in the **vault**', tags: ['ops'] });
+    expect(result.results[0]?.['score']).toEqual(expect.any(Number));
+    expect(result.results[0]).not.toHaveProperty('embedding');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { VoltClawAgent } from '../../src/core/agent.js';
+import { composeMiddleware } from '../../src/core/middleware.js';
+import { MemoryStore } from '../../src/memory/index.js';
+import { MockLLM } from '../../src/testing/index.js';
+import type { Channel, MessageHandler, MiddlewareContext, ReplyContext, Session, Unsubscribe } from '../../src/core/types.js';
+
+class InboxChannel implements Channel {
+  readonly type = 'memory';
+  readonly identity = { publicKey: 'agent' };
+  readonly sent: Array<{ to: string; content: string }> = [];
+  private handler?: MessageHandler;
+
+  async start(): Promise<void> {}
+  async stop(): Promise<void> {}
+  async send(to: string, content: string): Promise<void> {
+    this.sent.push({ to, content });
+  }
+  subscribe(handler: MessageHandler): Unsubscribe {
+    this.handler = handler;
+    return () => {};
+  }
+  on(): void {}
+
+  async receive(from: string, content: string): Promise<void> {
+    await this.handler?.(from, content, { timestamp: Date.now() });
+  }
+}
+
+const echoLLM = (): MockLLM => new MockLLM({
+  handler: async (messages) => ({ content: `echo: ${messages[messages.length - 1]?.content ?? ''}` })
+});
+
+describe('composeMiddleware', () => {
+  it('runs middleware around the handler in order', async () => {
+    const order: string[] = [];
+    const run = composeMiddleware([
+      async (_ctx, next) => { order.push('a:before'); await next(); order.push('a:after'); },
+      async (_ctx, next) => { order.push('b:before'); await next(); order.push('b:after'); }
+    ], async () => { order.push('handler'); });
+
+    await run({ from: 'x', message: 'm', session: {} as Session, metadata: {} });
+    expect(order).toEqual(['a:before', 'b:before', 'handler', 'b:after', 'a:after']);
+  });
+
+  it('rejects calling next() twice', async () => {
+    const run = composeMiddleware([async (_ctx, next) => { await next(); await next(); }], async () => {});
+    await expect(run({ from: 'x', message: 'm', session: {} as Session, metadata: {} })).rejects.toThrow('multiple times');
+  });
+});
+
+describe('agent middleware', () => {
+  let agent: VoltClawAgent | undefined;
+
+  afterEach(async () => {
+    await agent?.stop();
+    agent = undefined;
+  });
+
+  it('rewrites the inbound message and the reply, and passes metadata to onReply', async () => {
+    const channel = new InboxChannel();
+    const replies: ReplyContext[] = [];
+    agent = new VoltClawAgent({
+      llm: echoLLM(),
+      channel,
+      persistence: new MemoryStore(),
+      hooks: { onReply: async (ctx) => { replies.push(ctx); } },
+      middleware: [async (ctx, next) => {
+        ctx.message = ctx.message.toUpperCase();
+        ctx.metadata.lang = 'en';
+        await next();
+        ctx.reply = `[translated] ${ctx.reply ?? ''}`;
+      }]
+    });
+    await agent.start();
+
+    await channel.receive('alice', 'hello');
+    expect(channel.sent).toEqual([{ to: 'alice', content: '[translated] echo: HELLO' }]);
+    expect(replies[0]?.metadata).toEqual({ lang: 'en' });
+  });
+
+  it('lets plugin middleware short-circuit without reaching the LLM', async () => {
+    const channel = new InboxChannel();
+    const llm = echoLLM();
+    agent = new VoltClawAgent({
+      llm,
+      channel,
+      persistence: new MemoryStore(),
+      plugins: [{
+        name: 'moderation',
+        version: '1.0.0',
+        middleware: [async (ctx: MiddlewareContext, next: () => Promise<void>) => {
+          if (ctx.message.includes('spam')) {
+            ctx.reply = 'Message blocked';
+            return;
+          }
+          await next();
+        }]
+      }]
+    });
+    await agent.start();
+
+    await channel.receive('bob', 'buy spam now');
+    expect(channel.sent).toEqual([{ to: 'bob', content: 'Message blocked' }]);
+    expect(llm.getCallCount()).toBe(0);
+  });
+
+  it('lets middleware observe errors from the turn and answer instead', async () => {
+    const channel = new InboxChannel();
+    const observed: string[] = [];
+    agent = new VoltClawAgent({
+      llm: new MockLLM({ handler: async () => { throw new Error('provider down'); } }),
+      channel,
+      persistence: new MemoryStore(),
+      retry: { maxAttempts: 1, baseDelayMs: 1, maxDelayMs: 1, jitterFactor: 0 },
+      middleware: [async (ctx, next) => {
+        try {
+          await next();
+        } catch (error) {
+          observed.push(String(error));
+          ctx.reply = 'Sorry, something went wrong.';
+        }
+      }]
+    });
+    await agent.start();
+
+    await channel.receive('carol', 'hi');
+    expect(observed[0]).toContain('provider down');
+    expect(channel.sent).toEqual([{ to: 'carol', content: 'Sorry, something went wrong.' }]);
+  });
+});
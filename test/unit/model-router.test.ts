@@ -0,0 +1,124 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { VoltClawAgent } from '../../src/core/agent.js';
+import { ConfigurationError } from '../../src/core/errors.js';
+import { ModelRouter } from '../../src/core/model-router.js';
+import { MemoryStore } from '../../src/memory/index.js';
+import { MockLLM } from '../../src/testing/index.js';
+import type { Channel, ChatMessage, LLMProvider, MessageHandler, Unsubscribe } from '../../src/core/types.js';
+
+class LoopbackChannel implements Channel {
+  readonly type = 'memory';
+  readonly identity = { publicKey: 'loopback' };
+  private handlers: MessageHandler[] = [];
+
+  async start(): Promise<void> {}
+  async stop(): Promise<void> {}
+  async send(to: string, content: string): Promise<void> {
+    if (to !== this.identity.publicKey) return;
+    setTimeout(() => {
+      for (const h of this.handlers) void h(to, content, { timestamp: Date.now() });
+    }, 0);
+  }
+  subscribe(handler: MessageHandler): Unsubscribe {
+    this.handlers.push(handler);
+    return () => {};
+  }
+  on(): void {}
+}
+
+const named = (name: string): LLMProvider => new MockLLM({ defaultResponse: name });
+
+// Root asks for one sub-agent (with `callArgs`) and returns what it got back
+function rootLLM(callArgs: Record<string, unknown>, seen: ChatMessage[][] = []): MockLLM {
+  return new MockLLM({
+    handler: async (messages: ChatMessage[]) => {
+      seen.push(messages);
+      const last = messages[messages.length - 1];
+      if (last?.role === 'tool') return { content: last.content ?? '' };
+      return { content: '', toolCalls: [{ id: 'c1', name: 'call', arguments: { task: 'leaf work', ...callArgs } }] };
+    }
+  });
+}
+
+describe('ModelRouter', () => {
+  it('prefers the hint, then depth rules, then roles', () => {
+    const fallback = named('default');
+    const router = new ModelRouter(fallback, {
+      models: { strong: named('strong'), local: named('local'), tiny: named('tiny') },
+      roles: { planner: 'strong', summarizer: 'local' },
+      depths: { 2: 'local', 4: 'tiny' }
+    }, llm => llm as LLMProvider);
+
+    const pick = (llm: LLMProvider): string => router.names().find(n => router.forAgent(0, n) === llm) ?? 'default';
+    expect(pick(router.forAgent(0))).toBe('strong');
+    expect(pick(router.forAgent(1))).toBe('default');
+    expect(pick(router.forAgent(3))).toBe('local');
+    expect(pick(router.forAgent(5))).toBe('tiny');
+    expect(pick(router.forAgent(5, 'strong'))).toBe('strong');
+    expect(pick(router.forRole('summarizer'))).toBe('local');
+    expect(router.forRole('extractor')).toBe(fallback);
+  });
+
+  it('rejects rules that name unknown models', () => {
+    expect(() => new ModelRouter(named('default'), { models: {}, roles: { worker: 'missing' } }, llm => llm as LLMProvider))
+      .toThrow(ConfigurationError);
+  });
+});
+
+describe('model routing in the agent', () => {
+  let agent: VoltClawAgent | undefined;
+
+  afterEach(async () => {
+    await agent?.stop();
+    agent = undefined;
+  });
+
+  it('runs sub-agents on the model for their depth', async () => {
+    const seen: ChatMessage[][] = [];
+    const local = new MockLLM({ defaultResponse: 'done locally' });
+    agent = new VoltClawAgent({
+      llm: rootLLM({}, seen),
+      channel: new LoopbackChannel(),
+      persistence: new MemoryStore(),
+      router: { models: { local }, depths: { 1: 'local' } },
+      call: { timeoutMs: 5000 }
+    });
+    await agent.start();
+
+    const reply = JSON.parse(await agent.query('delegate')) as Record<string, unknown>;
+
+    expect(reply.result).toBe('done locally');
+    expect(local.getCallCount()).toBe(1);
+    expect(seen.some(messages => messages.some(m => m.content?.includes('Task: leaf work') === true))).toBe(false);
+  });
+
+  it('honours a model hint from the caller and rejects unknown names', async () => {
+    const cheap = new MockLLM({ defaultResponse: 'cheap answer' });
+    agent = new VoltClawAgent({
+      llm: rootLLM({ model: 'cheap' }),
+      channel: new LoopbackChannel(),
+      persistence: new MemoryStore(),
+      router: { models: { cheap } },
+      call: { timeoutMs: 5000 }
+    });
+    await agent.start();
+
+    const reply = JSON.parse(await agent.query('delegate')) as Record<string, unknown>;
+    expect(reply.result).toBe('cheap answer');
+    expect(agent.getStore().get(`subtask:${agent.callTree.nodes('self')[0]?.subId}`).model).toBe('cheap');
+
+    await agent.stop();
+    agent = new VoltClawAgent({
+      llm: rootLLM({ model: 'gpt-9' }),
+      channel: new LoopbackChannel(),
+      persistence: new MemoryStore(),
+      router: { models: { cheap } },
+      call: { timeoutMs: 5000 }
+    });
+    await agent.start();
+
+    const rejected = JSON.parse(await agent.query('delegate')) as Record<string, unknown>;
+    expect(rejected.error).toBe('Unknown model: gpt-9. Available: cheap');
+    expect(cheap.getCallCount()).toBe(1);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { OpenAIProvider, AnthropicProvider, OllamaProvider } from '../../src/llm/index.js';
+import { ToolCallAccumulator } from '../../src/llm/stream.js';
+import { VoltClawAgent } from '../../src/core/agent.js';
+import { MemoryStore } from '../../src/memory/index.js';
+import type { Channel, ChatChunk, ChatMessage, LLMProvider, Tool, ToolCall } from '../../src/core/types.js';
+
+const channel: Channel = {
+  type: 'memory',
+  identity: { publicKey: 'test' },
+  start: async () => {},
+  stop: async () => {},
+  send: async () => {},
+  subscribe: () => () => {},
+  on: () => {}
+};
+
+// Recorded wire payloads, trimmed to the events that matter
+const OPENAI_SSE = [
+  'data: {"id":"c1","choices":[{"index":0,"delta":{"role":"assistant","content":"Checking"},"finish_reason":null}],"usage":null}',
+  'data: {"id":"c1","choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"id":"call_a","type":"function","function":{"name":"read_file","arguments":""}}]},"finish_reason":null}],"usage":null}',
+  'data: {"id":"c1","choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"function":{"arguments":"{\\"pa"}}]},"finish_reason":null}],"usage":null}',
+  'data: {"id":"c1","choices":[{"index":0,"delta":{"tool_calls":[{"index":1,"id":"call_b","type":"function","function":{"name":"list","arguments":"{}"}}]},"finish_reason":null}],"usage":null}',
+  'data: {"id":"c1","choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"function":{"arguments":"th\\": \\"a.txt\\"}"}}]},"finish_reason":null}],"usage":null}',
+  'data: {"id":"c1","choices":[{"index":0,"delta":{},"finish_reason":"tool_calls"}],"usage":null}',
+  'data: {"id":"c1","choices":[],"usage":{"prompt_tokens":42,"completion_tokens":17,"total_tokens":59}}',
+  'data: [DONE]',
+  ''
+].join('\n\n');
+
+const ANTHROPIC_SSE = [
+  'event: message_start',
+  'data: {"type":"message_start","message":{"id":"msg_1","usage":{"input_tokens":30,"output_tokens":1}}}',
+  'event: content_block_start',
+  'data: {"type":"content_block_start","index":0,"content_block":{"type":"text","text":""}}',
+  'event: content_block_delta',
+  'data: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Checking"}}',
+  'event: content_block_stop',
+  'data: {"type":"content_block_stop","index":0}',
+  'event: content_block_start',
+  'data: {"type":"content_block_start","index":1,"content_block":{"type":"tool_use","id":"toolu_1","name":"read_file","input":{}}}',
+  'event: content_block_delta',
+  'data: {"type":"content_block_delta","index":1,"delta":{"type":"input_json_delta","partial_json":""}}',
+  'event: content_block_delta',
+  'data: {"type":"content_block_delta","index":1,"delta":{"type":"input_json_delta","partial_json":"{\\"path\\": \\"a"}}',
+  'event: content_block_delta',
+  'data: {"type":"content_block_delta","index":1,"delta":{"type":"input_json_delta","partial_json":".txt\\"}"}}',
+  'event: content_block_stop',
+  'data: {"type":"content_block_stop","index":1}',
+  'event: message_delta',
+  'data: {"type":"message_delta","delta":{"stop_reason":"tool_use"},"usage":{"output_tokens":25}}',
+  'event: message_stop',
+  'data: {"type":"message_stop"}',
+  ''
+].join('\n');
+
+const OLLAMA_NDJSON = [
+  '{"model":"llama3.1","message":{"role":"assistant","content":"Checking"},"done":false}',
+  '{"model":"llama3.1","message":{"role":"assistant","content":"","tool_calls":[{"function":{"name":"read_file","arguments":{"path":"a.txt"}}}]},"done":false}',
+  '{"model":"llama3.1","message":{"role":"assistant","content":""},"done":true,"prompt_eval_count":12,"eval_count":8}',
+  ''
+].join('\n');
+
+// Serves the payload in small pieces so events are split across reads
+function mockFetch(payload: string): void {
+  vi.stubGlobal('fetch', vi.fn(async () => {
+    const bytes = new TextEncoder().encode(payload);
+    const body = new ReadableStream<Uint8Array>({
+      start(controller): void {
+        for (let i = 0; i < bytes.length; i += 7) controller.enqueue(bytes.slice(i, i + 7));
+        controller.close();
+      }
+    });
+    return new Response(body, { status: 200 });
+  }));
+}
+
+async function collect(llm: LLMProvider): Promise<{ content: string; toolCalls: ToolCall[]; last?: ChatChunk }> {
+  let content = '';
+  const toolCalls: ToolCall[] = [];
+  let last: ChatChunk | undefined;
+  for await (const chunk of llm.stream?.([{ role: 'user', content: 'read a.txt' }]) ?? []) {
+    content += chunk.content ?? '';
+    if (chunk.toolCalls) toolCalls.push(chunk.toolCalls as ToolCall);
+    last = chunk;
+  }
+  return { content, toolCalls, last };
+}
+
+describe('provider streams', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('assembles OpenAI tool-call fragments by index and reports usage', async () => {
+    mockFetch(OPENAI_SSE);
+    const result = await collect(new OpenAIProvider({ model: 'gpt-4o', apiKey: 'k' }));
+
+    expect(result.content).toBe('Checking');
+    expect(result.toolCalls).toEqual([
+      { id: 'call_a', name: 'read_file', arguments: { path: 'a.txt' } },
+      { id: 'call_b', name: 'list', arguments: {} }
+    ]);
+    expect(result.last).toEqual({ done: true, usage: { promptTokens: 42, completionTokens: 17, totalTokens: 59 } });
+  });
+
+  it('assembles Anthropic input_json deltas and reports usage', async () => {
+    mockFetch(ANTHROPIC_SSE);
+    const result = await collect(new AnthropicProvider({ model: 'claude-3-5-sonnet', apiKey: 'k' }));
+
+    expect(result.content).toBe('Checking');
+    expect(result.toolCalls).toEqual([{ id: 'toolu_1', name: 'read_file', arguments: { path: 'a.txt' } }]);
+    expect(result.last).toEqual({ done: true, usage: { promptTokens: 30, completionTokens: 25 } });
+  });
+
+  it('passes through whole Ollama tool calls and reports usage', async () => {
+    mockFetch(OLLAMA_NDJSON);
+    const result = await collect(new OllamaProvider({ model: 'llama3.1' }));
+
+    expect(result.content).toBe('Checking');
+    expect(result.toolCalls).toHaveLength(1);
+    expect(result.toolCalls[0]).toMatchObject({ name: 'read_file', arguments: { path: 'a.txt' } });
+    expect(result.last).toEqual({ done: true, usage: { promptTokens: 12, completionTokens: 8 } });
+  });
+});
+
+describe('streamed agent turns', () => {
+  it('runs tool calls whose arguments arrive in fragments', async () => {
+    const seen: unknown[] = [];
+    const echo: Tool = {
+      name: 'echo',
+      description: 'Echoes its input',
+      execute: async (args) => {
+        seen.push(args);
+        return { ok: true };
+      }
+    };
+    const llm: LLMProvider = {
+      name: 'fragments',
+      model: 'test',
+      chat: async () => ({ content: 'unused' }),
+      stream: async function* (messages: ChatMessage[]): AsyncIterable<ChatChunk> {
+        if (messages.some(m => m.role === 'tool')) {
+          yield { content: 'done' };
+          return;
+        }
+        yield { toolCalls: { index: 0, id: 'c1', name: 'echo', argumentsDelta: '{"text":' } };
+        yield { toolCalls: { index: 0, argumentsDelta: ' "hi"}' } };
+        yield { done: true };
+      }
+    };
+    const agent = new VoltClawAgent({ llm, channel, persistence: new MemoryStore(), tools: [echo] });
+
+    let reply = '';
+    for await (const token of agent.queryStream('say hi')) reply += token;
+
+    expect(seen).toEqual([{ text: 'hi' }]);
+    expect(reply).toBe('done');
+  });
+});
+
+describe('ToolCallAccumulator', () => {
+  it('rejects arguments that never became valid JSON', () => {
+    const pending = new ToolCallAccumulator();
+    pending.add({ index: 0, id: 'c', name: 'read_file', argumentsDelta: '{"path": "a' });
+
+    expect(() => pending.finish()).toThrow(/malformed arguments/);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RateLimiter, retryDelayMs, quotaResetMs } from '../../src/llm/rate-limit.js';
+import { OpenAIProvider } from '../../src/llm/index.js';
+import { LLMRateLimitError } from '../../src/core/errors.js';
+
+// Lets queued acquisitions settle without advancing the clock
+async function settle(): Promise<void> {
+  await vi.advanceTimersByTimeAsync(0);
+}
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('holds requests beyond maxConcurrent until one is released', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ maxConcurrent: 2 });
+    const admitted: number[] = [];
+    const permits = [1, 2, 3].map(n => limiter.acquire().then(permit => {
+      admitted.push(n);
+      return permit;
+    }));
+
+    await settle();
+    expect(admitted).toEqual([1, 2]);
+
+    (await permits[0])?.release();
+    await settle();
+    expect(admitted).toEqual([1, 2, 3]);
+  });
+
+  it('spreads requests over the minute to stay under tokensPerMinute', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ tokensPerMinute: 1000 });
+    let admitted = 0;
+    for (let i = 0; i < 3; i++) void limiter.acquire(400).then(() => admitted++);
+
+    await settle();
+    expect(admitted).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(admitted).toBe(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(admitted).toBe(3);
+  });
+
+  it('counts actual usage instead of the estimate once released', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ tokensPerMinute: 1000 });
+    (await limiter.acquire(900)).release(100);
+
+    let admitted = false;
+    void limiter.acquire(800).then(() => { admitted = true; });
+    await settle();
+    expect(admitted).toBe(true);
+  });
+
+  it('holds everyone back while paused', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter();
+    limiter.pause(5000);
+    let admitted = false;
+    void limiter.acquire().then(() => { admitted = true; });
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(admitted).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(admitted).toBe(true);
+  });
+
+  it('reads wait times from Retry-After and rate-limit headers', () => {
+    expect(retryDelayMs(new Headers({ 'retry-after': '3' }))).toBe(3000);
+    expect(retryDelayMs(new Headers({ 'retry-after-ms': '250', 'retry-after': '3' }))).toBe(250);
+    expect(quotaResetMs(new Headers({ 'x-ratelimit-remaining-requests': '0', 'x-ratelimit-reset-requests': '1m30s' }))).toBe(90_000);
+    expect(quotaResetMs(new Headers({ 'x-ratelimit-remaining-requests': '4', 'x-ratelimit-reset-requests': '1m30s' }))).toBeUndefined();
+  });
+
+  it('pauses every provider on the same endpoint after a 429', async () => {
+    vi.useFakeTimers();
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'retry-after': '2' } }))
+      .mockResolvedValue(new Response(JSON.stringify({ choices: [{ message: { content: 'ok' } }] }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const config = { model: 'gpt-4o', apiKey: 'rate-limit-test', baseUrl: 'http://limited.test' };
+
+    const error = await new OpenAIProvider(config).chat([{ role: 'user', content: 'hi' }]).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(LLMRateLimitError);
+    expect((error as LLMRateLimitError).retryAfter).toBe(2000);
+
+    const reply = new OpenAIProvider(config).chat([{ role: 'user', content: 'hi' }]);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await reply).content).toBe('ok');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { VoltClawAgent } from '../../src/core/agent.js';
+import { ConfigurationError } from '../../src/core/errors.js';
+import { ResponseCache } from '../../src/core/response-cache.js';
+import { MemoryStore } from '../../src/memory/index.js';
+import { SQLiteStore } from '../../src/memory/sqlite.js';
+import { MockLLM } from '../../src/testing/index.js';
+import type { Channel, ChatChunk } from '../../src/core/types.js';
+
+const channel: Channel = {
+  type: 'memory',
+  identity: { publicKey: 'test' },
+  start: async () => {},
+  stop: async () => {},
+  send: async () => {},
+  subscribe: () => () => {},
+  on: () => {}
+};
+
+describe('ResponseCache', () => {
+  let dir: string;
+  let store: SQLiteStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'voltclaw-cache-'));
+    store = new SQLiteStore({ path: path.join(dir, 'cache.db') });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays identical requests and ignores per-turn metadata', async () => {
+    const mock = new MockLLM({ defaultResponse: 'fresh' });
+    const cache = new ResponseCache(store);
+    const llm = cache.wrap(mock);
+
+    expect((await llm.chat([{ role: 'user', content: 'hi', turnId: 't1', timestamp: 1 }])).content).toBe('fresh');
+    expect((await llm.chat([{ role: 'user', content: 'hi', turnId: 't2', timestamp: 2 }])).content).toBe('fresh');
+    await llm.chat([{ role: 'user', content: 'hi' }], { temperature: 0.2 });
+    await llm.chat([{ role: 'user', content: 'hi' }], { cache: false });
+
+    expect(mock.getCallCount()).toBe(3);
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 2, writes: 2, bypassed: 1 });
+  });
+
+  it('expires entries after the TTL and evicts the least recently used', async () => {
+    const mock = new MockLLM();
+    const llm = new ResponseCache(store, { ttlMs: 200, maxEntries: 2 }).wrap(mock);
+    // Spaced out so every request has its own last-used time
+    const ask = async (content: string): Promise<void> => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await llm.chat([{ role: 'user', content }]);
+    };
+
+    await ask('a');
+    await ask('b');
+    await ask('a');
+    await ask('c'); // Evicts b
+    await ask('b');
+    expect(mock.getCallCount()).toBe(4);
+
+    await new Promise(resolve => setTimeout(resolve, 250));
+    await ask('b');
+    expect(mock.getCallCount()).toBe(5);
+  });
+
+  it('records whole streamed replies and replays them as chunks', async () => {
+    const mock = new MockLLM({ defaultResponse: 'two words' });
+    const llm = new ResponseCache(store).wrap(mock);
+    const collect = async (): Promise<string> => {
+      let text = '';
+      for await (const chunk of llm.stream?.([{ role: 'user', content: 'go' }]) ?? ([] as ChatChunk[])) {
+        text += chunk.content ?? '';
+      }
+      return text;
+    };
+
+    expect(await collect()).toBe('two words ');
+    expect(await collect()).toBe('two words ');
+    expect(mock.getCallCount()).toBe(1);
+  });
+
+  it('serves repeated agent prompts without charging for them', async () => {
+    const mock = new MockLLM({ defaultResponse: 'cached answer' });
+    const agent = new VoltClawAgent({ llm: mock, channel, persistence: store, cache: {} });
+
+    await agent.query('same question', { sessionId: 'first' });
+    const spent = agent.usage.getTotals().costUSD;
+    expect(await agent.query('same question', { sessionId: 'second' })).toBe('cached answer');
+
+    expect(mock.getCallCount()).toBe(1);
+    expect(agent.getCacheStats()).toMatchObject({ hits: 1, misses: 1 });
+    expect(agent.usage.getTotals().costUSD).toBe(spent);
+    expect(await agent.clearResponseCache()).toBe(1);
+  });
+
+  it('needs a store that can hold responses', () => {
+    expect(() => new VoltClawAgent({ llm: new MockLLM(), channel, persistence: new MemoryStore(), cache: {} }))
+      .toThrow(ConfigurationError);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
 import { Retrier } from '../../src/core/retry.js';
-import { TimeoutError, CircuitOpenError } from '../../src/core/errors.js';
+import { TimeoutError, CircuitOpenError, LLMRateLimitError } from '../../src/core/errors.js';
 
 describe('Retrier', () => {
   const config = {
@@ -47,6 +47,29 @@ describe('Retrier', () => {
     expect(fn).toHaveBeenCalledTimes(1);
   });
 
+  it('waits as long as a rate-limited provider asked', async () => {
+    vi.useFakeTimers();
+    const retrier = new Retrier({ ...config, maxDelayMs: 10_000 });
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new LLMRateLimitError(5000, 'openai'))
+      .mockResolvedValue('success');
+
+    const result = retrier.execute(fn);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await result).toBe('success');
+    vi.useRealTimers();
+  });
+
+  it('gives up at once when the requested wait is over the max delay', async () => {
+    const retrier = new Retrier(config);
+    const fn = vi.fn().mockRejectedValue(new LLMRateLimitError(86_400_000, 'openai'));
+
+    await expect(retrier.execute(fn)).rejects.toThrow(LLMRateLimitError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
   it('should respect max delay', async () => {
     const retrier = new Retrier({ ...config, maxDelayMs: 20 });
     const fn = vi.fn().mockRejectedValue(new TimeoutError(100, 'timeout'));
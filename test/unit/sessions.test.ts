@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { VoltClawAgent } from '../../src/core/agent.js';
+import { VoltClawError } from '../../src/core/errors.js';
+import { MemoryStore } from '../../src/memory/index.js';
+import { MockLLM } from '../../src/testing/index.js';
+import type { Channel, ChatMessage } from '../../src/core/types.js';
+
+const channel: Channel = {
+  type: 'memory',
+  identity: { publicKey: 'test' },
+  start: async () => {},
+  stop: async () => {},
+  send: async () => {},
+  subscribe: () => () => {},
+  on: () => {}
+};
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+function echoLLM(onChat?: (messages: ChatMessage[]) => Promise<void>): MockLLM {
+  return new MockLLM({
+    handler: async (messages) => {
+      await onChat?.(messages);
+      const last = messages[messages.length - 1];
+      return { content: `echo: ${last?.content ?? ''}` };
+    }
+  });
+}
+
+describe('Sessions', () => {
+  it('keeps concurrent sessions isolated', async () => {
+    const store = new MemoryStore();
+    const agent = new VoltClawAgent({ llm: echoLLM(() => delay(10)), channel, persistence: store });
+
+    const [a, b] = await Promise.all([
+      agent.query('from alice', { sessionId: 'alice' }),
+      agent.query('from bob', { sessionId: 'bob' })
+    ]);
+
+    expect(a).toBe('echo: from alice');
+    expect(b).toBe('echo: from bob');
+    expect(store.get('alice').history.map(m => m.content)).toEqual(['from alice', 'echo: from alice']);
+    expect(store.get('bob').history.map(m => m.content)).toEqual(['from bob', 'echo: from bob']);
+    expect(store.get('self', true).history).toHaveLength(0);
+  });
+
+  it('queues turns on the same session instead of interleaving them', async () => {
+    let active = 0;
+    let peak = 0;
+    const agent = new VoltClawAgent({
+      llm: echoLLM(async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await delay(10);
+        active--;
+      }),
+      channel,
+      persistence: new MemoryStore()
+    });
+
+    await Promise.all([
+      agent.query('one', { sessionId: 's' }),
+      agent.query('two', { sessionId: 's' })
+    ]);
+
+    expect(peak).toBe(1);
+  });
+
+  it('creates, lists, forks and deletes sessions', async () => {
+    const store = new MemoryStore();
+    const agent = new VoltClawAgent({ llm: echoLLM(), channel, persistence: store });
+
+    const created = agent.createSession('main');
+    expect(created.id).toBe('main');
+    expect(() => agent.createSession('main')).toThrow(VoltClawError);
+
+    await agent.query('hello', { sessionId: 'main' });
+    const fork = agent.forkSession('main', 'branch');
+    await agent.query('only on the branch', { sessionId: 'branch' });
+
+    expect(fork.history).toHaveLength(4);
+    expect(store.get('main').history).toHaveLength(2);
+    expect(agent.listSessions().map(s => s.id).sort()).toEqual(['branch', 'main']);
+
+    await agent.deleteSession('branch');
+    expect(agent.listSessions().map(s => s.id)).toEqual(['main']);
+  });
+
+  it('rejects a nested turn on a session that is already running', async () => {
+    let nested: Promise<string> | undefined;
+    const agent: VoltClawAgent = new VoltClawAgent({
+      llm: new MockLLM({
+        handler: async (messages) => messages[messages.length - 1]?.role === 'user'
+          ? { content: '', toolCalls: [{ id: 't1', name: 'recurse', arguments: {} }] }
+          : { content: 'done' }
+      }),
+      channel,
+      persistence: new MemoryStore(),
+      tools: [{
+        name: 'recurse',
+        description: 'Queries the agent again',
+        execute: async () => {
+          nested = agent.query('again', { sessionId: 'loop' });
+          await nested.catch(() => undefined);
+          return { ok: true };
+        }
+      }]
+    });
+
+    await agent.query('start', { sessionId: 'loop' });
+    await expect(nested).rejects.toThrow('already running');
+  });
+});
@@ -17,7 +17,7 @@ describe('SpawnManager', () => {
 
     await manager.waitForAll();
 
-    expect(mockAgent.query).toHaveBeenCalledWith(expect.stringContaining('Test Task'));
+    expect(mockAgent.query).toHaveBeenCalledWith(expect.stringContaining('Test Task'), { sessionId: expect.stringMatching(/^spawn:/) });
     expect(manager.getTasks()[0].status).toBe('completed');
   });
 
@@ -2,6 +2,18 @@
 import { describe, it, expect } from 'vitest';
 import { VoltClawAgent } from '../../src/core/agent.js';
 import { createMockLLM } from '../../src/testing/mock-llm.js';
+import { MemoryStore } from '../../src/memory/index.js';
+import type { AgentStreamEvent, Channel } from '../../src/core/types.js';
+
+const channel: Channel = {
+  type: 'memory',
+  identity: { publicKey: 'test' },
+  start: async () => {},
+  stop: async () => {},
+  send: async () => {},
+  subscribe: () => () => {},
+  on: () => {}
+};
 
 describe('VoltClawAgent Streaming', () => {
   it('should stream response content', async () => {
@@ -77,4 +89,68 @@ describe('VoltClawAgent Streaming', () => {
 
     expect(chunks.join('')).toContain('The time is 12:00.');
   });
+
+  it('emits typed events for tool calls, usage and the final reply', async () => {
+    let step = 0;
+    const llm = createMockLLM({
+      handler: async () => step++ === 0
+        ? { content: '', toolCalls: [{ id: 'call_1', name: 'get_time', arguments: {} }] }
+        : { content: 'The time is 12:00.' }
+    });
+
+    const agent = new VoltClawAgent({
+      llm,
+      channel,
+      persistence: new MemoryStore(),
+      tools: [{ name: 'get_time', description: 'Get time', execute: async () => ({ result: '12:00' }) }]
+    });
+
+    const events: AgentStreamEvent[] = [];
+    for await (const event of agent.queryEvents('What time is it?')) {
+      events.push(event);
+    }
+
+    const types = events.map(e => e.type);
+    expect(types.indexOf('tool_call_start')).toBeLessThan(types.indexOf('tool_call_result'));
+    expect(types.indexOf('tool_call_result')).toBeLessThan(types.lastIndexOf('token'));
+    expect(types).toContain('usage');
+    expect(types[types.length - 1]).toBe('final');
+
+    const result = events.find(e => e.type === 'tool_call_result');
+    expect(result).toMatchObject({ callId: 'call_1', name: 'get_time', result: { result: '12:00' } });
+    const final = events[events.length - 1];
+    expect(final?.type === 'final' ? final.content.trim() : undefined).toBe('The time is 12:00.');
+  });
+
+  it('cancels the run when the consumer stops early', async () => {
+    let calls = 0;
+    const llm = createMockLLM({
+      handler: async () => {
+        calls++;
+        return { content: '', toolCalls: [{ id: `c${calls}`, name: 'wait', arguments: {} }] };
+      }
+    });
+
+    const agent = new VoltClawAgent({
+      llm,
+      channel,
+      persistence: new MemoryStore(),
+      tools: [{
+        name: 'wait',
+        description: 'Wait',
+        execute: async () => {
+          await new Promise(resolve => setTimeout(resolve, 5));
+          return { ok: true };
+        }
+      }]
+    });
+
+    for await (const event of agent.queryEvents('loop forever')) {
+      if (event.type === 'tool_call_result') break;
+    }
+
+    const callsAtBreak = calls;
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(calls).toBe(callsAtBreak);
+  });
 });
@@ -0,0 +1,170 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { VoltClawAgent } from '../../src/core/agent.js';
+import { parseStructuredOutput, requestStructuredOutput, validateJsonSchema } from '../../src/core/json-schema.js';
+import { SchemaValidationError } from '../../src/core/errors.js';
+import { OpenAIProvider, AnthropicProvider, OllamaProvider } from '../../src/llm/index.js';
+import { MemoryStore } from '../../src/memory/index.js';
+import { MockLLM } from '../../src/testing/index.js';
+import type { Channel, ChatMessage, MessageHandler, Unsubscribe } from '../../src/core/types.js';
+
+class LoopbackChannel implements Channel {
+  readonly type = 'memory';
+  readonly identity = { publicKey: 'loopback' };
+  private handlers: MessageHandler[] = [];
+
+  async start(): Promise<void> {}
+  async stop(): Promise<void> {}
+  async send(to: string, content: string): Promise<void> {
+    if (to !== this.identity.publicKey) return;
+    setTimeout(() => {
+      for (const h of this.handlers) void h(to, content, { timestamp: Date.now() });
+    }, 0);
+  }
+  subscribe(handler: MessageHandler): Unsubscribe {
+    this.handlers.push(handler);
+    return () => {};
+  }
+  on(): void {}
+}
+
+const countSchema = {
+  type: 'object',
+  properties: { count: { type: 'integer', minimum: 0 } },
+  required: ['count'],
+  additionalProperties: false
+};
+
+describe('validateJsonSchema', () => {
+  it('reports violations with their paths', () => {
+    expect(validateJsonSchema({ count: 3 }, countSchema)).toEqual([]);
+    expect(validateJsonSchema({ count: -1, extra: true }, countSchema)).toEqual([
+      '$.count: must be >= 0',
+      '$.extra: is not allowed'
+    ]);
+    expect(validateJsonSchema({ items: ['a', 2] }, {
+      type: 'object',
+      properties: { items: { type: 'array', items: { type: 'string' } } }
+    })).toEqual(['$.items[1]: expected string, got number']);
+  });
+
+  it('compares enum and const values regardless of key order', () => {
+    expect(validateJsonSchema({ b: 2, a: [1, { d: 4, c: 3 }] }, { const: { a: [1, { c: 3, d: 4 }], b: 2 } })).toEqual([]);
+    expect(validateJsonSchema({ a: 1 }, { enum: [{ a: 1, b: 2 }, { a: '1' }] })).toEqual(['$: must be one of [{"a":1,"b":2},{"a":"1"}]']);
+  });
+
+  it('reports an invalid pattern as a violation instead of throwing', () => {
+    expect(validateJsonSchema('abc', { type: 'string', pattern: '^a' })).toEqual([]);
+    expect(validateJsonSchema('abc', { type: 'string', pattern: '(' })).toEqual([
+      '$: schema pattern /(/ is not a valid regular expression'
+    ]);
+  });
+
+  it('parses fenced output and treats prose schemas as JSON-only', () => {
+    expect(parseStructuredOutput('```json\n{"count": 1}\n```', countSchema)).toEqual({ ok: true, value: { count: 1 } });
+    expect(parseStructuredOutput('[1, 2]', 'a list of numbers')).toEqual({ ok: true, value: [1, 2] });
+    expect(parseStructuredOutput('three', countSchema).ok).toBe(false);
+    expect(parseStructuredOutput('Here it is: {"count": 2}. Done.', countSchema)).toEqual({ ok: true, value: { count: 2 } });
+  });
+});
+
+describe('requestStructuredOutput', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function captureRequests(reply: unknown): Array<Record<string, unknown>> {
+    const bodies: Array<Record<string, unknown>> = [];
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: { body: string }) => {
+      bodies.push(JSON.parse(init.body) as Record<string, unknown>);
+      return new Response(JSON.stringify(reply), { status: 200 });
+    }));
+    return bodies;
+  }
+
+  const ask: ChatMessage[] = [{ role: 'user', content: 'Count the apples. Reply in JSON.' }];
+
+  it('uses the native mode of OpenAI and Ollama', async () => {
+    const openai = captureRequests({ choices: [{ message: { content: '{"count": 4}' } }] });
+    expect(await requestStructuredOutput(new OpenAIProvider({ model: 'gpt-4o', apiKey: 'k' }), ask, countSchema, { name: 'count' }))
+      .toEqual({ count: 4 });
+    expect(openai[0]?.['response_format']).toEqual({ type: 'json_schema', json_schema: { name: 'count', schema: countSchema } });
+
+    const ollama = captureRequests({ message: { content: '{"count": 4}' } });
+    await requestStructuredOutput(new OllamaProvider({ model: 'llama3.1' }), ask, 'an object');
+    expect(ollama[0]?.['format']).toBe('json');
+  });
+
+  it('forces an output tool on Anthropic and returns its input as the reply', async () => {
+    const bodies = captureRequests({ content: [{ type: 'tool_use', id: 't1', name: 'structured_output', input: { count: 4 } }] });
+    const llm = new AnthropicProvider({ model: 'claude-3-5-sonnet', apiKey: 'k' });
+
+    expect(await requestStructuredOutput(llm, ask, countSchema)).toEqual({ count: 4 });
+    expect(bodies[0]?.['tool_choice']).toEqual({ type: 'tool', name: 'structured_output' });
+    expect(bodies[0]?.['tools']).toEqual([expect.objectContaining({ name: 'structured_output', input_schema: countSchema })]);
+  });
+
+  it('repairs replies from providers without a native mode', async () => {
+    const replies = ['About three', '{"count": 3}'];
+    const mock = new MockLLM({ handler: async () => ({ content: replies.shift() ?? '' }) });
+
+    expect(await requestStructuredOutput(mock, ask, countSchema)).toEqual({ count: 3 });
+    await expect(requestStructuredOutput(new MockLLM({ defaultResponse: 'no' }), ask, countSchema, { maxRepairs: 1 }))
+      .rejects.toThrow(SchemaValidationError);
+  });
+});
+
+describe('structured sub-agent output', () => {
+  let agent: VoltClawAgent | undefined;
+
+  afterEach(async () => {
+    await agent?.stop();
+    agent = undefined;
+  });
+
+  function llm(childAnswers: string[]): MockLLM {
+    let child = 0;
+    return new MockLLM({
+      handler: async (messages: ChatMessage[]) => {
+        const system = messages.find(m => m.role === 'system')?.content ?? '';
+        const last = messages[messages.length - 1];
+        if (system.includes('Depth: 1')) {
+          return { content: childAnswers[Math.min(child++, childAnswers.length - 1)] ?? '' };
+        }
+        if (last?.role === 'tool') return { content: last.content ?? '' };
+        return { content: '', toolCalls: [{ id: 'c1', name: 'call', arguments: { task: 'count', schema: countSchema } }] };
+      }
+    });
+  }
+
+  it('feeds validation errors back to the child and returns the parsed value', async () => {
+    agent = new VoltClawAgent({
+      llm: llm(['{"count": "three"}', '{"count": 3}']),
+      channel: new LoopbackChannel(),
+      persistence: new MemoryStore(),
+      call: { timeoutMs: 5000 }
+    });
+    await agent.start();
+
+    const reply = JSON.parse(await agent.query('how many?')) as Record<string, unknown>;
+    expect(reply.status).toBe('completed');
+    expect(reply.result).toEqual({ count: 3 });
+
+    const node = agent.callTree.nodes('self')[0];
+    const child = agent.getStore().get(`subtask:${node?.subId}`);
+    expect(child.history.some(m => m.role === 'user' && m.content?.includes('$.count: expected integer') === true)).toBe(true);
+  });
+
+  it('fails the call once the repair attempts are used up', async () => {
+    agent = new VoltClawAgent({
+      llm: llm(['not json']),
+      channel: new LoopbackChannel(),
+      persistence: new MemoryStore(),
+      call: { timeoutMs: 5000, maxSchemaRepairs: 1 }
+    });
+    await agent.start();
+
+    const reply = JSON.parse(await agent.query('how many?')) as Record<string, unknown>;
+    expect(reply.error).toContain('does not match the requested schema');
+    expect(agent.callTree.nodes('self')[0]?.status).toBe('failed');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { VoltClawAgent } from '../../src/core/agent.js';
+import { parseToolCalls, TextToolProvider } from '../../src/llm/text-tools.js';
+import { MemoryStore } from '../../src/memory/index.js';
+import type { Channel, ChatMessage, ChatOptions, ChatResponse, LLMProvider } from '../../src/core/types.js';
+
+const channel: Channel = {
+  type: 'memory',
+  identity: { publicKey: 'test' },
+  start: async () => {},
+  stop: async () => {},
+  send: async () => {},
+  subscribe: () => () => {},
+  on: () => {}
+};
+
+// A model that only ever sees and produces plain text
+function textOnlyLLM(handler: (messages: ChatMessage[]) => string): LLMProvider & { seen: ChatMessage[][]; options: Array<ChatOptions | undefined> } {
+  const seen: ChatMessage[][] = [];
+  const options: Array<ChatOptions | undefined> = [];
+  return {
+    name: 'text',
+    model: 'text-model',
+    supportsTools: false,
+    seen,
+    options,
+    chat: async (messages: ChatMessage[], opts?: ChatOptions): Promise<ChatResponse> => {
+      seen.push(messages);
+      options.push(opts);
+      return { content: handler(messages) };
+    }
+  };
+}
+
+describe('parseToolCalls', () => {
+  it('reads <tool_call> blocks and keeps the surrounding prose', () => {
+    const parsed = parseToolCalls(
+      'Let me look.\n<tool_call>\n{"name": "read", "arguments": {"path": "a.txt"}}\n</tool_call>\n<tool_call>{"name": "read", "arguments": {"path": "b.txt"}}</tool_call>',
+      ['read']
+    );
+    expect(parsed.content).toBe('Let me look.');
+    expect(parsed.toolCalls.map(c => c.arguments)).toEqual([{ path: 'a.txt' }, { path: 'b.txt' }]);
+    expect(new Set(parsed.toolCalls.map(c => c.id)).size).toBe(2);
+  });
+
+  it('accepts JSON objects only when they name a known tool', () => {
+    expect(parseToolCalls('```json\n{"tool": "call", "parameters": {"task": "x"}}\n```', ['call']).toolCalls)
+      .toMatchObject([{ name: 'call', arguments: { task: 'x' } }]);
+    expect(parseToolCalls('{"name": "call", "arguments": {}}', ['call']).toolCalls).toHaveLength(1);
+    expect(parseToolCalls('{"name": "Alice", "age": 3}', ['call']).toolCalls).toEqual([]);
+  });
+
+  it('reads ReAct actions', () => {
+    const parsed = parseToolCalls('Thought: I need the time\nAction: time\nAction Input: {"zone": "UTC"}', ['time']);
+    expect(parsed.toolCalls).toMatchObject([{ name: 'time', arguments: { zone: 'UTC' } }]);
+    expect(parsed.content).toBe('Thought: I need the time');
+
+    expect(parseToolCalls('Action: search\nAction Input: cats', ['search']).toolCalls[0]?.arguments).toEqual({ input: 'cats' });
+  });
+});
+
+describe('TextToolProvider', () => {
+  let agent: VoltClawAgent | undefined;
+
+  afterEach(async () => {
+    await agent?.stop();
+    agent = undefined;
+  });
+
+  it('runs tools for a model without native function calling', async () => {
+    const llm = textOnlyLLM(messages => {
+      const last = messages[messages.length - 1];
+      if (last?.content?.includes('<tool_result') === true) return `The answer is ${last.content.match(/"sum":(\d+)/)?.[1]}`;
+      return '<tool_call>\n{"name": "add", "arguments": {"a": 2, "b": 3}}\n</tool_call>';
+    });
+    agent = new VoltClawAgent({
+      llm,
+      channel,
+      persistence: new MemoryStore(),
+      tools: [{
+        name: 'add',
+        description: 'Adds two numbers',
+        execute: async (args) => ({ sum: Number(args.a) + Number(args.b) })
+      }]
+    });
+
+    const reply = await agent.query('what is 2 + 3?');
+
+    expect(reply).toBe('The answer is 5');
+    expect(llm.options.every(o => o?.tools === undefined)).toBe(true);
+    const system = llm.seen[0]?.find(m => m.role === 'system')?.content ?? '';
+    expect(system).toContain('TOOLS:');
+    expect(system).toContain('- add: Adds two numbers');
+    // The earlier call is replayed as text, never as a native tool message
+    const followUp = llm.seen[1] ?? [];
+    expect(followUp.some(m => m.role === 'tool' || m.toolCalls !== undefined)).toBe(false);
+    expect(followUp.at(-2)?.content).toContain('<tool_call>');
+  });
+
+  it('passes replies through untouched when no tools are offered', async () => {
+    const llm = textOnlyLLM(() => '{"name": "add", "arguments": {}}');
+    const provider = new TextToolProvider(llm);
+
+    const response = await provider.chat([{ role: 'user', content: 'hi' }]);
+
+    expect(response).toEqual({ content: '{"name": "add", "arguments": {}}' });
+    expect(llm.seen[0]).toEqual([{ role: 'user', content: 'hi' }]);
+  });
+});
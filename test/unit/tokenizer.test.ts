@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BpeTokenizer,
+  EstimatingTokenizer,
+  countMessageTokens,
+  registerTokenizer,
+  tokenizerFor
+} from '../../src/llm/tokenizer.js';
+import { OpenAIProvider } from '../../src/llm/openai.js';
+
+// Every single byte, then three merges in rank order
+function tinyVocabulary(): string {
+  const lines = Array.from({ length: 256 }, (_, i) => `${Buffer.from([i]).toString('base64')} ${i}`);
+  ['ll', 'he', 'hell'].forEach((token, i) => lines.push(`${Buffer.from(token).toString('base64')} ${256 + i}`));
+  return lines.join('\n');
+}
+
+describe('BpeTokenizer', () => {
+  it('merges the lowest-ranked pairs first', () => {
+    const bpe = BpeTokenizer.fromTiktoken('tiny', tinyVocabulary());
+
+    expect(bpe.encode('hello')).toEqual([258, 'o'.charCodeAt(0)]);
+    expect(bpe.encode('hello hello')).toHaveLength(5); // "hell", "o", " ", "hell", "o"
+    expect(bpe.count('é')).toBe(2); // Two UTF-8 bytes, no merge
+  });
+});
+
+describe('tokenizers', () => {
+  it('counts OpenAI models with their own vocabulary', () => {
+    const tokenizer = tokenizerFor('openai', 'gpt-4o');
+
+    expect(tokenizer.count('hello world')).toBe(2);
+    expect(tokenizer.count('<|endoftext|>')).toBeGreaterThan(1);
+  });
+
+  it('approximates token counts from the pre-tokenized pieces', () => {
+    const tokenizer = new EstimatingTokenizer('test', 6);
+
+    expect(tokenizer.count('the cat sat')).toBe(3);
+    expect(tokenizer.count('1234567')).toBe(3);
+    expect(tokenizer.count('internationalization')).toBe(4);
+    expect(tokenizer.count('')).toBe(0);
+  });
+
+  it('picks a tokenizer per provider family and lets registrations override it', () => {
+    expect(tokenizerFor('openai', 'gpt-4o').name).toBe('o200k_base');
+    expect(tokenizerFor('openai-compatible', 'gpt-4-turbo').name).toBe('cl100k_base');
+    expect(tokenizerFor('anthropic', 'claude-3-5-haiku').name).toBe('anthropic-estimate');
+    expect(tokenizerFor('ollama', 'llama3.2').name).toBe('estimate');
+
+    const exact = BpeTokenizer.fromTiktoken('tiny', tinyVocabulary());
+    registerTokenizer(/^tiny-model$/, exact);
+    expect(tokenizerFor('openai', 'tiny-model')).toBe(exact);
+    expect(new OpenAIProvider({ model: 'tiny-model', apiKey: 'k' }).countTokens('hello')).toBe(2);
+  });
+
+  it('counts message framing, tool calls and tool definitions', () => {
+    const tokenizer = new EstimatingTokenizer('test', 6);
+    const messages = [
+      { role: 'user' as const, content: 'hi' },
+      { role: 'assistant' as const, content: '', toolCalls: [{ id: '1', name: 'read', arguments: {} }] }
+    ];
+
+    const bare = countMessageTokens(tokenizer, messages);
+    // reply priming + 2 messages of framing + "hi" + the call's framing, name and "{}"
+    expect(bare).toBe(3 + 3 + 1 + 3 + 0 + 3 + 1 + 1);
+    expect(countMessageTokens(tokenizer, messages, [{ name: 'read', description: 'Reads a file' }])).toBeGreaterThan(bare + 3);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { VoltClawAgent } from '../../src/core/agent.js';
+import { MemoryStore } from '../../src/memory/index.js';
+import { MockLLM } from '../../src/testing/index.js';
+import type { Channel } from '../../src/core/types.js';
+
+const channel: Channel = {
+  type: 'memory',
+  identity: { publicKey: 'test' },
+  start: async () => {},
+  stop: async () => {},
+  send: async () => {},
+  subscribe: () => () => {},
+  on: () => {}
+};
+
+function createToolCallingLLM(): MockLLM {
+  return new MockLLM({
+    handler: async (messages) => {
+      const last = messages[messages.length - 1];
+      if (last?.role === 'user') {
+        return {
+          content: '',
+          toolCalls: [{ id: 'tc_1', name: 'get_time', arguments: {} }]
+        };
+      }
+      return { content: 'It is 12:00.' };
+    }
+  });
+}
+
+describe('Session transcripts', () => {
+  it('persists tool calls and results for top-level queries', async () => {
+    const store = new MemoryStore();
+    const agent = new VoltClawAgent({
+      llm: createToolCallingLLM(),
+      channel,
+      persistence: store,
+      tools: [{ name: 'get_time', description: 'Get time', execute: async () => ({ time: '12:00' }) }]
+    });
+
+    const reply = await agent.query('What time is it?');
+    expect(reply).toBe('It is 12:00.');
+
+    const history = store.get('self', true).history;
+    expect(history.map(m => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+    expect(history[1]?.toolCalls?.[0]?.name).toBe('get_time');
+    expect(history[2]?.toolCallId).toBe('tc_1');
+
+    const turnIds = new Set(history.map(m => m.turnId));
+    expect(turnIds.size).toBe(1);
+    expect(history.every(m => typeof m.timestamp === 'number')).toBe(true);
+  });
+
+  it('gives each turn its own id and feeds earlier traces to the next turn', async () => {
+    const store = new MemoryStore();
+    const seen: number[] = [];
+    const llm = new MockLLM({
+      handler: async (messages) => {
+        seen.push(messages.length);
+        const last = messages[messages.length - 1];
+        if (last?.role === 'user' && last.content === 'first') {
+          return { content: '', toolCalls: [{ id: 'tc_1', name: 'get_time', arguments: {} }] };
+        }
+        return { content: 'done' };
+      }
+    });
+    const agent = new VoltClawAgent({
+      llm,
+      channel,
+      persistence: store,
+      tools: [{ name: 'get_time', description: 'Get time', execute: async () => ({ time: '12:00' }) }]
+    });
+
+    await agent.query('first');
+    await agent.query('second');
+
+    const history = store.get('self', true).history;
+    expect(history).toHaveLength(6);
+    expect(history[0]?.turnId).not.toBe(history[4]?.turnId);
+    // system + 4 messages from the first turn + the new user message
+    expect(seen[seen.length - 1]).toBe(6);
+  });
+
+  it('prunes history without separating tool results from their calls', async () => {
+    const store = new MemoryStore(2);
+    const agent = new VoltClawAgent({
+      llm: createToolCallingLLM(),
+      channel,
+      persistence: store,
+      tools: [{ name: 'get_time', description: 'Get time', execute: async () => ({ time: '12:00' }) }]
+    });
+
+    await agent.query('What time is it?');
+    expect(store.get('self', true).history.map(m => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+
+    store.prune('self');
+    expect(store.get('self', true).history.map(m => m.role)).toEqual(['assistant']);
+  });
+});
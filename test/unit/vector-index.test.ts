@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { VectorIndex } from '../../src/memory/vector-index.js';
+import { SQLiteStore } from '../../src/memory/sqlite.js';
+
+// Seeded generator, so every run indexes the same data
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Points scattered around a few centers, the way embeddings of related texts cluster
+function clustered(count: number, dims: number, next: () => number): number[][] {
+  const centers = Array.from({ length: 20 }, () => Array.from({ length: dims }, () => next() * 2 - 1));
+  return Array.from({ length: count }, (_, i) => (centers[i % centers.length] as number[]).map(x => x + (next() - 0.5) * 0.8));
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += (a[i] as number) * (b[i] as number);
+    na += (a[i] as number) ** 2;
+    nb += (b[i] as number) ** 2;
+  }
+  return dot / Math.sqrt(na * nb);
+}
+
+function exactNearest(vectors: number[][], query: number[], k: number, accept: (id: string) => boolean = () => true): string[] {
+  return vectors
+    .map((v, i) => ({ id: String(i), similarity: cosine(v, query) }))
+    .filter(m => accept(m.id))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map(m => m.id);
+}
+
+function recall(found: string[][], expected: string[][]): number {
+  let hits = 0;
+  let total = 0;
+  found.forEach((ids, q) => {
+    const truth = new Set(expected[q]);
+    hits += ids.filter(id => truth.has(id)).length;
+    total += truth.size;
+  });
+  return hits / total;
+}
+
+describe('VectorIndex', () => {
+  const next = random(42);
+  const vectors = clustered(2000, 32, next);
+  const queries = clustered(50, 32, next);
+  const index = new VectorIndex({ efConstruction: 100 });
+
+  beforeAll(() => {
+    vectors.forEach((v, i) => index.add(String(i), v));
+  }, 60_000);
+
+  it('finds most true nearest neighbors while comparing far fewer vectors than a full scan', () => {
+    const before = index.comparisons;
+    let start = performance.now();
+    const found = queries.map(q => index.search(q, 10).map(m => m.id));
+    const annMs = performance.now() - start;
+    const perQuery = (index.comparisons - before) / queries.length;
+
+    start = performance.now();
+    const expected = queries.map(q => exactNearest(vectors, q, 10));
+    const scanMs = performance.now() - start;
+
+    expect(recall(found, expected)).toBeGreaterThanOrEqual(0.9);
+    // A full scan compares every vector with each query
+    expect(perQuery).toBeLessThan(vectors.length / 2);
+    // Timings vary with the machine, so they are reported rather than asserted
+    console.info(`HNSW: ${perQuery.toFixed(0)} comparisons/query, ${annMs.toFixed(1)} ms; scan: ${vectors.length} comparisons/query, ${scanMs.toFixed(1)} ms`);
+  });
+
+  it('searches within a filter', () => {
+    const accept = (id: string): boolean => Number(id) % 7 === 0;
+
+    const found = queries.map(q => index.search(q, 5, { accept }).map(m => m.id));
+    const expected = queries.map(q => exactNearest(vectors, q, 5, accept));
+
+    expect(found.flat().every(accept)).toBe(true);
+    expect(found.every(ids => ids.length === 5)).toBe(true);
+    expect(recall(found, expected)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('forgets removed vectors and replaces re-added ones', () => {
+    const small = new VectorIndex();
+    small.add('a', [1, 0, 0]);
+    small.add('b', [0, 1, 0]);
+    small.add('c', [0, 0, 1]);
+
+    small.remove('a');
+    expect(small.search([1, 0, 0], 3).map(m => m.id)).not.toContain('a');
+
+    small.add('b', [1, 0.1, 0]);
+    expect(small.search([1, 0, 0], 1)[0]?.id).toBe('b');
+    expect(small.size).toBe(2);
+    expect(small.compacted().search([1, 0, 0], 3).map(m => m.id)).toEqual(['b', 'c']);
+  });
+
+  it('keeps one graph per embedding model', () => {
+    const small = new VectorIndex();
+    small.add('old', [1, 0], 'model-a');
+    small.add('new', [1, 0, 0], 'model-b');
+
+    expect(small.search([1, 0, 0], 5, { model: 'model-b' }).map(m => m.id)).toEqual(['new']);
+    expect(small.search([1, 0, 0], 5, { model: 'model-a' })).toEqual([]);
+    expect(small.add('odd', [1, 0, 0, 0], 'model-b')).toBe(false);
+  });
+
+  it('round-trips through a file', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'voltclaw-hnsw-')), 'index.hnsw');
+    await index.save(file);
+
+    const loaded = await VectorIndex.load(file);
+
+    expect(loaded?.size).toBe(index.size);
+    for (const q of queries.slice(0, 5)) {
+      expect(loaded?.search(q, 10)).toEqual(index.search(q, 10));
+    }
+    expect(await VectorIndex.load(`${file}.missing`)).toBeUndefined();
+  });
+});
+
+describe('SQLiteStore vector index', () => {
+  let dir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'voltclaw-vectors-'));
+    dbPath = path.join(dir, 'memory.db');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function open(vectorIndex?: false): Promise<SQLiteStore> {
+    const store = new SQLiteStore({ path: dbPath, vectorIndex });
+    await store.load();
+    return store;
+  }
+
+  it('serves nearest-neighbor searches and follows removals', async () => {
+    const store = await open();
+    const next = random(7);
+    const ids: string[] = [];
+    for (const embedding of clustered(40, 8, next)) {
+      ids.push(await store.createMemory({ type: 'semantic', content: `memory ${ids.length}`, embedding, embeddingModel: 'test' }));
+    }
+    const query = clustered(1, 8, next)[0] as number[];
+
+    const top = await store.searchMemories({ embedding: query, embeddingModel: 'test', limit: 3 });
+    expect(top).toHaveLength(3);
+    const scanned = await new SQLiteStore({ path: dbPath, vectorIndex: false }).searchMemories({ embedding: query, embeddingModel: 'test', limit: 3 });
+    expect(top.map(m => m.id)).toEqual(scanned.map(m => m.id));
+
+    await store.removeMemory(top[0]?.id ?? '');
+    const after = await store.searchMemories({ embedding: query, embeddingModel: 'test', limit: 3 });
+    expect(after.map(m => m.id)).not.toContain(top[0]?.id);
+
+    await store.save();
+    expect(fs.existsSync(`${dbPath}.hnsw`)).toBe(true);
+  });
+
+  it('catches up with memories written without the index, and rebuilds on demand', async () => {
+    const plain = await open(false);
+    await plain.createMemory({ type: 'semantic', content: 'north', embedding: [1, 0], embeddingModel: 'test' });
+    await plain.createMemory({ type: 'semantic', content: 'east', embedding: [0, 1], embeddingModel: 'test' });
+    await plain.createMemory({ type: 'semantic', content: 'unembedded' });
+
+    const store = await open();
+    const [nearest] = await store.searchMemories({ embedding: [0.1, 1], embeddingModel: 'test', limit: 1 });
+    expect(nearest?.content).toBe('east');
+
+    expect(await store.rebuildVectorIndex()).toBe(2);
+    expect(fs.existsSync(`${dbPath}.hnsw`)).toBe(true);
+  });
+});